@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import type { GuardrailState, GuardrailTrip } from '@/lib/guardrails';
+import type { PositionSource } from '@/lib/paperTrading';
+import { useI18n } from '@/lib/i18n/react';
+import { postWithToken } from '@/lib/execution/clientToken';
+
+type Props = {
+  contract: string;
+  source: PositionSource;
+  state: GuardrailState | null; // From /api/signal, evaluated every bar
+  onChange?: () => void; // E.g. refetch the signal so the recommendation reflects the change
+};
+
+// Tripped risk guardrails, today's counters and the kill switch (see /api/guardrails)
+export default function GuardrailBanner({ contract, source, state: signalState, onChange }: Props) {
+  const { t, n, dt } = useI18n();
+  const [updated, setUpdated] = useState<GuardrailState | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // Whichever is newer: the signal's copy, or the one returned by the last action
+  const state = [signalState, updated]
+    .filter((s): s is GuardrailState => !!s && s.contract === contract && s.source === source)
+    .sort((a, b) => b.updated_at - a.updated_at)[0] ?? null;
+  if (!state) return null;
+
+  const run = async (op: 'kill' | 'release' | 'reset', confirmKey?: string) => {
+    if (confirmKey && !window.confirm(t(confirmKey, { contract }))) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const data = await postWithToken<{ state: GuardrailState; tripped: GuardrailTrip[] }>(
+        '/api/guardrails', { contract, position: source, op }, t('exec.tokenPrompt'));
+      setUpdated({ ...data.state, tripped: data.tripped });
+      onChange?.();
+    } catch (err: any) {
+      setMessage(t('guardrail.failed', { message: err.message }));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const tripped = state.tripped.length > 0;
+  const blackout = state.blackout_until !== null && state.blackout_until > Date.now();
+  const today = t('guardrail.today', { pnl: n(state.realized_pnl), trades: state.trades, losses: state.consecutive_losses });
+  const buttonClass = 'text-xs px-2 py-1 rounded border disabled:opacity-50';
+
+  return (
+    <div className={tripped
+      ? 'p-3 my-4 rounded border-2 border-red-600 bg-red-900/60 text-red-100 text-sm space-y-1'
+      : 'my-2 flex flex-wrap items-center justify-end gap-2 text-xs text-gray-400'}>
+      {tripped && (
+        <>
+          <div className="font-bold text-base">⛔ {t('guardrail.title')}</div>
+          <ul className="list-disc list-inside">
+            {state.tripped.map(trip => <li key={trip.code}>{t(`guardrail.${trip.code}`, trip.params)}</li>)}
+          </ul>
+          {blackout && <div>{t('guardrail.blackoutUntil', { time: dt(state.blackout_until, { hour: '2-digit', minute: '2-digit' }) })}</div>}
+        </>
+      )}
+      <div className={tripped ? 'flex flex-wrap items-center gap-2 pt-1' : 'contents'}>
+        <span>{today}</span>
+        {state.kill_switch ? (
+          <button disabled={busy} onClick={() => run('release')} className={`${buttonClass} border-gray-400 hover:bg-gray-700`}>{t('guardrail.release')}</button>
+        ) : (
+          <button disabled={busy} onClick={() => run('kill', 'guardrail.killConfirm')} className={`${buttonClass} border-red-600 text-red-400 hover:bg-gray-700`}>{t('guardrail.kill')}</button>
+        )}
+        {tripped && (
+          <button disabled={busy} onClick={() => run('reset', 'guardrail.resetConfirm')} className={`${buttonClass} border-gray-400 hover:bg-gray-700`}>{t('guardrail.reset')}</button>
+        )}
+        {message && <span>{message}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { LOCALES, type Locale } from '@/lib/i18n';
+import { useI18n } from '@/lib/i18n/react';
+
+// Language selector; the choice is remembered in localStorage by LocaleProvider
+export default function LocaleSwitch({ className = '' }: { className?: string }) {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <select
+      value={locale}
+      onChange={e => setLocale(e.target.value as Locale)}
+      aria-label={t('locale.label')}
+      className={`bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200 ${className}`}
+    >
+      {LOCALES.map(l => (
+        <option key={l.id} value={l.id}>{l.label}</option>
+      ))}
+    </select>
+  );
+}
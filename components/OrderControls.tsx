@@ -0,0 +1,97 @@
+import useSWR from 'swr';
+import { useState } from 'react';
+import { isExecutableAction, type Recommendation } from '@/lib/recommendation';
+import type { AuditEntry, ExecutionResult } from '@/lib/execution/executor';
+import { actionLabel } from '@/lib/recommendationText';
+import { useI18n } from '@/lib/i18n/react';
+import { postWithToken } from '@/lib/execution/clientToken';
+
+type Props = {
+  contract: string;
+  signalTime: number | null; // Bar of the recommendation shown
+  recommendation: Recommendation;
+};
+
+type ExecutionState = { enabled: boolean; dry_run: boolean; armed_until: number | null; audit: AuditEntry[] };
+
+const fetcher = (url: string): Promise<ExecutionState> => fetch(url).then(res => {
+  if (!res.ok) throw new Error(`HTTP error! status: ${res.status}`);
+  return res.json();
+});
+
+// Arm / confirm / cancel controls for executing the recommendation (see /api/execute)
+export default function OrderControls({ contract, signalTime, recommendation }: Props) {
+  const { locale, t, dt } = useI18n();
+  const { data: state, mutate } = useSWR<ExecutionState>(`/api/execute?contract=${contract}`, fetcher, { refreshInterval: 30000 });
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  if (!state) return null;
+  if (!state.enabled) return <div className="mt-3 text-xs text-gray-500 dark:text-gray-400">{t('exec.disabled')}</div>;
+
+  const armed = state.armed_until !== null && state.armed_until > Date.now();
+  const executable = isExecutableAction(recommendation.action) && signalTime !== null;
+
+  const run = async (body: Record<string, unknown>, describe: (data: any) => string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      setMessage(describe(await postWithToken('/api/execute', { contract, ...body }, t('exec.tokenPrompt'))));
+    } catch (err: any) {
+      setMessage(t('exec.failed', { message: err.message }));
+    } finally {
+      setBusy(false);
+      mutate();
+    }
+  };
+
+  const handleConfirm = () => {
+    const action = actionLabel(locale, recommendation.action);
+    const size = recommendation.trade_plan?.sizing?.contracts;
+    const prompt = t(state.dry_run ? 'exec.confirmDryRun' : 'exec.confirmLive', { action, contract, size: size ?? '-' });
+    if (!window.confirm(prompt)) return;
+    run({ op: 'place', signal_time: signalTime, action: recommendation.action }, (result: ExecutionResult) =>
+      t(`exec.status.${result.status}`, { key: result.idempotency_key }));
+  };
+
+  return (
+    <div className="mt-3 pt-2 border-t border-gray-200 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-200 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`px-1 rounded text-xs ${state.dry_run ? 'bg-blue-900/50 text-blue-300' : 'bg-red-900/50 text-red-300'}`}>
+          {state.dry_run ? t('exec.mode.dryRun') : t('exec.mode.live')}
+        </span>
+        {armed ? (
+          <>
+            <span className="text-xs text-yellow-600 dark:text-yellow-400">{t('exec.armedUntil', { time: dt(state.armed_until, { hour: '2-digit', minute: '2-digit' }) })}</span>
+            <button disabled={busy} onClick={() => run({ op: 'disarm' }, () => t('exec.disarmed'))}
+              className="text-xs px-2 py-1 rounded border border-gray-500 hover:bg-gray-700 disabled:opacity-50">{t('exec.disarm')}</button>
+          </>
+        ) : (
+          <button disabled={busy} onClick={() => run({ op: 'arm' }, () => t('exec.armed'))}
+            className="text-xs px-2 py-1 rounded border border-yellow-600 text-yellow-600 dark:text-yellow-400 hover:bg-gray-700 disabled:opacity-50">{t('exec.arm')}</button>
+        )}
+        {armed && executable && (
+          <button disabled={busy} onClick={handleConfirm}
+            className="text-xs px-3 py-1 rounded bg-blue-600 text-white font-semibold hover:bg-blue-500 disabled:opacity-50">
+            {t('exec.confirm')}
+          </button>
+        )}
+        {armed && (
+          <button disabled={busy} onClick={() => run({ op: 'cancel' }, data => (data.dry_run ? t('exec.cancelDryRun') : t('exec.cancelled')))}
+            className="text-xs px-2 py-1 rounded border border-gray-500 hover:bg-gray-700 disabled:opacity-50">{t('exec.cancelTriggers')}</button>
+        )}
+      </div>
+      {message && <div className="text-xs">{message}</div>}
+      {/* Latest audit entries */}
+      {state.audit.length > 0 && (
+        <ul className="text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+          {state.audit.slice(0, 5).map(entry => (
+            <li key={`${entry.time}-${entry.op}-${entry.role ?? ''}`}>
+              {dt(entry.time)} {entry.op}{entry.role ? `/${entry.role}` : ''}: {entry.status}{entry.error ? ` (${entry.error})` : ''}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
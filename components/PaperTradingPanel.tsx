@@ -0,0 +1,136 @@
+import useSWR from 'swr';
+import { useState } from 'react';
+import { paperEquity, paperUnrealisedPnl, type PaperAccount, type PaperTrade } from '@/lib/paperTrading';
+import { useI18n } from '@/lib/i18n/react';
+import { requestWithToken } from '@/lib/execution/clientToken';
+
+type Props = {
+  contract: string;
+  price: number | null; // Latest price, to mark the virtual position
+  account: PaperAccount | null; // From /api/signal, updated every bar
+};
+
+type PaperState = { account: PaperAccount; trades: PaperTrade[] };
+
+const fetcher = (url: string): Promise<PaperState> => fetch(url).then(res => {
+  if (!res.ok) throw new Error(`HTTP error! status: ${res.status}`);
+  return res.json();
+});
+
+const pnlColor = (value: number) => (value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-gray-300');
+
+// Virtual account, open position and trade log of paper-trading mode
+export default function PaperTradingPanel({ contract, price, account: signalAccount }: Props) {
+  const { t, n, dt } = useI18n();
+  const [resetting, setResetting] = useState(false);
+  const [resetError, setResetError] = useState<string | null>(null);
+  // The trade count is part of the key so the log refetches after each virtual close
+  const { data, error, mutate } = useSWR<PaperState>(
+    `/api/paper?contract=${contract}&trades=${signalAccount?.trades ?? 0}`,
+    fetcher
+  );
+  // Whichever is newer: the signal's copy, or this endpoint's after a reset
+  const account = [signalAccount, data?.account]
+    .filter((a): a is PaperAccount => !!a)
+    .sort((a, b) => b.updated_at - a.updated_at)[0] ?? null;
+
+  const handleReset = async () => {
+    if (!window.confirm(t('paper.resetConfirm', { contract }))) return;
+    setResetting(true);
+    setResetError(null);
+    try {
+      await requestWithToken('DELETE', `/api/paper?contract=${contract}`, null, t('exec.tokenPrompt'));
+      await mutate();
+    } catch (err: any) {
+      setResetError(t('paper.resetFailed', { message: err.message }));
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  if (!account) {
+    return <div className="p-4 text-center text-gray-400">{error ? t('paper.loadError', { message: error.message }) : t('common.loading')}</div>;
+  }
+
+  const position = account.position;
+  const unrealised = position && price ? paperUnrealisedPnl(position, price) : 0;
+  const equity = paperEquity(account, price);
+  const returnPct = account.initial_equity > 0 ? ((equity - account.initial_equity) / account.initial_equity) * 100 : 0;
+  const trades = data?.trades ?? [];
+
+  return (
+    <div className="p-4 rounded border bg-gray-800 border-purple-700 shadow max-w-3xl mx-auto mt-6 space-y-3 text-gray-100">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-purple-300">🧪 {t('paper.title')}</h2>
+        <button
+          onClick={handleReset}
+          disabled={resetting}
+          className="text-xs px-2 py-1 rounded border border-gray-600 text-gray-300 hover:bg-gray-700 disabled:opacity-50"
+        >
+          {t('paper.reset')}
+        </button>
+      </div>
+      {resetError && <div className="text-xs text-red-400">{resetError}</div>}
+
+      {/* Account summary */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+        <div>{t('paper.equity')}: <span className="font-medium">{n(equity)}</span></div>
+        <div>{t('paper.balance')}: {n(account.balance)}</div>
+        <div>{t('paper.return')}: <span className={pnlColor(returnPct)}>{n(returnPct)}%</span></div>
+        <div>{t('paper.realized')}: <span className={pnlColor(account.realized_pnl)}>{n(account.realized_pnl)}</span></div>
+        <div className="col-span-2">{t('paper.winRate', { wins: account.wins, trades: account.trades })}</div>
+      </div>
+
+      {/* Virtual position */}
+      <div className="text-sm border-t border-gray-700 pt-2">
+        {t('paper.position')}:{' '}
+        {position ? (
+          <>
+            <span className={position.side === 'long' ? 'text-green-400' : 'text-red-400'}>
+              {t('paper.positionDetail', { side: { key: `side.${position.side}` }, contracts: position.contracts, price: n(position.entry_price) })}
+            </span>
+            <span className="ml-2 text-xs text-gray-400">{t('paper.openedAt', { time: dt(position.entry_time) })}</span>
+            <span className="ml-3">{t('paper.unrealized')}: <span className={pnlColor(unrealised)}>{n(unrealised)}</span></span>
+          </>
+        ) : (
+          <span className="text-gray-400">{t('position.flat')}</span>
+        )}
+      </div>
+
+      {/* Trade log */}
+      <div className="border-t border-gray-700 pt-2">
+        <div className="text-sm font-semibold mb-1">{t('paper.trades')}</div>
+        {trades.length === 0 ? (
+          <div className="text-xs text-gray-400">{t('paper.noTrades')}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead className="text-gray-400">
+                <tr>
+                  <th className="text-left pr-3">{t('paper.col.side')}</th>
+                  <th className="text-left pr-3">{t('paper.col.entry')}</th>
+                  <th className="text-left pr-3">{t('paper.col.exit')}</th>
+                  <th className="text-right pr-3">{t('paper.col.contracts')}</th>
+                  <th className="text-right pr-3">{t('paper.col.pnl')}</th>
+                  <th className="text-left">{t('paper.col.exitAction')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trades.map(trade => (
+                  <tr key={`${trade.entry_time}-${trade.exit_time}`} className="border-t border-gray-700">
+                    <td className={`pr-3 ${trade.side === 'long' ? 'text-green-400' : 'text-red-400'}`}>{t(`side.${trade.side}`)}</td>
+                    <td className="pr-3">{dt(trade.entry_time)} @ {n(trade.entry_price)}</td>
+                    <td className="pr-3">{dt(trade.exit_time)} @ {n(trade.exit_price)}</td>
+                    <td className="pr-3 text-right">{trade.contracts}</td>
+                    <td className={`pr-3 text-right ${pnlColor(trade.pnl)}`}>{n(trade.pnl)}</td>
+                    <td>{t(`action.${trade.exit_action}`)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
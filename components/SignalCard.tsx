@@ -1,13 +1,16 @@
 import React from 'react';
 import type { SignalProps, ScoreDetail } from '@/lib/types'; // Import ScoreDetail
+import { holdabilityMaxScore } from '@/lib/holdabilityScore';
+import { useI18n, type I18n } from '@/lib/i18n/react';
 
 // Helper to format score details - Use colors suitable for dark bg
-const renderScoreDetail = (detail: ScoreDetail) => {
+// Keyed details are translated; custom rules and older records show the stored text
+const renderScoreDetail = (t: I18n['t']) => (detail: ScoreDetail) => {
   const color = detail.met ? 'text-green-400' : 'text-red-400'; // Use lighter colors directly
   const symbol = detail.met ? '✓' : '✗';
   return (
-    <li key={detail.condition} className={`flex justify-between ${color}`}>
-      <span>{symbol} {detail.condition}</span>
+    <li key={detail.key ?? detail.condition} className={`flex justify-between ${color}`}>
+      <span>{symbol} {detail.key ? t(detail.key, detail.params, detail.condition) : detail.condition}</span>
       <span>({detail.met ? `+${detail.score}` : '+0'})</span>
     </li>
   );
@@ -18,12 +21,17 @@ export default function SignalCard(props: SignalProps) {
   const {
     time,
     price,
+    bar_state,
+    data_quality,
     opening_signal,
     holdability_score,
     holdability_details,
+    holdability_max_score,
     position,
+    trailing_stop,
     indicators_1m,
-    indicators_15m,
+    trend_filters,
+    vwap,
     market_context, // Add market context
     isLoading,
     error,
@@ -31,15 +39,18 @@ export default function SignalCard(props: SignalProps) {
     // recommendationReasons, // Removed as it's now part of recommendation object
   } = props;
 
-  const timeStr = time ? new Date(time).toLocaleString('zh-CN', { hour12: false }) : '--';
+  const { t, n, dt } = useI18n();
+  const timeStr = time ? dt(time) : '--';
+  const detailItem = renderScoreDetail(t);
+  const holdabilityMax = holdability_max_score ?? (holdability_details ? holdabilityMaxScore(holdability_details) : null);
 
   if (isLoading) {
     // Ensure loading text is visible in dark mode
-    return <div className="p-4 text-center text-gray-400">加载中...</div>;
+    return <div className="p-4 text-center text-gray-400">{t('common.loading')}</div>;
   }
 
   if (error) {
-    return <div className="p-4 text-center text-red-500">错误: {error.message || JSON.stringify(error)}</div>;
+    return <div className="p-4 text-center text-red-500">{t('common.error', { message: error.message || JSON.stringify(error) })}</div>;
   }
 
   // Log the received market_context prop for debugging in the browser console
@@ -50,6 +61,8 @@ export default function SignalCard(props: SignalProps) {
   const fngClassification = market_context?.fng_classification ?? 'N/A';
   const btcDailyTrend = market_context?.btc_daily_trend ?? 'N/A';
   const btcDailyEma50 = market_context?.btc_daily_ema50 ?? null;
+  const regime = market_context?.regime ?? null;
+  const regimeInputs = market_context?.regime_inputs ?? null;
 
 
   return (
@@ -59,88 +72,146 @@ export default function SignalCard(props: SignalProps) {
       <div className="border-b pb-3 border-gray-700 space-y-2">
          {/* Price & Time Row */}
          <div className="flex flex-col md:flex-row justify-between items-center gap-2">
-            <div className="text-sm text-gray-400">数据时间: {timeStr}</div>
+            <div className="text-sm text-gray-400">
+              {t('card.dataTime')}: {timeStr}
+              {bar_state && (
+                <span className={`ml-2 px-1 rounded text-xs ${bar_state.closed ? 'bg-green-900/50 text-green-300' : 'bg-yellow-900/50 text-yellow-300'}`}>
+                  {bar_state.closed ? t('card.barClosed') : t('card.barLive')}
+                </span>
+              )}
+            </div>
             <div className="text-xl font-semibold text-white">
-              当前价格: ${price?.toFixed(2) ?? '--'}
+              {bar_state?.mode === 'closed' ? t('card.closePrice') : t('card.currentPrice')}: ${n(price)}
+              {bar_state?.live_bar && (
+                <span className="ml-2 text-sm font-normal text-gray-400">({t('card.livePrice')}: ${n(bar_state.live_bar.close)})</span>
+              )}
             </div>
-            <div className={`text-sm ${indicators_15m?.ema15 && price && price > indicators_15m.ema15 ? 'text-green-400' : 'text-red-400'}`}>
-              15m趋势: {opening_signal?.ema15m_trend ?? '--'} (EMA15: ${indicators_15m?.ema15?.toFixed(2) ?? '--'})
+            <div className={`text-sm ${opening_signal?.ema15m_trend === 'up' ? 'text-green-400' : opening_signal?.ema15m_trend === 'down' ? 'text-red-400' : 'text-gray-300'}`}>
+              {t('card.htfTrend')}: {opening_signal?.ema15m_trend ? t(`trend.${opening_signal.ema15m_trend}`) : '--'}
+              {trend_filters?.map(f => (
+                <span key={f.label} className="ml-1">({f.label}: ${n(f.value)})</span>
+              ))}
             </div>
          </div>
          {/* Market Context Row - Use extracted variables */}
          <div className="flex flex-col md:flex-row justify-between items-center gap-x-4 gap-y-1 text-xs text-gray-400">
              <div>
-                 恐慌贪婪指数: <span className="font-medium text-gray-200">{fngValue} ({fngClassification})</span>
+                 {t('card.fng')}: <span className="font-medium text-gray-200">{fngValue} ({fngClassification})</span>
              </div>
              <div>
-                 BTC日线趋势: <span className={`font-medium ${btcDailyTrend === 'up' ? 'text-green-400' : btcDailyTrend === 'down' ? 'text-red-400' : 'text-gray-200'}`}>
-                     {btcDailyTrend}
+                 {t('card.btcDailyTrend')}: <span className={`font-medium ${btcDailyTrend === 'up' ? 'text-green-400' : btcDailyTrend === 'down' ? 'text-red-400' : 'text-gray-200'}`}>
+                     {market_context?.btc_daily_trend ? t(`trend.${market_context.btc_daily_trend}`) : btcDailyTrend}
                  </span>
                  {btcDailyEma50 !== null && (
-                     <span className="text-gray-500"> (EMA50: {btcDailyEma50.toFixed(2)})</span>
+                     <span className="text-gray-500"> (EMA50: {n(btcDailyEma50)})</span>
                  )}
              </div>
+             {regime && (
+                 <div>
+                     {t('card.regime')}: <span className={`font-medium ${regime === 'trend_up' ? 'text-green-400' : regime === 'trend_down' ? 'text-red-400' : regime === 'shock' ? 'text-yellow-400' : 'text-gray-200'}`}>
+                         {t(`regime.${regime}`)}
+                     </span>
+                     {regimeInputs && (
+                         <span className="text-gray-500"> (ADX: {regimeInputs.adx?.toFixed(1) ?? '--'}, {t('card.atrRatio')}: {regimeInputs.atr_ratio?.toFixed(2) ?? '--'})</span>
+                     )}
+                 </div>
+             )}
          </div>
       </div>
 
+      {/* Data Quality Warning */}
+      {data_quality?.degraded && (
+        <div className="p-2 rounded bg-yellow-900/40 border border-yellow-700/50 text-xs text-yellow-300">
+          ⚠️ {t('card.dataQuality')}
+          {Object.entries(data_quality.series).filter(([, q]) => q.degraded).map(([name, q]) => (
+            <span key={name} className="ml-2">{t(q.filled_bars > 0 ? 'card.dataQuality.seriesFilled' : 'card.dataQuality.series', { name, missing: q.missing_bars, filled: q.filled_bars, invalid: q.invalid_rows })}</span>
+          ))}
+        </div>
+      )}
+
       {/* Recommendation (If still used) - Assuming it's handled by SignalDecision now */}
       {/* {recommendation && ( ... )} */}
 
       {/* Position Info & Holdability Score */}
       {position && (
         <div className="p-3 rounded bg-blue-900/30 border border-blue-800/50">
-          <div className="font-semibold mb-2 text-blue-300">当前持仓信息 & 扛单评分</div>
+          <div className="font-semibold mb-2 text-blue-300">{t('card.position')}</div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm mb-2 text-gray-300">
-            <div>方向: <span className={`font-bold ${position.side === 'long' ? 'text-green-400' : 'text-red-400'}`}>{position.side === 'long' ? '多头' : '空头'}</span></div>
-            <div>开仓价: ${position.entryPrice?.toFixed(2) ?? '--'}</div>
-            <div>强平价: ${position.liquidationPrice?.toFixed(2) ?? 'N/A'}</div>
+            <div>{t('card.side')}: <span className={`font-bold ${position.side === 'long' ? 'text-green-400' : 'text-red-400'}`}>{t(`side.${position.side}`)}</span></div>
+            <div>{t('card.entryPrice')}: ${n(position.entryPrice)}</div>
+            <div>{t('card.liquidationPrice')}: ${position.liquidationPrice != null ? n(position.liquidationPrice) : 'N/A'}</div>
+            {position.size != null && <div>{t('card.size', { size: position.size })}{position.leverage != null ? ` (${position.leverage ? `${position.leverage}x` : t('card.cross')})` : ''}</div>}
+            {position.markPrice != null && <div>{t('card.markPrice')}: ${n(position.markPrice)}</div>}
+            {position.unrealisedPnl != null && (
+              <div>{t('card.unrealisedPnl')}: <span className={position.unrealisedPnl >= 0 ? 'text-green-400' : 'text-red-400'}>{n(position.unrealisedPnl)}</span>
+                {position.fundingPnl != null && <span className="text-gray-500"> ({t('card.funding')} {n(position.fundingPnl)})</span>}
+              </div>
+            )}
+            {position.openTimeMs && <div>{t('card.holdTime', { minutes: Math.round((Date.now() - position.openTimeMs) / 60000) })}</div>}
+            {trailing_stop && (
+              <div>{t('trailing.label')}: <span className={trailing_stop.breached ? 'font-bold text-red-400' : 'text-yellow-400'}>${n(trailing_stop.level)}</span>
+                <span className="text-gray-500"> ({t(`trailing.mode.${trailing_stop.mode}`)}{trailing_stop.breached ? `, ${t('trailing.breached')}` : ''})</span>
+              </div>
+            )}
+            {trailing_stop && <div>{t('trailing.best')}: ${n(trailing_stop.best_price)}</div>}
           </div>
           <div className="flex items-center mb-1 text-gray-200">
-            <div className="font-semibold mr-2">扛单能力评分:</div>
-            <div className={`text-xl font-bold ${holdability_score === null ? 'text-gray-400' : holdability_score >= 6 ? 'text-green-400' : holdability_score >= 4 ? 'text-yellow-400' : 'text-red-400'}`}>
-              {holdability_score ?? 'N/A'} / 9
+            <div className="font-semibold mr-2">{t('card.holdability')}:</div>
+            <div className={`text-xl font-bold ${holdability_score === null || !holdabilityMax ? 'text-gray-400' : holdability_score / holdabilityMax >= 2 / 3 ? 'text-green-400' : holdability_score / holdabilityMax >= 4 / 9 ? 'text-yellow-400' : 'text-red-400'}`}>
+              {holdability_score ?? 'N/A'} / {holdabilityMax || '--'}
             </div>
           </div>
           <ul className="text-xs text-gray-400 space-y-1">
-            {holdability_details?.map(renderScoreDetail)}
+            {holdability_details?.map(detailItem)}
           </ul>
         </div>
       )}
 
       {/* Opening Signal Score */}
       <div className="p-3 rounded bg-gray-700/50">
-        <div className="font-semibold mb-2 text-gray-200">开仓信号评分 (Max: 10)</div>
+        <div className="font-semibold mb-2 text-gray-200">{t('card.openingScore', { max: opening_signal?.long_max_score === opening_signal?.short_max_score
+          ? opening_signal?.long_max_score ?? 10
+          : `${opening_signal?.long_max_score ?? '--'} / ${opening_signal?.short_max_score ?? '--'}` })}</div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {/* Long Score Details */}
           <div>
             <div className="flex items-center mb-1 text-gray-200">
-              <div className="font-semibold mr-2">📈 多头评分:</div>
+              <div className="font-semibold mr-2">📈 {t('card.longScore')}:</div>
               <div className={`text-lg font-bold ${opening_signal?.long_score === null ? 'text-gray-400' : opening_signal?.long_score >= 6 ? 'text-green-400' : opening_signal?.long_score >= 4 ? 'text-yellow-400' : 'text-red-400'}`}>
                  {opening_signal?.long_score ?? '--'}
               </div>
             </div>
             <ul className="text-xs text-gray-400 space-y-1">
-              {opening_signal?.long_details?.map(renderScoreDetail)}
+              {opening_signal?.long_details?.map(detailItem)}
             </ul>
           </div>
           {/* Short Score Details */}
           <div>
              <div className="flex items-center mb-1 text-gray-200">
-              <div className="font-semibold mr-2">📉 空头评分:</div>
+              <div className="font-semibold mr-2">📉 {t('card.shortScore')}:</div>
               <div className={`text-lg font-bold ${opening_signal?.short_score === null ? 'text-gray-400' : opening_signal?.short_score >= 6 ? 'text-red-400' : opening_signal?.short_score >= 4 ? 'text-yellow-400' : 'text-green-400'}`}>
                  {opening_signal?.short_score ?? '--'}
               </div>
             </div>
              <ul className="text-xs text-gray-400 space-y-1">
-              {opening_signal?.short_details?.map(renderScoreDetail)}
+              {opening_signal?.short_details?.map(detailItem)}
             </ul>
           </div>
         </div>
+        {opening_signal?.confirmation && (
+          <div className="mt-2 text-xs text-gray-400">
+            {t('card.confirmation', { window: opening_signal.confirmation.window_bars, confirm: opening_signal.confirmation.confirm_bars })}:
+            <span className={`ml-1 font-medium ${opening_signal.confirmation.active === 'long' ? 'text-green-400' : opening_signal.confirmation.active === 'short' ? 'text-red-400' : 'text-gray-200'}`}>
+              {t(opening_signal.confirmation.active ? `card.confirmed.${opening_signal.confirmation.active}` : 'card.confirmed.none')}
+            </span>
+            <span className="ml-2">{t('card.confirmationHits', { long: opening_signal.confirmation.hits.long, short: opening_signal.confirmation.hits.short, confirm: opening_signal.confirmation.confirm_bars })}</span>
+          </div>
+        )}
       </div>
 
       {/* Key Indicators Display */}
       <div className="p-3 rounded bg-gray-700/50 text-xs">
-         <div className="font-semibold mb-2 text-gray-200">关键指标 (1m)</div>
+         <div className="font-semibold mb-2 text-gray-200">{t('card.indicators')}</div>
          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-x-4 gap-y-1">
             {indicators_1m && Object.entries(indicators_1m).map(([key, value]) => (
                 <div key={key} className="flex justify-between">
@@ -151,6 +222,15 @@ export default function SignalCard(props: SignalProps) {
                 </div>
             ))}
          </div>
+         {vwap && vwap.value !== null && (
+           <div className="mt-2 text-gray-400">
+             {t(vwap.truncated ? 'card.vwapTruncated' : 'card.vwap', { anchor: { key: `vwap.anchor.${vwap.anchor}` }, time: dt(vwap.anchor_time) })}:
+             <span className="ml-1 font-medium text-gray-200">{vwap.value.toFixed(2)}</span>
+             <span className="ml-2">±1σ {vwap.lower1?.toFixed(2) ?? '--'} ~ {vwap.upper1?.toFixed(2) ?? '--'}</span>
+             <span className="ml-2">±2σ {vwap.lower2?.toFixed(2) ?? '--'} ~ {vwap.upper2?.toFixed(2) ?? '--'}</span>
+             <span className="ml-2">{t('card.vwapPosition')} {vwap.z !== null ? `${vwap.z >= 0 ? '+' : ''}${vwap.z.toFixed(2)}σ` : '--'}</span>
+           </div>
+         )}
       </div>
 
     </div>
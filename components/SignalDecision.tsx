@@ -4,11 +4,15 @@ import { useEffect, useState } from 'react';
 import type { PositionInfoFromAPI, ScoreDetail } from '@/lib/types';
 import {
     generateProfessionalRecommendation,
+    isStructuredRecommendation,
     type Recommendation, // Import Recommendation type
     type ActualPositionStatus, // Import ActualPositionStatus type
     type OpeningSignalSummary, // Import OpeningSignalSummary type
     type MarketContextSummary // Import MarketContextSummary type
 } from '@/lib/recommendation'; // Import from the new file
+import { actionLabel, levelLabel, formatReason } from '@/lib/recommendationText';
+import { useI18n } from '@/lib/i18n/react';
+import OrderControls from '@/components/OrderControls';
 
 // Update Props to accept all necessary data from the API response
 type Props = {
@@ -17,45 +21,92 @@ type Props = {
   holdability_details: ScoreDetail[] | null;
   position: PositionInfoFromAPI | null;
   market_context: MarketContextSummary | null;
+  recommendation?: Recommendation | null; // Server-side recommendation (computed with the active strategy config)
+  execution?: { contract: string; signalTime: number | null } | null; // Order controls for the server's recommendation
 };
 
 // Remove the old generateRecommendation function from this file
 
-export default function SignalDecision({ opening_signal, holdability_score, holdability_details, position, market_context }: Props) {
+export default function SignalDecision({ opening_signal, holdability_score, holdability_details, position, market_context, recommendation, execution }: Props) {
+  const { locale, t, tm, n } = useI18n();
   // Decision state remains
-  const [decision, setDecision] = useState<Recommendation>({ action: '加载中...', reasons: [] });
+  const [decision, setDecision] = useState<Recommendation | null>(null);
 
   // Determine actual position status from props
   const actualPositionStatus: ActualPositionStatus = position ? position.side : '空仓';
 
   useEffect(() => {
-    // Generate recommendation based on actual position status and all data
-    setDecision(generateProfessionalRecommendation(
+    // Prefer the server's recommendation; fall back to computing with default thresholds
+    setDecision(isStructuredRecommendation(recommendation) ? recommendation : generateProfessionalRecommendation(
         actualPositionStatus,
         opening_signal,
         holdability_score,
         holdability_details,
         market_context
     ));
-  }, [actualPositionStatus, opening_signal, holdability_score, holdability_details, market_context]); // Depend on all relevant data
+  }, [recommendation, actualPositionStatus, opening_signal, holdability_score, holdability_details, market_context]); // Depend on all relevant data
 
   // Map actual status for display
-  const displayStatus = actualPositionStatus === 'long' ? '持多' : actualPositionStatus === 'short' ? '持空' : '空仓';
+  const displayStatus = t(actualPositionStatus === '空仓' ? 'position.flat' : `position.${actualPositionStatus}`);
 
   return (
     <div className="text-gray-900 dark:text-gray-100">
       {/* Recommendation Box - No more manual selection */}
       <div className="p-4 border rounded bg-gray-50 dark:bg-gray-700 border-gray-200 dark:border-gray-600 my-6">
          <div className="flex justify-between items-center mb-2">
-             <h3 className="text-md font-semibold text-gray-800 dark:text-gray-100">✅ 建议操作</h3>
+             <h3 className="text-md font-semibold text-gray-800 dark:text-gray-100">✅ {t('decision.title')}</h3>
              <span className="text-sm font-medium text-gray-600 dark:text-gray-300">
-                 (基于实际持仓: <span className={`font-bold ${actualPositionStatus === 'long' ? 'text-green-500 dark:text-green-400' : actualPositionStatus === 'short' ? 'text-red-500 dark:text-red-400' : 'dark:text-gray-300'}`}>{displayStatus}</span>)
+                 ({t('decision.basedOn')}: <span className={`font-bold ${actualPositionStatus === 'long' ? 'text-green-500 dark:text-green-400' : actualPositionStatus === 'short' ? 'text-red-500 dark:text-red-400' : 'dark:text-gray-300'}`}>{displayStatus}</span>)
              </span>
          </div>
-        <p className="font-semibold text-blue-600 dark:text-blue-300">{decision.action}</p>
+        <p className="font-semibold text-blue-600 dark:text-blue-300">
+            {decision ? actionLabel(locale, decision.action) : t('common.loading')}
+            {decision && decision.action !== 'NO_DATA' && (
+              <span className={`ml-2 text-xs font-medium ${decision.level === 'Low' ? 'text-yellow-600 dark:text-yellow-400' : 'text-gray-500 dark:text-gray-400'}`}>({levelLabel(locale, decision.level)})</span>
+            )}
+        </p>
         <ul className="list-disc list-inside mt-1 text-sm text-gray-600 dark:text-gray-200 space-y-1"> {/* Added space-y-1 */}
-          {decision.reasons.map((r, i) => <li key={i}>{r}</li>)}
+          {decision?.reasons.map((r, i) => <li key={i}>{formatReason(locale, r)}</li>)}
         </ul>
+        {/* Trade Plan (when suggesting to open) */}
+        {decision?.trade_plan && (
+          <div className="mt-3 pt-2 border-t border-gray-200 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-200">
+            <div className="font-semibold mb-1">📋 {t('plan.title', { side: { key: `plan.side.${decision.trade_plan.side}` } })}</div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+              <div>{t('plan.entryZone')}: {decision.trade_plan.entry.low} ~ {decision.trade_plan.entry.high}</div>
+              <div>{t('plan.stop')}: <span className="text-red-500 dark:text-red-400 font-medium">{decision.trade_plan.stop}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400"> ({t(`plan.stopMode.${decision.trade_plan.stop_mode}`)}, {t('plan.risk', { pct: decision.trade_plan.risk_pct })})</span>
+              </div>
+              <div className="sm:col-span-2">{t('plan.targets')}: {decision.trade_plan.targets.map(target => (
+                <span key={target.r} className="mr-3 text-green-600 dark:text-green-400">TP{target.r}R {target.price}</span>
+              ))}</div>
+              <div>{t('plan.rewardRisk')}: 1 : {decision.trade_plan.reward_risk}</div>
+            </div>
+            {decision.trade_plan.sizing && (
+              <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+                <div>{t('sizing.contracts')}: <span className="font-medium">{t('sizing.contractsValue', { contracts: decision.trade_plan.sizing.contracts })}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400"> ({t(`sizing.limit.${decision.trade_plan.sizing.limited_by}`)})</span>
+                </div>
+                <div>{t('sizing.notional', { notional: decision.trade_plan.sizing.notional, currency: decision.trade_plan.sizing.currency, leverage: decision.trade_plan.sizing.leverage, margin: decision.trade_plan.sizing.margin })}</div>
+                <div>{t('sizing.lossAtStop', { loss: decision.trade_plan.sizing.loss_at_stop, pct: decision.trade_plan.sizing.risk_pct, amount: decision.trade_plan.sizing.risk_amount })}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {t('sizing.equity')}: {n(decision.trade_plan.sizing.equity)} {decision.trade_plan.sizing.currency} ({t(`sizing.source.${decision.trade_plan.sizing.equity_source}`)})
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+        {/* Trailing Stop (while holding) */}
+        {decision?.trailing_stop && (
+          <div className="mt-3 pt-2 border-t border-gray-200 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-200">
+            {t('trailing.label')}: <span className="font-medium text-yellow-600 dark:text-yellow-400">{decision.trailing_stop.level}</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400"> ({tm(decision.trailing_stop.basis)}, {t('trailing.distance', { atr: decision.trailing_stop.distance_atr })})</span>
+          </div>
+        )}
+        {/* Guarded execution of the server's recommendation */}
+        {execution && isStructuredRecommendation(recommendation) && (
+          <OrderControls contract={execution.contract} signalTime={execution.signalTime} recommendation={recommendation} />
+        )}
       </div>
     </div>
   );
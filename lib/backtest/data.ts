@@ -0,0 +1,33 @@
+import type { CandleData, GapPolicy } from '../types';
+import type { ExchangeAdapter } from '../exchange/types';
+import { validateCandles } from '../candleValidation';
+import type { BacktestData } from './types';
+
+// Full candle history from an adapter (normally the fixture adapter, so runs stay offline),
+// passed through the same validation and gap repair as the live route.
+async function loadSeries(adapter: ExchangeAdapter, contract: string, interval: string, policy: GapPolicy): Promise<CandleData[]> {
+    const raw = await adapter.getKlines(contract, interval, Infinity);
+    const { candles, quality } = validateCandles(raw, interval, policy);
+    if (quality.degraded) {
+        console.warn(`${contract} ${interval}: ${quality.missing_bars} missing bars, ${quality.invalid_rows} invalid rows (policy: ${policy})`);
+    }
+    return candles;
+}
+
+export async function loadBacktestData(
+    adapter: ExchangeAdapter,
+    contract: string,
+    reference: string,
+    policy: GapPolicy = 'fill'
+): Promise<BacktestData> {
+    const [candles1m, refCandles1m, btcCandles1d, contractInfo] = await Promise.all([
+        loadSeries(adapter, contract, '1m', policy),
+        loadSeries(adapter, reference, '1m', policy),
+        loadSeries(adapter, 'BTC_USDT', '1d', policy).catch(err => {
+            console.warn(`BTC daily candles unavailable, BTC trend disabled: ${err.message || err}`);
+            return [] as CandleData[];
+        }),
+        adapter.getContractInfo(contract).catch(() => null), // Sized in units of 1 without a contract spec
+    ]);
+    return { candles1m, refCandles1m, btcCandles1d, contractInfo };
+}
@@ -0,0 +1,327 @@
+import type { CandleData, PositionInfoFromAPI } from '../types';
+import type { ContractInfo } from '../exchange/types';
+import { baseAsset } from '../contracts';
+import { applyIndicators } from '../indicatorRegistry';
+import { intervalToMs } from '../interval';
+import { resampleCandles } from '../resample';
+import { confirmationThresholds, evaluateSignalSnapshot, InsufficientDataError, signalTimeframes, signalWindowBars } from '../signalPipeline';
+import { evaluateSignalState, type ScoredHistoryRecord } from '../confirmation';
+import { buildTradePlan } from '../tradePlan';
+import { trailingStopView, updateTrailingStop, type TrailingStopState } from '../trailingStop';
+import { sizePosition } from '../sizing';
+import { generateProfessionalRecommendation, type RecommendationAction } from '../recommendation';
+import { computeMetrics } from './metrics';
+import type { BacktestData, BacktestExitReason, BacktestOptions, BacktestResult, BacktestTrade, EquityPoint } from './types';
+
+// Bar-by-bar replay of the live pipeline on closed 1m bars. At each bar close the
+// signal is scored, confirmed against the previous bars and turned into a
+// recommendation; orders it implies fill at the next bar's open with slippage.
+// Stops are checked intrabar against the bar's high/low (stop first, no lookahead).
+// The 1m and higher-timeframe indicators are computed once over the whole series
+// (the incremental engine plus the configured studies) instead of per window, so each
+// bar only adds the anchored VWAP and regime on top. Long-memory values (EMA, Wilder smoothing,
+// cumulative VWAP) are therefore warmed up from the first bar of the file rather than
+// re-seeded at the window start as in /api/signal; they converge within a few periods.
+
+const BAR_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Used when no contract spec is available: 1 unit per contract, no size limits
+const FALLBACK_CONTRACT: ContractInfo = {
+    name: '',
+    quantoMultiplier: 1,
+    leverageMin: 1,
+    leverageMax: 100,
+    orderPriceRound: 0,
+    orderSizeMin: 1,
+    orderSizeMax: 0,
+    makerFeeRate: 0,
+    takerFeeRate: 0,
+    fundingRate: null,
+    markPrice: null,
+    lastPrice: null,
+};
+
+interface OpenPosition {
+    side: 'long' | 'short';
+    entryTime: number;
+    entryPrice: number;
+    entryIndex: number;
+    contracts: number;
+    initialStop: number;
+    stop: number;
+    entryFee: number;
+    openAction: RecommendationAction;
+}
+
+type PendingOrder =
+    | { kind: 'open'; side: 'long' | 'short'; contracts: number; stop: number; action: RecommendationAction }
+    | { kind: 'close'; action: RecommendationAction };
+
+// Index of the last element with timestamp <= time (candles sorted oldest first)
+function lastIndexAtOrBefore(candles: CandleData[], time: number): number {
+    let lo = 0;
+    let hi = candles.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (candles[mid].timestamp <= time) {
+            found = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return found;
+}
+
+export function runBacktest(data: BacktestData, options: BacktestOptions): BacktestResult {
+    const { contract, reference, config, initialEquity, feeRate, slippageBps, useStops = true } = options;
+    const { candles1m, refCandles1m, btcCandles1d } = data;
+    const contractInfo = data.contractInfo ?? FALLBACK_CONTRACT;
+    const multiplier = contractInfo.quantoMultiplier || 1;
+    const slippage = slippageBps / 10000;
+    const assets = { base: baseAsset(contract), reference: baseAsset(reference) };
+    const leverage = config.sizing.leverage;
+    const historyBars = Math.max(config.confirmation.windowBars, config.confirmation.cooldownBars) + 1;
+    const btcDays = Math.max(60, config.trend.btcDailyEmaPeriod + 10);
+
+    // Indicator values at bar i only depend on bars <= i, so one pass serves every window
+    const enrichedAll = applyIndicators(candles1m, { ...config.indicators }, config.studies);
+    const timeframesAll = signalTimeframes(config).filter(tf => tf !== '1m').map(tf => ({
+        tf,
+        ms: intervalToMs(tf),
+        candles: applyIndicators(resampleCandles(candles1m, tf), { ...config.indicators }, config.timeframes.studies[tf] ?? []),
+    }));
+
+    const trades: BacktestTrade[] = [];
+    const equityCurve: EquityPoint[] = [];
+    let history: ScoredHistoryRecord[] = [];
+    let balance = initialEquity;
+    let position: OpenPosition | null = null;
+    let pending: PendingOrder | null = null;
+    let trailing: TrailingStopState | null = null; // Trailing stop of the open position, as /api/signal keeps it
+    let barsInMarket = 0;
+
+    const fillPrice = (price: number, buy: boolean) => price * (buy ? 1 + slippage : 1 - slippage);
+    const fee = (price: number, contracts: number) => price * contracts * multiplier * feeRate;
+    const direction = (side: 'long' | 'short') => (side === 'long' ? 1 : -1);
+    const openPnl = (pos: OpenPosition, price: number) => (price - pos.entryPrice) * pos.contracts * multiplier * direction(pos.side);
+
+    const closePosition = (
+        price: number,
+        time: number,
+        index: number,
+        reason: BacktestExitReason,
+        action: RecommendationAction | null
+    ) => {
+        const pos = position!;
+        const exitFee = fee(price, pos.contracts);
+        const pnl = openPnl(pos, price) - pos.entryFee - exitFee;
+        const plannedRisk = Math.abs(pos.entryPrice - pos.initialStop) * pos.contracts * multiplier;
+        balance += openPnl(pos, price) - exitFee; // Entry fee was charged at the fill
+        trades.push({
+            side: pos.side,
+            entry_time: pos.entryTime,
+            entry_price: pos.entryPrice,
+            exit_time: time,
+            exit_price: price,
+            contracts: pos.contracts,
+            stop: pos.initialStop,
+            open_action: pos.openAction,
+            exit_reason: reason,
+            exit_action: action,
+            fees: pos.entryFee + exitFee,
+            pnl,
+            r_multiple: plannedRisk > 0 ? Math.round((pnl / plannedRisk) * 100) / 100 : null,
+            bars_held: index - pos.entryIndex,
+        });
+        position = null;
+    };
+
+    // Approximate isolated-margin liquidation (maintenance margin ignored) for the holdability check
+    const positionInfo = (pos: OpenPosition, price: number): PositionInfoFromAPI => ({
+        side: pos.side,
+        entryPrice: pos.entryPrice,
+        liquidationPrice: pos.entryPrice * (1 - direction(pos.side) / leverage),
+        openTimeMs: pos.entryTime,
+        size: pos.contracts,
+        leverage,
+        margin: (pos.entryPrice * pos.contracts * multiplier) / leverage,
+        value: price * pos.contracts * multiplier,
+        markPrice: price,
+        unrealisedPnl: openPnl(pos, price),
+        fundingPnl: null, // Funding is not simulated
+    });
+
+    const fromTime = options.from ?? -Infinity;
+    const toTime = options.to ?? Infinity;
+    const firstIndex = Math.max(1, candles1m.findIndex(c => c.timestamp >= fromTime));
+    let lastIndex = -1;
+
+    for (let i = firstIndex; i < candles1m.length && candles1m[i].timestamp <= toTime; i++) {
+        const bar = candles1m[i];
+        lastIndex = i;
+
+        // --- Fill the order decided at the previous close, at this bar's open ---
+        if (pending?.kind === 'open' && !position) {
+            const price = fillPrice(bar.open, pending.side === 'long');
+            const entryFee = fee(price, pending.contracts);
+            balance -= entryFee;
+            position = {
+                side: pending.side,
+                entryTime: bar.timestamp,
+                entryPrice: price,
+                entryIndex: i,
+                contracts: pending.contracts,
+                initialStop: pending.stop,
+                stop: pending.stop,
+                entryFee,
+                openAction: pending.action,
+            };
+        } else if (pending?.kind === 'close' && position) {
+            closePosition(fillPrice(bar.open, position.side === 'short'), bar.timestamp, i, 'signal', pending.action);
+        }
+        pending = null;
+
+        // --- Intrabar stop (gaps through the stop fill at the open) ---
+        if (position && useStops) {
+            const hit = position.side === 'long' ? bar.low <= position.stop : bar.high >= position.stop;
+            if (hit) {
+                const trigger = position.side === 'long' ? Math.min(bar.open, position.stop) : Math.max(bar.open, position.stop);
+                closePosition(fillPrice(trigger, position.side === 'short'), bar.timestamp, i, 'stop', null);
+            }
+        }
+
+        // --- Evaluate the closed bar ---
+        const now = bar.timestamp + BAR_MS;
+        const window = options.windowBars ?? signalWindowBars(config, now, position?.entryTime ?? null);
+        const windowStart = Math.max(0, i + 1 - window);
+        const candles = candles1m.slice(windowStart, i + 1);
+        // Buckets that start inside the window and have closed by now, as resampling the window would give
+        const enrichedTimeframes = Object.fromEntries(timeframesAll.map(({ tf, ms, candles: series }) => [
+            tf,
+            series.slice(lastIndexAtOrBefore(series, candles1m[windowStart].timestamp - 1) + 1, lastIndexAtOrBefore(series, now - ms) + 1),
+        ]));
+        const refEnd = lastIndexAtOrBefore(refCandles1m, bar.timestamp);
+        const btcEnd = lastIndexAtOrBefore(btcCandles1d, now - DAY_MS); // Daily bars closed by now
+        const holding = position ? positionInfo(position, bar.close) : null;
+
+        let snapshot: ReturnType<typeof evaluateSignalSnapshot> | null = null;
+        try {
+            snapshot = evaluateSignalSnapshot({
+                candles1m: candles,
+                enriched1m: enrichedAll.slice(windowStart, i + 1),
+                enrichedTimeframes,
+                refCandles1m: refCandles1m.slice(Math.max(0, refEnd - 1), refEnd + 1),
+                btcCandles1d: btcCandles1d.slice(Math.max(0, btcEnd + 1 - btcDays), btcEnd + 1),
+                position: holding,
+                assets,
+                config,
+                barMode: 'closed',
+                now,
+            });
+        } catch (err) {
+            if (!(err instanceof InsufficientDataError)) throw err;
+            snapshot = null; // Not enough history yet (warm-up or missing reference bars)
+        }
+
+        if (snapshot) {
+            const { longSignal, shortSignal, btcDailyTrend, btcEma, regime, htfTrend, holdability, enriched1m } = snapshot;
+            history = history.filter(h => h.time >= bar.timestamp - historyBars * BAR_MS);
+            const signalState = evaluateSignalState(
+                { time: bar.timestamp, long_score: longSignal.score, short_score: shortSignal.score },
+                history,
+                confirmationThresholds(config, btcDailyTrend),
+                config.confirmation
+            );
+            history.push({ time: bar.timestamp, long_score: longSignal.score, short_score: shortSignal.score, signal_state: signalState });
+
+            trailing = holding && position
+                ? updateTrailingStop(trailing, holding, enriched1m, config.tradePlan, position.initialStop, { contract, source: 'paper' })
+                : null;
+            const equity = { equity: balance, source: 'manual' as const, currency: 'USDT' };
+            const planFor = (side: 'long' | 'short') => {
+                const plan = buildTradePlan(enriched1m, side, config.tradePlan);
+                if (plan) plan.sizing = sizePosition(plan, contractInfo, equity, config.sizing);
+                return plan;
+            };
+            const recommendation = generateProfessionalRecommendation(
+                holding ? holding.side : '空仓',
+                {
+                    long_score: longSignal.score,
+                    long_reasons: longSignal.reasons,
+                    long_signalTypes: longSignal.types,
+                    long_details: longSignal.details,
+                    short_score: shortSignal.score,
+                    short_reasons: shortSignal.reasons,
+                    short_signalTypes: shortSignal.types,
+                    short_details: shortSignal.details,
+                    ema15m_trend: htfTrend,
+                    low_confidence: false,
+                    confirmation: signalState,
+                },
+                holding ? holdability.score : null,
+                holding ? holdability.details : null,
+                {
+                    fng_value: null, // No sentiment history offline
+                    fng_classification: null,
+                    btc_daily_trend: btcDailyTrend,
+                    btc_daily_ema50: btcEma,
+                    regime: regime.regime,
+                },
+                config.recommendation,
+                {
+                    long: planFor('long'),
+                    short: planFor('short'),
+                    trailing: trailing ? trailingStopView(trailing, enriched1m[enriched1m.length - 1], config.tradePlan) : null,
+                }
+            );
+
+            const { action, trade_plan, trailing_stop } = recommendation;
+            if (!position && (action === 'OPEN_LONG' || action === 'OPEN_SHORT') && trade_plan?.sizing?.contracts) {
+                pending = { kind: 'open', side: trade_plan.side, contracts: trade_plan.sizing.contracts, stop: trade_plan.stop, action };
+            } else if (position && recommendation.side === position.side && action.startsWith('CLOSE_')) {
+                pending = { kind: 'close', action };
+            }
+            // The trailing stop only ever tightens
+            if (position && trailing_stop) {
+                position.stop = position.side === 'long'
+                    ? Math.max(position.stop, trailing_stop.level)
+                    : Math.min(position.stop, trailing_stop.level);
+            }
+        }
+
+        if (position) barsInMarket++;
+        equityCurve.push({ time: now, equity: Math.round((balance + (position ? openPnl(position, bar.close) : 0)) * 100) / 100 });
+    }
+
+    // Close whatever is still open at the last close
+    const lastBar = candles1m[lastIndex];
+    if (position && lastBar) {
+        closePosition(fillPrice(lastBar.close, position.side === 'short'), lastBar.timestamp + BAR_MS, lastIndex, 'end', null);
+        equityCurve[equityCurve.length - 1] = { time: lastBar.timestamp + BAR_MS, equity: Math.round(balance * 100) / 100 };
+    }
+
+    const roundedTrades = trades.map(t => ({
+        ...t,
+        entry_price: Math.round(t.entry_price * 100) / 100,
+        exit_price: Math.round(t.exit_price * 100) / 100,
+        fees: Math.round(t.fees * 100) / 100,
+        pnl: Math.round(t.pnl * 100) / 100,
+    }));
+    const { config: _config, ...reportedOptions } = options;
+
+    return {
+        contract,
+        reference,
+        config_version: config.version,
+        from: equityCurve.length > 0 ? equityCurve[0].time - BAR_MS : null,
+        to: lastBar ? lastBar.timestamp : null,
+        bars: equityCurve.length,
+        options: reportedOptions,
+        trades: roundedTrades,
+        equity_curve: equityCurve,
+        metrics: computeMetrics(trades, equityCurve, initialEquity, BAR_MS, barsInMarket),
+    };
+}
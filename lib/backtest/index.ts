@@ -0,0 +1,33 @@
+export { runBacktest } from './engine';
+export { loadBacktestData } from './data';
+export { computeMetrics, maxDrawdown, sharpeRatio } from './metrics';
+export type {
+    BacktestData,
+    BacktestExitReason,
+    BacktestMetrics,
+    BacktestOptions,
+    BacktestResult,
+    BacktestTrade,
+    EquityPoint,
+} from './types';
+export {
+    SWEEP_OBJECTIVES,
+    applyParameters,
+    expandGrid,
+    objectiveScore,
+    runWalkForward,
+    walkForwardFolds,
+} from './walkForward';
+export type {
+    OverfitWarning,
+    OverfitWarningCode,
+    ParameterGrid,
+    ParameterRanking,
+    ParameterSet,
+    StabilityHeatmap,
+    SweepObjective,
+    SweepRun,
+    WalkForwardFold,
+    WalkForwardOptions,
+    WalkForwardResult,
+} from './walkForward';
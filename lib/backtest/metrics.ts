@@ -0,0 +1,75 @@
+import type { BacktestMetrics, BacktestTrade, EquityPoint } from './types';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+const round = (value: number, digits = 2) => {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+};
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+// Largest peak-to-trough decline of the curve, absolute and relative to the peak
+export function maxDrawdown(curve: EquityPoint[]): { amount: number; pct: number } {
+    let peak = -Infinity;
+    let amount = 0;
+    let pct = 0;
+    curve.forEach(({ equity }) => {
+        peak = Math.max(peak, equity);
+        const drawdown = peak - equity;
+        if (drawdown > amount) amount = drawdown;
+        if (peak > 0) pct = Math.max(pct, drawdown / peak);
+    });
+    return { amount, pct: pct * 100 };
+}
+
+// Mean over standard deviation of per-bar returns, scaled by sqrt(bars per year)
+export function sharpeRatio(curve: EquityPoint[], barMs: number): number | null {
+    const returns: number[] = [];
+    for (let i = 1; i < curve.length; i++) {
+        if (curve[i - 1].equity > 0) returns.push(curve[i].equity / curve[i - 1].equity - 1);
+    }
+    if (returns.length < 2) return null;
+    const mean = sum(returns) / returns.length;
+    const variance = sum(returns.map(r => (r - mean) ** 2)) / (returns.length - 1);
+    if (variance === 0) return null;
+    return (mean / Math.sqrt(variance)) * Math.sqrt(YEAR_MS / barMs);
+}
+
+export function computeMetrics(
+    trades: BacktestTrade[],
+    curve: EquityPoint[],
+    initialEquity: number,
+    barMs: number,
+    barsInMarket: number
+): BacktestMetrics {
+    const wins = trades.filter(t => t.pnl > 0);
+    const losses = trades.filter(t => t.pnl <= 0);
+    const grossProfit = sum(wins.map(t => t.pnl));
+    const grossLoss = -sum(losses.map(t => t.pnl));
+    const netPnl = sum(trades.map(t => t.pnl));
+    const rMultiples = trades.map(t => t.r_multiple).filter((r): r is number => r !== null);
+    const drawdown = maxDrawdown(curve);
+    const sharpe = sharpeRatio(curve, barMs);
+
+    return {
+        trades: trades.length,
+        wins: wins.length,
+        losses: losses.length,
+        win_rate: trades.length > 0 ? round(wins.length / trades.length, 4) : 0,
+        net_pnl: round(netPnl),
+        return_pct: initialEquity > 0 ? round((netPnl / initialEquity) * 100) : 0,
+        gross_profit: round(grossProfit),
+        gross_loss: round(grossLoss),
+        profit_factor: grossLoss > 0 ? round(grossProfit / grossLoss) : null,
+        avg_win: wins.length > 0 ? round(grossProfit / wins.length) : 0,
+        avg_loss: losses.length > 0 ? round(-grossLoss / losses.length) : 0,
+        expectancy: trades.length > 0 ? round(netPnl / trades.length) : 0,
+        expectancy_r: rMultiples.length > 0 ? round(sum(rMultiples) / rMultiples.length) : null,
+        max_drawdown: round(drawdown.amount),
+        max_drawdown_pct: round(drawdown.pct),
+        sharpe: sharpe !== null ? round(sharpe) : null,
+        fees: round(sum(trades.map(t => t.fees))),
+        exposure_pct: curve.length > 0 ? round((barsInMarket / curve.length) * 100) : 0,
+    };
+}
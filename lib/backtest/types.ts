@@ -0,0 +1,84 @@
+import type { CandleData } from '../types';
+import type { StrategyConfig } from '../strategyConfig';
+import type { ContractInfo } from '../exchange/types';
+import type { RecommendationAction } from '../recommendation';
+
+// Historical series replayed by the backtester (oldest first, ms timestamps).
+// Higher timeframes (15m, 1h, ...) are resampled from candles1m exactly like /api/signal.
+export interface BacktestData {
+    candles1m: CandleData[];
+    refCandles1m: CandleData[];
+    btcCandles1d: CandleData[];
+    contractInfo: ContractInfo | null; // Contract size and limits for sizing; null = 1 unit per contract
+}
+
+export interface BacktestOptions {
+    contract: string;
+    reference: string;
+    config: StrategyConfig;
+    initialEquity: number; // Quote currency
+    feeRate: number; // Fraction of notional charged on every fill (e.g. 0.0005 = 5 bps taker)
+    slippageBps: number; // Adverse price move applied to every fill, in basis points
+    from?: number | null; // First bar to evaluate (ms); earlier bars only warm up indicators
+    to?: number | null; // Last bar to evaluate (ms)
+    windowBars?: number | null; // 1m bars per evaluation; default follows the live window (signalWindowBars)
+    useStops?: boolean; // Exit intrabar at the plan stop, ratcheted by the trailing stop (default true)
+}
+
+export type BacktestExitReason = 'signal' | 'stop' | 'end';
+
+export interface BacktestTrade {
+    side: 'long' | 'short';
+    entry_time: number; // Fill time (bar open, ms)
+    entry_price: number; // After slippage
+    exit_time: number;
+    exit_price: number;
+    contracts: number;
+    stop: number; // Initial stop from the trade plan
+    open_action: RecommendationAction;
+    exit_reason: BacktestExitReason;
+    exit_action: RecommendationAction | null; // Recommendation that triggered a 'signal' exit
+    fees: number;
+    pnl: number; // Net of fees
+    r_multiple: number | null; // pnl / planned risk at the initial stop
+    bars_held: number;
+}
+
+export interface EquityPoint {
+    time: number; // Bar close (ms)
+    equity: number; // Realised balance plus open PnL at the close
+}
+
+export interface BacktestMetrics {
+    trades: number;
+    wins: number;
+    losses: number;
+    win_rate: number; // 0-1
+    net_pnl: number;
+    return_pct: number;
+    gross_profit: number;
+    gross_loss: number;
+    profit_factor: number | null; // null when there are no losing trades
+    avg_win: number;
+    avg_loss: number;
+    expectancy: number; // Average net PnL per trade
+    expectancy_r: number | null; // Average R multiple per trade
+    max_drawdown: number; // Peak-to-trough equity decline, quote currency
+    max_drawdown_pct: number;
+    sharpe: number | null; // Annualised from per-bar equity returns (no risk-free rate)
+    fees: number;
+    exposure_pct: number; // Share of bars with an open position
+}
+
+export interface BacktestResult {
+    contract: string;
+    reference: string;
+    config_version: string;
+    from: number | null; // First evaluated bar
+    to: number | null; // Last evaluated bar
+    bars: number; // Bars evaluated
+    options: Omit<BacktestOptions, 'config'>;
+    trades: BacktestTrade[];
+    equity_curve: EquityPoint[];
+    metrics: BacktestMetrics;
+}
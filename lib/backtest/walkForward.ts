@@ -0,0 +1,340 @@
+import { mergeStrategyConfig, type StrategyConfig, type StrategyConfigOverrides } from '../strategyConfig';
+import { runBacktest } from './engine';
+import type { BacktestData, BacktestMetrics, BacktestOptions } from './types';
+
+// Parameter sweep with walk-forward validation. The evaluated period is split into
+// rolling folds: every grid point is backtested on the fold's in-sample window, the
+// best one by the objective is then run on the following out-of-sample window.
+// Out-of-sample results, the stability of the winners across folds and of the scores
+// around them in the grid are what tell a real edge from a fitted one.
+
+export type ParameterGrid = Record<string, number[]>; // Dotted config path -> values, e.g. 'indicators.bbPeriod'
+export type ParameterSet = Record<string, number>;
+
+export type SweepObjective =
+    | 'net_pnl'
+    | 'return_pct'
+    | 'sharpe'
+    | 'expectancy'
+    | 'expectancy_r'
+    | 'profit_factor'
+    | 'return_over_drawdown';
+
+export const SWEEP_OBJECTIVES: SweepObjective[] = [
+    'net_pnl', 'return_pct', 'sharpe', 'expectancy', 'expectancy_r', 'profit_factor', 'return_over_drawdown',
+];
+
+export interface WalkForwardOptions {
+    grid: ParameterGrid;
+    objective: SweepObjective;
+    folds: number;
+    inSampleRatio: number; // Share of the period in each in-sample window (0-1)
+    minTrades: number; // In-sample runs with fewer trades are not ranked
+    heatmap?: [string, string] | null; // Grid parameters for the stability heatmap (default: first two that vary)
+    onProgress?: (done: number, total: number) => void;
+}
+
+export interface TimeRange {
+    from: number;
+    to: number;
+}
+
+export interface SweepRun {
+    params: ParameterSet;
+    score: number | null; // null = unrankable (too few trades or undefined objective)
+    metrics: BacktestMetrics;
+}
+
+export interface WalkForwardFold {
+    index: number;
+    in_sample: TimeRange;
+    out_of_sample: TimeRange;
+    best: ParameterSet | null; // null when no in-sample run could be ranked
+    in_sample_score: number | null;
+    out_of_sample_score: number | null;
+    out_of_sample_metrics: BacktestMetrics | null;
+    runs: SweepRun[]; // In-sample, best first
+}
+
+export interface ParameterRanking {
+    params: ParameterSet;
+    mean_score: number | null; // In-sample objective averaged over the folds where it was ranked
+    folds_ranked: number;
+    times_best: number;
+    mean_trades: number;
+}
+
+export interface StabilityHeatmap {
+    x: { param: string; values: number[] };
+    y: { param: string; values: number[] } | null; // null when only one parameter varies
+    cells: (number | null)[][]; // [y][x]: best mean in-sample score over the other parameters
+}
+
+export type OverfitWarningCode = 'OOS_DEGRADATION' | 'NEGATIVE_OOS' | 'UNSTABLE_BEST' | 'ISOLATED_PEAK' | 'FEW_TRADES';
+
+export interface OverfitWarning {
+    code: OverfitWarningCode;
+    message: string;
+}
+
+export interface WalkForwardResult {
+    contract: string;
+    reference: string;
+    base_config_version: string;
+    objective: SweepObjective;
+    grid: ParameterGrid;
+    combinations: number;
+    folds: WalkForwardFold[];
+    ranking: ParameterRanking[];
+    out_of_sample: {
+        mean_score: number | null;
+        efficiency: number | null; // Mean out-of-sample score / mean in-sample score of the winners
+        trades: number;
+        net_pnl: number;
+    };
+    heatmap: StabilityHeatmap | null;
+    warnings: OverfitWarning[];
+}
+
+const EFFICIENCY_WARNING = 0.5; // Out-of-sample keeps less than half of the in-sample score
+const NEIGHBOUR_WARNING = 0.5; // Grid neighbours score less than half of the top parameters
+const MIN_OOS_TRADES = 30; // Below this the out-of-sample result is mostly noise
+
+const round = (value: number, digits = 2) => {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+};
+
+const mean = (values: number[]): number | null =>
+    values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+const paramsKey = (params: ParameterSet) => JSON.stringify(params);
+
+export function objectiveScore(metrics: BacktestMetrics, objective: SweepObjective): number | null {
+    switch (objective) {
+        case 'return_over_drawdown':
+            // Drawdowns under 1% are floored so flat curves don't dominate the ranking
+            return round(metrics.return_pct / Math.max(metrics.max_drawdown_pct, 1));
+        case 'expectancy_r':
+            return metrics.expectancy_r;
+        case 'profit_factor':
+            return metrics.profit_factor;
+        case 'sharpe':
+            return metrics.sharpe;
+        default:
+            return metrics[objective];
+    }
+}
+
+// Every combination of the grid values, in grid order
+export function expandGrid(grid: ParameterGrid): ParameterSet[] {
+    return Object.keys(grid).reduce<ParameterSet[]>((sets, param) => {
+        const values = grid[param];
+        if (!Array.isArray(values) || values.length === 0) throw new Error(`No values for parameter ${param}`);
+        return sets.reduce<ParameterSet[]>((acc, set) => acc.concat(values.map(value => ({ ...set, [param]: value }))), []);
+    }, [{}]);
+}
+
+// Grid values become section overrides ('recommendation.openThreshold' -> { recommendation: { openThreshold } })
+export function applyParameters(base: StrategyConfig, params: ParameterSet): StrategyConfig {
+    const overrides: Record<string, Record<string, number>> = {};
+    Object.keys(params).forEach(param => {
+        const [section, key, ...rest] = param.split('.');
+        const current = base[section as keyof StrategyConfig]?.[key];
+        if (!key || rest.length > 0 || typeof current !== 'number') {
+            throw new Error(`Unknown numeric config parameter: ${param}`);
+        }
+        overrides[section] = { ...overrides[section], [key]: params[param] };
+    });
+    return mergeStrategyConfig(overrides as StrategyConfigOverrides, base);
+}
+
+// Rolling folds over the bar times: fixed-length in-sample windows, each followed by
+// an out-of-sample window; consecutive out-of-sample windows tile the end of the period.
+export function walkForwardFolds(times: number[], folds: number, inSampleRatio: number): { inSample: TimeRange; outOfSample: TimeRange }[] {
+    if (folds < 1 || inSampleRatio <= 0 || inSampleRatio >= 1) throw new Error('Invalid walk-forward split');
+    const inSampleBars = Math.floor(times.length * inSampleRatio);
+    const outOfSampleBars = Math.floor((times.length - inSampleBars) / folds);
+    if (inSampleBars < 1 || outOfSampleBars < 1) throw new Error(`Not enough bars for ${folds} walk-forward folds`);
+
+    return Array.from({ length: folds }, (_, k) => {
+        const start = k * outOfSampleBars;
+        const oosStart = start + inSampleBars;
+        return {
+            inSample: { from: times[start], to: times[oosStart - 1] },
+            outOfSample: { from: times[oosStart], to: times[oosStart + outOfSampleBars - 1] },
+        };
+    });
+}
+
+// Best first; unrankable runs last
+const rankRuns = (runs: SweepRun[]) =>
+    [...runs].sort((a, b) => (b.score ?? -Infinity) - (a.score ?? -Infinity));
+
+function buildHeatmap(grid: ParameterGrid, ranking: ParameterRanking[], axes?: [string, string] | null): StabilityHeatmap | null {
+    const varying = Object.keys(grid).filter(param => grid[param].length > 1);
+    const [xParam, yParam] = axes ?? [varying[0], varying[1]];
+    if (!xParam) return null;
+
+    const cell = (x: number, y: number | null) => {
+        const scores = ranking
+            .filter(r => r.params[xParam] === x && (yParam ? r.params[yParam] === y : true) && r.mean_score !== null)
+            .map(r => r.mean_score as number);
+        return scores.length > 0 ? round(Math.max(...scores)) : null;
+    };
+    return {
+        x: { param: xParam, values: grid[xParam] },
+        y: yParam ? { param: yParam, values: grid[yParam] } : null,
+        cells: yParam
+            ? grid[yParam].map(y => grid[xParam].map(x => cell(x, y)))
+            : [grid[xParam].map(x => cell(x, null))],
+    };
+}
+
+// Mean score of the grid points one step away from params along a single parameter
+function neighbourScore(grid: ParameterGrid, ranking: ParameterRanking[], params: ParameterSet): number | null {
+    const byKey = new Map(ranking.map(r => [paramsKey(r.params), r.mean_score]));
+    const scores: number[] = [];
+    Object.keys(grid).forEach(param => {
+        const index = grid[param].indexOf(params[param]);
+        [index - 1, index + 1].forEach(i => {
+            if (i < 0 || i >= grid[param].length) return;
+            const score = byKey.get(paramsKey({ ...params, [param]: grid[param][i] }));
+            if (score !== null && score !== undefined) scores.push(score);
+        });
+    });
+    return mean(scores);
+}
+
+function overfitWarnings(
+    grid: ParameterGrid,
+    folds: WalkForwardFold[],
+    ranking: ParameterRanking[],
+    outOfSample: WalkForwardResult['out_of_sample']
+): OverfitWarning[] {
+    const warnings: OverfitWarning[] = [];
+    const inSampleMean = mean(folds.map(f => f.in_sample_score).filter((s): s is number => s !== null));
+
+    if (inSampleMean !== null && inSampleMean > 0 && outOfSample.efficiency !== null && outOfSample.efficiency < EFFICIENCY_WARNING) {
+        warnings.push({
+            code: 'OOS_DEGRADATION',
+            message: `Out-of-sample keeps ${round(outOfSample.efficiency * 100, 0)}% of the in-sample score`,
+        });
+    }
+    if (inSampleMean !== null && inSampleMean > 0 && outOfSample.net_pnl <= 0) {
+        warnings.push({ code: 'NEGATIVE_OOS', message: `Winning in-sample parameters lost ${outOfSample.net_pnl} out-of-sample` });
+    }
+
+    const winners = folds.filter(f => f.best).map(f => paramsKey(f.best!));
+    const topCount = Math.max(0, ...winners.map(w => winners.filter(v => v === w).length));
+    if (winners.length > 1 && topCount * 2 <= winners.length) {
+        warnings.push({
+            code: 'UNSTABLE_BEST',
+            message: `Best parameters changed across folds (most common won ${topCount} of ${winners.length})`,
+        });
+    }
+
+    const top = ranking[0];
+    if (top && top.mean_score !== null && top.mean_score > 0) {
+        const neighbours = neighbourScore(grid, ranking, top.params);
+        if (neighbours !== null && neighbours < top.mean_score * NEIGHBOUR_WARNING) {
+            warnings.push({
+                code: 'ISOLATED_PEAK',
+                message: `Neighbouring grid points average ${round(neighbours)} vs ${top.mean_score} for the top parameters`,
+            });
+        }
+    }
+
+    if (outOfSample.trades < MIN_OOS_TRADES) {
+        warnings.push({ code: 'FEW_TRADES', message: `Only ${outOfSample.trades} out-of-sample trades (< ${MIN_OOS_TRADES})` });
+    }
+    return warnings;
+}
+
+export function runWalkForward(
+    data: BacktestData,
+    baseOptions: BacktestOptions,
+    options: WalkForwardOptions
+): WalkForwardResult {
+    const { grid, objective, minTrades, onProgress } = options;
+    const combinations = expandGrid(grid);
+    (options.heatmap ?? []).forEach(param => {
+        if (!grid[param]) throw new Error(`Heatmap parameter ${param} is not in the grid`);
+    });
+    const configs = new Map(combinations.map(params => [paramsKey(params), applyParameters(baseOptions.config, params)]));
+
+    const fromTime = baseOptions.from ?? -Infinity;
+    const toTime = baseOptions.to ?? Infinity;
+    const times = data.candles1m.map(c => c.timestamp).filter(t => t >= fromTime && t <= toTime);
+    const splits = walkForwardFolds(times, options.folds, options.inSampleRatio);
+
+    const total = splits.length * (combinations.length + 1);
+    let done = 0;
+    const run = (params: ParameterSet, range: TimeRange) => {
+        const result = runBacktest(data, { ...baseOptions, config: configs.get(paramsKey(params))!, from: range.from, to: range.to });
+        onProgress?.(++done, total);
+        return result.metrics;
+    };
+
+    const folds: WalkForwardFold[] = splits.map(({ inSample, outOfSample }, index) => {
+        const runs = rankRuns(combinations.map(params => {
+            const metrics = run(params, inSample);
+            return { params, score: metrics.trades >= minTrades ? objectiveScore(metrics, objective) : null, metrics };
+        }));
+        const best = runs[0]?.score !== null ? runs[0] : null;
+        const oosMetrics = best ? run(best.params, outOfSample) : null;
+        if (!best) onProgress?.(++done, total);
+        return {
+            index,
+            in_sample: inSample,
+            out_of_sample: outOfSample,
+            best: best ? best.params : null,
+            in_sample_score: best ? best.score : null,
+            out_of_sample_score: oosMetrics ? objectiveScore(oosMetrics, objective) : null,
+            out_of_sample_metrics: oosMetrics,
+            runs,
+        };
+    });
+
+    const ranking: ParameterRanking[] = combinations
+        .map(params => {
+            const key = paramsKey(params);
+            const runs = folds.map(f => f.runs.find(r => paramsKey(r.params) === key)!);
+            const scores = runs.map(r => r.score).filter((s): s is number => s !== null);
+            const meanScore = mean(scores);
+            return {
+                params,
+                mean_score: meanScore !== null ? round(meanScore) : null,
+                folds_ranked: scores.length,
+                times_best: folds.filter(f => f.best && paramsKey(f.best) === key).length,
+                mean_trades: round(mean(runs.map(r => r.metrics.trades)) ?? 0, 1),
+            };
+        })
+        .sort((a, b) => (b.mean_score ?? -Infinity) - (a.mean_score ?? -Infinity));
+
+    const oosScores = folds.map(f => f.out_of_sample_score).filter((s): s is number => s !== null);
+    const isScores = folds.filter(f => f.out_of_sample_score !== null).map(f => f.in_sample_score as number);
+    const oosMean = mean(oosScores);
+    const isMean = mean(isScores);
+    const oosMetrics = folds.map(f => f.out_of_sample_metrics).filter((m): m is BacktestMetrics => m !== null);
+    const outOfSample = {
+        mean_score: oosMean !== null ? round(oosMean) : null,
+        efficiency: oosMean !== null && isMean > 0 ? round(oosMean / isMean) : null,
+        trades: oosMetrics.reduce((n, m) => n + m.trades, 0),
+        net_pnl: round(oosMetrics.reduce((n, m) => n + m.net_pnl, 0)),
+    };
+
+    return {
+        contract: baseOptions.contract,
+        reference: baseOptions.reference,
+        base_config_version: baseOptions.config.version,
+        objective,
+        grid,
+        combinations: combinations.length,
+        folds,
+        ranking,
+        out_of_sample: outOfSample,
+        heatmap: buildHeatmap(grid, ranking, options.heatmap),
+        warnings: overfitWarnings(grid, folds, ranking, outOfSample),
+    };
+}
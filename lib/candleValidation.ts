@@ -0,0 +1,102 @@
+import type { CandleData, DataQualityReport, GapPolicy } from './types';
+import { intervalToMs } from './interval';
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+
+// Row-level sanity: finite OHLCV, non-negative volume, high/low enclosing open/close
+const isValidCandle = (c: CandleData): boolean =>
+    isFiniteNumber(c.timestamp) &&
+    isFiniteNumber(c.open) && isFiniteNumber(c.high) && isFiniteNumber(c.low) && isFiniteNumber(c.close) &&
+    isFiniteNumber(c.volume) && c.volume >= 0 &&
+    c.high >= Math.max(c.open, c.close, c.low) && c.low <= Math.min(c.open, c.close);
+
+export function resolveGapPolicy(value: string | undefined): GapPolicy {
+    return value === 'mark' || value === 'truncate' ? value : 'fill';
+}
+
+// Validate and repair a kline series before indicators see it.
+// - invalid rows (NaN, negative volume, inconsistent OHLC) are dropped
+// - rows are sorted by time and duplicate timestamps collapse to the last one received
+// - missing buckets are handled per `policy`:
+//     'fill'     insert flat synthetic bars at the previous close with zero volume
+//     'mark'     leave the gap in place, only report it
+//     'truncate' keep only the bars after the most recent gap
+export function validateCandles(
+    candles: CandleData[],
+    interval: string,
+    policy: GapPolicy = 'fill'
+): { candles: CandleData[]; quality: DataQualityReport } {
+    const step = intervalToMs(interval);
+    const quality: DataQualityReport = {
+        interval,
+        policy,
+        received: candles.length,
+        invalid_rows: 0,
+        duplicates: 0,
+        out_of_order: 0,
+        gaps: 0,
+        missing_bars: 0,
+        filled_bars: 0,
+        dropped_bars: 0,
+        degraded: false,
+    };
+
+    // 1. Drop invalid rows
+    const valid = candles.filter(c => {
+        if (isValidCandle(c)) return true;
+        quality.invalid_rows++;
+        return false;
+    });
+
+    // 2. Order and de-duplicate (last occurrence wins)
+    for (let i = 1; i < valid.length; i++) {
+        if (valid[i].timestamp < valid[i - 1].timestamp) quality.out_of_order++;
+    }
+    const byTime = new Map<number, CandleData>();
+    valid.forEach(c => {
+        if (byTime.has(c.timestamp)) quality.duplicates++;
+        byTime.set(c.timestamp, c);
+    });
+    const ordered = Array.from(byTime.values()).sort((a, b) => a.timestamp - b.timestamp);
+
+    // 3. Gaps
+    let result: CandleData[] = [];
+    for (const candle of ordered) {
+        const prev = result[result.length - 1];
+        const missing = prev ? Math.round((candle.timestamp - prev.timestamp) / step) - 1 : 0;
+        if (missing > 0) {
+            quality.gaps++;
+            quality.missing_bars += missing;
+            if (policy === 'fill') {
+                for (let k = 1; k <= missing; k++) {
+                    result.push({
+                        timestamp: prev.timestamp + k * step,
+                        open: prev.close,
+                        high: prev.close,
+                        low: prev.close,
+                        close: prev.close,
+                        volume: 0,
+                        synthetic: true,
+                    });
+                }
+                quality.filled_bars += missing;
+            } else if (policy === 'truncate') {
+                quality.dropped_bars += result.length;
+                result = [];
+            }
+        }
+        result.push(candle);
+    }
+
+    // Anything that changed the data (not just its order) degrades confidence
+    quality.degraded = quality.invalid_rows > 0 || quality.missing_bars > 0;
+    return { candles: result, quality };
+}
+
+// Combine per-series reports into the summary returned by /api/signal
+export function summarizeDataQuality(reports: Record<string, DataQualityReport>): { degraded: boolean; series: Record<string, DataQualityReport> } {
+    return {
+        degraded: Object.values(reports).some(r => r.degraded),
+        series: reports,
+    };
+}
@@ -0,0 +1,103 @@
+// Signal persistence and hysteresis across consecutive bars.
+// A side becomes active once N of the last M bars scored at or above the enter
+// threshold (and above the other side); it stays active until its score drops
+// below the exit threshold, and the same side cannot fire again during a cooldown.
+// The state is derived from recent history records on the server, so every
+// client polling the same contract sees the same active signal.
+
+export type SignalSide = 'long' | 'short';
+
+export interface ConfirmationConfig {
+    confirmBars: number; // N: bars at/above the enter threshold ...
+    windowBars: number; // ... out of the last M bars (including the current one)
+    exitThreshold: number; // An active signal ends when its score falls below this
+    cooldownBars: number; // Bars before the same side can fire again
+}
+
+export interface SignalState {
+    time: number; // Bar the state was evaluated for
+    active: SignalSide | null;
+    since: number | null; // Bar time the active signal was confirmed
+    fired: SignalSide | null; // Set only on the bar a new signal is confirmed
+    hits: { long: number; short: number }; // Qualifying bars in the window
+    confirm_bars: number;
+    window_bars: number;
+    cooldown_until: { long: number | null; short: number | null };
+}
+
+export interface BarScores {
+    time: number;
+    long_score: number;
+    short_score: number;
+}
+
+export interface ScoredHistoryRecord extends BarScores {
+    signal_state?: SignalState | null;
+}
+
+const emptyState = (time: number, config: ConfirmationConfig): SignalState => ({
+    time,
+    active: null,
+    since: null,
+    fired: null,
+    hits: { long: 0, short: 0 },
+    confirm_bars: config.confirmBars,
+    window_bars: config.windowBars,
+    cooldown_until: { long: null, short: null },
+});
+
+const sideScore = (bar: BarScores, side: SignalSide) => (side === 'long' ? bar.long_score : bar.short_score);
+const otherSide = (side: SignalSide): SignalSide => (side === 'long' ? 'short' : 'long');
+
+export function evaluateSignalState(
+    current: BarScores,
+    history: ScoredHistoryRecord[],
+    enterThresholds: { long: number; short: number },
+    config: ConfirmationConfig,
+    intervalMs = 60 * 1000
+): SignalState {
+    // One record per bar (last write wins), only bars before the current one
+    const byTime = new Map<number, ScoredHistoryRecord>();
+    history.filter(r => r.time < current.time).forEach(r => byTime.set(r.time, r));
+    const previous = Array.from(byTime.values()).sort((a, b) => a.time - b.time).pop();
+    // A state older than the window has no bars left to support it
+    const prevState = previous?.signal_state && previous.time >= current.time - config.windowBars * intervalMs
+        ? previous.signal_state
+        : null;
+
+    const state = emptyState(current.time, config);
+    if (previous?.signal_state) state.cooldown_until = { ...previous.signal_state.cooldown_until };
+
+    const qualifies = (bar: BarScores | undefined, side: SignalSide) =>
+        !!bar && sideScore(bar, side) >= enterThresholds[side] && sideScore(bar, side) > sideScore(bar, otherSide(side));
+    for (let k = 0; k < config.windowBars; k++) {
+        const bar = k === 0 ? current : byTime.get(current.time - k * intervalMs); // Missing bars count as misses
+        if (qualifies(bar, 'long')) state.hits.long++;
+        if (qualifies(bar, 'short')) state.hits.short++;
+    }
+
+    const confirmed = (['long', 'short'] as SignalSide[]).filter(side => state.hits[side] >= config.confirmBars);
+    const candidate = confirmed.length === 1
+        ? confirmed[0]
+        : confirmed.length === 2 && current.long_score !== current.short_score
+            ? (current.long_score > current.short_score ? 'long' : 'short')
+            : null;
+
+    // Hysteresis: an active side holds until it drops below the exit threshold or the other side confirms
+    if (prevState?.active && sideScore(current, prevState.active) >= config.exitThreshold && candidate !== otherSide(prevState.active)) {
+        state.active = prevState.active;
+        state.since = prevState.since;
+        return state;
+    }
+
+    if (candidate) {
+        const cooldownUntil = state.cooldown_until[candidate];
+        if (cooldownUntil === null || current.time >= cooldownUntil) {
+            state.active = candidate;
+            state.since = current.time;
+            state.fired = candidate;
+            state.cooldown_until[candidate] = current.time + config.cooldownBars * intervalMs;
+        }
+    }
+    return state;
+}
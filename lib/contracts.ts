@@ -0,0 +1,61 @@
+// Tradable contracts and the reference asset each one is sync-checked against.
+// Override with NEXT_PUBLIC_CONTRACTS="ETH_USDT:BTC_USDT,SOL_USDT:BTC_USDT,..."
+// (NEXT_PUBLIC_ so the page's contract selector sees the same list as the API).
+
+export interface ContractConfig {
+    contract: string; // e.g. 'SOL_USDT'
+    reference: string; // Reference contract for sync checks, e.g. 'BTC_USDT'
+}
+
+export const DEFAULT_CONTRACT = 'ETH_USDT';
+
+const DEFAULT_CONTRACTS: ContractConfig[] = [
+    { contract: 'ETH_USDT', reference: 'BTC_USDT' },
+    { contract: 'BTC_USDT', reference: 'ETH_USDT' },
+    { contract: 'SOL_USDT', reference: 'BTC_USDT' },
+];
+
+const parseContracts = (value: string | undefined): ContractConfig[] | null => {
+    if (!value) return null;
+    const parsed = value.split(',')
+        .map(entry => entry.trim().split(':').map(s => s.trim().toUpperCase()))
+        .filter(([contract]) => contract)
+        .map(([contract, reference]) => ({ contract, reference: reference || 'BTC_USDT' }));
+    return parsed.length > 0 ? parsed : null;
+};
+
+export const SUPPORTED_CONTRACTS: ContractConfig[] = parseContracts(process.env.NEXT_PUBLIC_CONTRACTS) ?? DEFAULT_CONTRACTS;
+
+// Look up a contract from a query value; unknown/missing values resolve to null
+export function resolveContract(value: string | string[] | undefined): ContractConfig | null {
+    const name = (Array.isArray(value) ? value[0] : value)?.toUpperCase() || DEFAULT_CONTRACT;
+    return SUPPORTED_CONTRACTS.find(c => c.contract === name) ?? null;
+}
+
+// 'SOL_USDT' -> 'SOL'
+export const baseAsset = (contract: string): string => contract.split('_')[0];
+
+// Signal history sorted set per contract
+export const historyKey = (contract: string): string => `signal_history:${contract}`;
+// Single history written before per-contract keys, when only DEFAULT_CONTRACT was tracked.
+// Still read (and pruned) for that contract until its records age out.
+export const LEGACY_HISTORY_KEY = 'signal_history';
+
+// Paper-trading account (JSON) and closed virtual trades (sorted set by exit time) per contract
+export const paperAccountKey = (contract: string): string => `paper_account:${contract}`;
+export const paperTradesKey = (contract: string): string => `paper_trades:${contract}`;
+// Claimed by the one request that applies a bar to the paper account (expires)
+export const paperFillKey = (contract: string, barTime: number): string => `paper_fill:${contract}:${barTime}`;
+
+// Order execution: arming flag (expires), idempotency records and the audit log (sorted set by time)
+export const executionArmKey = (contract: string): string => `execution_armed:${contract}`;
+export const executionIdempotencyKey = (key: string, dryRun: boolean): string => `execution_idem:${dryRun ? 'dry_run:' : ''}${key}`;
+export const executionAuditKey = (contract: string): string => `execution_audit:${contract}`;
+
+// Risk guardrail counters, blackout and kill switch (JSON) per contract and position source
+export const guardrailStateKey = (contract: string, source: string): string => `guardrails:${source}:${contract}`;
+// Kept apart from the state so /api/signal's load-then-save can't overwrite a concurrent kill or release
+export const guardrailKillSwitchKey = (contract: string, source: string): string => `guardrails_kill:${source}:${contract}`;
+
+// Trailing stop of the held position (JSON) per contract and position source
+export const trailingStopKey = (contract: string, source: string): string => `trailing_stop:${source}:${contract}`;
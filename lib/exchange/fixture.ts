@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { CandleData, PositionInfoFromAPI } from '../types';
+import type { AccountInfo, ClosedPosition, ContractInfo, ExchangeAdapter, ExchangeTrade } from './types';
+
+// File-backed adapter for offline runs. Expected layout under `dir`:
+//   klines/<CONTRACT>_<interval>.json  -> CandleData[] (oldest first)
+//   positions/<CONTRACT>.json          -> PositionInfoFromAPI | null (missing file = flat)
+//   trades/<CONTRACT>.json             -> ExchangeTrade[]
+//   closes/<CONTRACT>.json             -> ClosedPosition[] (missing file = none)
+//   contracts/<CONTRACT>.json          -> ContractInfo
+//   account.json                       -> AccountInfo (missing file = no account data)
+async function readJson<T>(file: string): Promise<T | undefined> {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+    } catch (err: any) {
+        if (err.code === 'ENOENT') return undefined;
+        throw err;
+    }
+}
+
+export function createFixtureAdapter(dir = process.env.EXCHANGE_FIXTURE_DIR || 'fixtures'): ExchangeAdapter {
+    const root = path.resolve(dir);
+
+    return {
+        name: 'fixture',
+
+        async getKlines(contract: string, interval: string, limit: number): Promise<CandleData[]> {
+            const file = path.join(root, 'klines', `${contract}_${interval}.json`);
+            const candles = await readJson<CandleData[]>(file);
+            if (!candles) throw new Error(`Fixture not found: ${file}`);
+            return candles.slice(-limit);
+        },
+
+        async getPosition(contract: string): Promise<PositionInfoFromAPI | null> {
+            return (await readJson<PositionInfoFromAPI | null>(path.join(root, 'positions', `${contract}.json`))) ?? null;
+        },
+
+        async listTrades(contract: string, limit: number): Promise<ExchangeTrade[]> {
+            const trades = await readJson<ExchangeTrade[]>(path.join(root, 'trades', `${contract}.json`));
+            return (trades ?? []).slice(-limit);
+        },
+
+        async listClosedPositions(contract: string, fromMs: number): Promise<ClosedPosition[]> {
+            const closes = await readJson<ClosedPosition[]>(path.join(root, 'closes', `${contract}.json`));
+            return (closes ?? []).filter(c => c.time >= fromMs).sort((a, b) => a.time - b.time);
+        },
+
+        async getContractInfo(contract: string): Promise<ContractInfo> {
+            const file = path.join(root, 'contracts', `${contract}.json`);
+            const info = await readJson<ContractInfo>(file);
+            if (!info) throw new Error(`Fixture not found: ${file}`);
+            return info;
+        },
+
+        async getAccount(): Promise<AccountInfo | null> {
+            return (await readJson<AccountInfo>(path.join(root, 'account.json'))) ?? null;
+        },
+    };
+}
@@ -0,0 +1,113 @@
+import axios from 'axios';
+import { FuturesApi, ApiClient } from 'gate-api';
+import type { CandleData, PositionInfoFromAPI } from '../types';
+import type { AccountInfo, ClosedPosition, ContractInfo, ExchangeAdapter, ExchangeTrade } from './types';
+
+const GATE_API_BASE = 'https://api.gateio.ws/api/v4';
+const settle = 'usdt';
+
+// Gate returns most numeric fields as strings; treat missing/invalid as 0
+const num = (value: string | number | undefined | null): number => {
+    const parsed = typeof value === 'number' ? value : parseFloat(value ?? '');
+    return isNaN(parsed) ? 0 : parsed;
+};
+
+export function createGateioAdapter(
+    apiKey = process.env.GATE_READ_API_KEY,
+    apiSecret = process.env.GATE_READ_API_SECRET
+): ExchangeAdapter {
+    const client = new ApiClient();
+    client.setApiKeySecret(apiKey!, apiSecret!);
+    const futuresApi = new FuturesApi(client);
+
+    return {
+        name: 'gateio',
+
+        async getKlines(contract: string, interval: string, limit: number): Promise<CandleData[]> {
+            const response = await axios.get(`${GATE_API_BASE}/futures/${settle}/candlesticks`, {
+                params: { contract, interval, limit },
+            });
+            return response.data.map((d: any) => ({
+                timestamp: Number(d.t) * 1000,
+                open: parseFloat(d.o),
+                high: parseFloat(d.h),
+                low: parseFloat(d.l),
+                close: parseFloat(d.c),
+                volume: Number(d.v),
+            }));
+        },
+
+        async getPosition(contract: string): Promise<PositionInfoFromAPI | null> {
+            const { body: pos } = await futuresApi.getPosition(settle, contract);
+            const size = num(pos.size);
+            if (!size) return null;
+            return {
+                side: size > 0 ? 'long' : 'short',
+                entryPrice: num(pos.entryPrice),
+                liquidationPrice: num(pos.liqPrice) || null,
+                openTimeMs: pos.openTime ? pos.openTime * 1000 : null, // Gate reports seconds
+                size: Math.abs(size),
+                leverage: num(pos.leverage),
+                margin: num(pos.margin),
+                value: num(pos.value),
+                markPrice: num(pos.markPrice) || null,
+                unrealisedPnl: num(pos.unrealisedPnl),
+                fundingPnl: num(pos.pnlFund),
+            };
+        },
+
+        async listTrades(contract: string, limit: number): Promise<ExchangeTrade[]> {
+            const { body } = await futuresApi.listFuturesTrades(settle, contract, { limit });
+            return body
+                .filter(t => t.id !== undefined && (t.createTimeMs || t.createTime))
+                .map(t => ({
+                    id: t.id!,
+                    // createTime is seconds (possibly fractional); createTimeMs may be absent
+                    createTimeMs: t.createTimeMs ? Math.floor(num(t.createTimeMs)) : Math.floor(num(t.createTime) * 1000),
+                    contract: t.contract ?? contract,
+                    size: num(t.size),
+                    price: num(t.price),
+                }));
+        },
+
+        async listClosedPositions(contract: string, fromMs: number): Promise<ClosedPosition[]> {
+            const { body } = await futuresApi.listPositionClose(settle, { contract, from: Math.floor(fromMs / 1000), limit: 100 });
+            return body
+                .filter(p => p.time)
+                .map(p => ({
+                    time: Math.floor(num(p.time) * 1000), // Seconds
+                    contract: p.contract ?? contract,
+                    side: String(p.side) === 'short' ? 'short' as const : 'long' as const,
+                    pnl: num(p.pnl),
+                }))
+                .sort((a, b) => a.time - b.time); // Gate lists newest first
+        },
+
+        async getContractInfo(contract: string): Promise<ContractInfo> {
+            const { body: c } = await futuresApi.getFuturesContract(settle, contract);
+            return {
+                name: c.name ?? contract,
+                quantoMultiplier: num(c.quantoMultiplier),
+                leverageMin: num(c.leverageMin),
+                leverageMax: num(c.leverageMax),
+                orderPriceRound: num(c.orderPriceRound),
+                orderSizeMin: num(c.orderSizeMin),
+                orderSizeMax: num(c.orderSizeMax),
+                makerFeeRate: num(c.makerFeeRate),
+                takerFeeRate: num(c.takerFeeRate),
+                fundingRate: c.fundingRate !== undefined ? num(c.fundingRate) : null,
+                markPrice: c.markPrice !== undefined ? num(c.markPrice) : null,
+                lastPrice: c.lastPrice !== undefined ? num(c.lastPrice) : null,
+            };
+        },
+
+        async getAccount(): Promise<AccountInfo | null> {
+            const { body: account } = await futuresApi.listFuturesAccounts(settle);
+            return {
+                equity: num(account.total) + num(account.unrealisedPnl),
+                available: num(account.available),
+                currency: account.currency ?? settle.toUpperCase(),
+            };
+        },
+    };
+}
@@ -0,0 +1,31 @@
+import { createGateioAdapter } from './gateio';
+import { createFixtureAdapter } from './fixture';
+import type { ExchangeAdapter } from './types';
+
+export type { AccountInfo, ClosedPosition, ExchangeAdapter, ExchangeTrade, ContractInfo } from './types';
+export { createGateioAdapter } from './gateio';
+export { createFixtureAdapter } from './fixture';
+
+let activeAdapter: ExchangeAdapter | null = null;
+
+// Adapter selected by EXCHANGE_ADAPTER ('gateio' default, 'fixture' for offline runs)
+export function getExchangeAdapter(): ExchangeAdapter {
+    if (activeAdapter) return activeAdapter;
+    const kind = process.env.EXCHANGE_ADAPTER || 'gateio';
+    switch (kind) {
+        case 'gateio':
+            activeAdapter = createGateioAdapter();
+            break;
+        case 'fixture':
+            activeAdapter = createFixtureAdapter();
+            break;
+        default:
+            throw new Error(`Unknown EXCHANGE_ADAPTER: ${kind}`);
+    }
+    return activeAdapter;
+}
+
+// Override the adapter (e.g. a fixture adapter in scripts); pass null to reset
+export function setExchangeAdapter(adapter: ExchangeAdapter | null) {
+    activeAdapter = adapter;
+}
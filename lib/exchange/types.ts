@@ -0,0 +1,53 @@
+import type { CandleData, PositionInfoFromAPI } from '../types';
+
+// Normalized public trade (numbers instead of the exchange's string fields)
+export interface ExchangeTrade {
+    id: number;
+    createTimeMs: number; // Trade time in ms
+    contract: string;
+    size: number; // Positive for buy/long, negative for sell/short
+    price: number;
+}
+
+// Position closed on the exchange (its history), for the daily guardrail counters
+export interface ClosedPosition {
+    time: number; // Close time in ms
+    contract: string;
+    side: 'long' | 'short';
+    pnl: number; // Realised, net of fees and funding
+}
+
+// Static contract specification needed for sizing and price rounding
+export interface ContractInfo {
+    name: string;
+    quantoMultiplier: number; // Base currency per contract (e.g. 0.01 ETH)
+    leverageMin: number;
+    leverageMax: number;
+    orderPriceRound: number; // Tick size
+    orderSizeMin: number;
+    orderSizeMax: number;
+    makerFeeRate: number;
+    takerFeeRate: number;
+    fundingRate: number | null;
+    markPrice: number | null;
+    lastPrice: number | null;
+}
+
+// Futures account balance in the settle currency
+export interface AccountInfo {
+    equity: number; // Balance plus unrealised PnL
+    available: number;
+    currency: string;
+}
+
+// Everything the signal pipeline needs from an exchange.
+// Implementations must return candles sorted oldest -> newest with ms timestamps.
+export interface ExchangeAdapter {
+    name: string;
+    getKlines(contract: string, interval: string, limit: number): Promise<CandleData[]>;
+    getPosition(contract: string): Promise<PositionInfoFromAPI | null>; // null when flat
+    listTrades(contract: string, limit: number): Promise<ExchangeTrade[]>;
+    listClosedPositions(contract: string, fromMs: number): Promise<ClosedPosition[]>; // Oldest first
+    getContractInfo(contract: string): Promise<ContractInfo>;
+    getAccount(): Promise<AccountInfo | null>; // null when the exchange has no account data
+}
@@ -0,0 +1,19 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { EXECUTION_TOKEN_HEADER } from './clientToken';
+
+// Shared secret for the state-changing execution and guardrail requests (server-side only).
+// The dashboard sends it in the x-execution-token header; without EXECUTION_TOKEN set,
+// every such request is refused.
+
+// Both sides are hashed first so the comparison takes the same time whatever their lengths
+export function validExecutionToken(provided: unknown, expected = process.env.EXECUTION_TOKEN): boolean {
+    if (!expected || typeof provided !== 'string' || !provided) return false;
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(provided), digest(expected));
+}
+
+export function authorizedRequest(headers: IncomingHttpHeaders, expected = process.env.EXECUTION_TOKEN): boolean {
+    const value = headers[EXECUTION_TOKEN_HEADER];
+    return validExecutionToken(Array.isArray(value) ? value[0] : value, expected);
+}
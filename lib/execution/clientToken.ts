@@ -0,0 +1,36 @@
+// Browser side of the execution token (see auth.ts): asked for once, then kept in localStorage
+
+export const EXECUTION_TOKEN_HEADER = 'x-execution-token';
+const STORAGE_KEY = 'execution_token';
+
+// Sends the request with the stored token; on a 401 the user is asked for the token and the request retried once
+export async function requestWithToken<T>(
+    method: 'POST' | 'DELETE',
+    url: string,
+    body: Record<string, unknown> | null,
+    promptText: string
+): Promise<T> {
+    const send = (token: string | null) => fetch(url, {
+        method,
+        headers: {
+            ...(body ? { 'Content-Type': 'application/json' } : {}),
+            ...(token ? { [EXECUTION_TOKEN_HEADER]: token } : {}),
+        },
+        ...(body ? { body: JSON.stringify(body) } : {}),
+    });
+    let res = await send(window.localStorage.getItem(STORAGE_KEY));
+    if (res.status === 401) {
+        const entered = window.prompt(promptText)?.trim();
+        if (entered) {
+            res = await send(entered);
+            if (res.ok) window.localStorage.setItem(STORAGE_KEY, entered);
+        }
+        if (res.status === 401) window.localStorage.removeItem(STORAGE_KEY);
+    }
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || `HTTP error! status: ${res.status}`);
+    return data;
+}
+
+export const postWithToken = <T>(url: string, body: Record<string, unknown>, promptText: string): Promise<T> =>
+    requestWithToken<T>('POST', url, body, promptText);
@@ -0,0 +1,132 @@
+import type { OrderClient } from './gateClient';
+import type { GateRequest, OrderIntent } from './orders';
+
+// Sends (or, in dry-run mode, only records) the requests for one order intent.
+// Every request is audited with its response or error. The protective triggers are
+// only placed (or, for a close, cancelled) once the market order reports a fill.
+
+export interface ExecutionSettings {
+    enabled: boolean; // EXECUTION_ENABLED=true; otherwise the execute API refuses orders
+    dryRun: boolean; // Anything but EXECUTION_DRY_RUN=false records requests without sending them
+    armMinutes: number; // How long an arming lasts
+}
+
+export function resolveExecutionSettings(env: Record<string, string | undefined> = process.env): ExecutionSettings {
+    const armMinutes = parseInt(env.EXECUTION_ARM_MINUTES || '15', 10);
+    return {
+        enabled: env.EXECUTION_ENABLED === 'true',
+        dryRun: env.EXECUTION_DRY_RUN !== 'false',
+        armMinutes: !isNaN(armMinutes) && armMinutes > 0 ? armMinutes : 15,
+    };
+}
+
+export type AuditOp = 'arm' | 'disarm' | 'place' | 'cancel';
+export type AuditStatus = 'ok' | 'dry_run' | 'error' | 'rejected' | 'duplicate';
+
+export interface AuditEntry {
+    time: number;
+    contract: string;
+    op: AuditOp;
+    status: AuditStatus;
+    dry_run: boolean;
+    idempotency_key: string | null;
+    role?: GateRequest['role'] | null;
+    endpoint?: string | null; // e.g. 'POST /futures/usdt/orders'
+    request?: unknown;
+    response?: unknown;
+    error?: string | null;
+}
+
+export type ExecutionStatus = 'dry_run' | 'filled' | 'not_filled' | 'unprotected' | 'triggers_left' | 'failed';
+
+export interface ExecutionResult {
+    idempotency_key: string;
+    dry_run: boolean;
+    // 'unprotected' = filled, but a stop-loss/take-profit trigger failed;
+    // 'triggers_left' = closed, but cancelling the position's triggers failed
+    status: ExecutionStatus;
+    intent: OrderIntent;
+    steps: { role: GateRequest['role']; ok: boolean; response: unknown; error: string | null }[];
+}
+
+const ENDPOINTS: Record<GateRequest['kind'], string> = {
+    order: 'POST /futures/usdt/orders',
+    trigger: 'POST /futures/usdt/price_orders',
+    cancel_triggers: 'DELETE /futures/usdt/price_orders',
+};
+
+// Error text from the SDK (Gate label/message) or anything else thrown
+export const errorMessage = (err: any): string => {
+    const body = err?.response?.data ?? err?.response?.body;
+    if (body?.label) return `${body.label}: ${body.message ?? ''}`.trim();
+    return err?.message || String(err);
+};
+
+// An IOC order that left its whole size unfilled did nothing (size 0 = close the whole position)
+const orderFilled = (response: any): boolean => {
+    if (!response || response.left === undefined || response.size === undefined) return true;
+    const size = Math.abs(parseFloat(response.size));
+    return size === 0 || Math.abs(parseFloat(response.left)) < size;
+};
+
+export async function executeIntent(
+    intent: OrderIntent,
+    requests: GateRequest[],
+    client: OrderClient | null,
+    dryRun: boolean,
+    audit: (entry: AuditEntry) => Promise<void>
+): Promise<ExecutionResult> {
+    const result: ExecutionResult = { idempotency_key: intent.idempotency_key, dry_run: dryRun, status: 'dry_run', intent, steps: [] };
+    const record = (request: GateRequest, status: AuditStatus, response: unknown, error: string | null) => audit({
+        time: Date.now(),
+        contract: intent.contract,
+        op: 'place',
+        status,
+        dry_run: dryRun,
+        idempotency_key: intent.idempotency_key,
+        role: request.role,
+        endpoint: ENDPOINTS[request.kind],
+        request: request.body,
+        response,
+        error,
+    });
+
+    if (dryRun || !client) {
+        for (const request of requests) {
+            await record(request, 'dry_run', null, null);
+            result.steps.push({ role: request.role, ok: true, response: null, error: null });
+        }
+        return result;
+    }
+
+    for (const request of requests) {
+        let response: unknown = null;
+        let error: string | null = null;
+        try {
+            response = request.kind === 'order'
+                ? await client.createOrder(request.body)
+                : request.kind === 'trigger'
+                    ? await client.createTriggerOrder(request.body)
+                    : await client.cancelTriggerOrders(request.body.contract);
+        } catch (err: any) {
+            error = errorMessage(err);
+        }
+        await record(request, error ? 'error' : 'ok', response, error);
+        result.steps.push({ role: request.role, ok: !error, response, error });
+
+        if (request.kind === 'order') {
+            if (error) {
+                result.status = 'failed';
+                return result;
+            }
+            if (!orderFilled(response)) {
+                result.status = 'not_filled';
+                return result; // Nothing to protect
+            }
+            result.status = 'filled';
+        } else if (error) {
+            result.status = request.kind === 'trigger' ? 'unprotected' : 'triggers_left';
+        }
+    }
+    return result;
+}
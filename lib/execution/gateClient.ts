@@ -0,0 +1,38 @@
+import { ApiClient, FuturesApi, type FuturesOrder, type FuturesPriceTriggeredOrder } from 'gate-api';
+
+// Order endpoints with the trading key (separate from the read-only key used for
+// signals). GATE_API_BASE_PATH points the client at a local mock (scripts/mockGate.ts).
+
+const settle = 'usdt';
+
+export interface OrderClient {
+    basePath: string;
+    createOrder(order: FuturesOrder): Promise<unknown>;
+    cancelOrder(orderId: string): Promise<unknown>;
+    createTriggerOrder(order: FuturesPriceTriggeredOrder): Promise<unknown>;
+    cancelTriggerOrders(contract: string): Promise<unknown>; // All open triggers of the contract
+}
+
+// Gate ids come back as BigInt; keep responses JSON-serialisable for the audit log
+export const plain = (value: unknown): unknown =>
+    value === undefined ? null : JSON.parse(JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v)));
+
+export function createGateOrderClient(
+    apiKey = process.env.GATE_TRADE_API_KEY,
+    apiSecret = process.env.GATE_TRADE_API_SECRET,
+    basePath = process.env.GATE_API_BASE_PATH
+): OrderClient {
+    if (!apiKey || !apiSecret) throw new Error('GATE_TRADE_API_KEY / GATE_TRADE_API_SECRET are not set');
+    const client = new ApiClient();
+    if (basePath) client.basePath = basePath;
+    client.setApiKeySecret(apiKey, apiSecret);
+    const futuresApi = new FuturesApi(client);
+
+    return {
+        basePath: client.basePath,
+        createOrder: async order => plain((await futuresApi.createFuturesOrder(settle, order)).body),
+        cancelOrder: async orderId => plain((await futuresApi.cancelFuturesOrder(settle, orderId)).body),
+        createTriggerOrder: async order => plain((await futuresApi.createPriceTriggeredOrder(settle, order)).body),
+        cancelTriggerOrders: async contract => plain((await futuresApi.cancelPriceTriggeredOrderList(settle, { contract })).body),
+    };
+}
@@ -0,0 +1,137 @@
+import { FuturesInitialOrder, FuturesOrder, FuturesPriceTrigger, type FuturesPriceTriggeredOrder } from 'gate-api';
+import { isExecutableAction, type Recommendation, type RecommendationAction } from '../recommendation';
+
+// Turns a recommendation into the Gate futures requests that would carry it out:
+// a market (IOC) order, plus a reduce-only stop-loss and take-profit trigger for
+// openings, or a cancel of the position's leftover triggers after a close. Nothing here talks to the exchange, so dry runs build exactly the
+// requests a live run would send.
+
+export type OrderOp = 'open' | 'close';
+
+export interface OrderIntent {
+    contract: string;
+    action: RecommendationAction;
+    op: OrderOp;
+    side: 'long' | 'short'; // Position side being opened or closed
+    size: number; // Contracts, positive; 0 for a close (the whole position)
+    stop: number | null; // Stop-loss trigger for openings
+    take_profit: number | null; // First plan target
+    signal_time: number; // Bar of the recommendation that was confirmed
+    idempotency_key: string;
+}
+
+export type GateRequest =
+    | { kind: 'order'; role: 'entry' | 'exit'; body: FuturesOrder }
+    | { kind: 'trigger'; role: 'stop_loss' | 'take_profit'; body: FuturesPriceTriggeredOrder }
+    | { kind: 'cancel_triggers'; role: 'cancel_triggers'; body: { contract: string } };
+
+// FNV-1a, hex
+const hash = (value: string): string => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        h ^= value.charCodeAt(i);
+        h = Math.imul(h, 0x01000193) >>> 0;
+    }
+    return h.toString(16).padStart(8, '0');
+};
+
+// One key per contract, action and signal bar. Gate's custom order text must start
+// with 't-' and stay within 28 bytes, so the key doubles as the order's `text`.
+export const idempotencyKey = (contract: string, action: RecommendationAction, signalTime: number): string =>
+    `t-${hash(`${contract}:${action}`)}-${Math.floor(signalTime / 1000).toString(36)}`;
+
+export function buildOrderIntent(contract: string, recommendation: Recommendation, signalTime: number): OrderIntent | null {
+    const { action, side, trade_plan } = recommendation;
+    if (!side || !isExecutableAction(action)) return null;
+    const base = { contract, action, side, signal_time: signalTime, idempotency_key: idempotencyKey(contract, action, signalTime) };
+
+    if (action === 'OPEN_LONG' || action === 'OPEN_SHORT') {
+        const contracts = trade_plan?.sizing?.contracts ?? 0;
+        if (!trade_plan || contracts <= 0) return null; // Unsized plans can't be executed
+        return {
+            ...base,
+            op: 'open',
+            size: contracts,
+            stop: trade_plan.stop,
+            take_profit: trade_plan.targets[0]?.price ?? null,
+        };
+    }
+    return { ...base, op: 'close', size: 0, stop: null, take_profit: null };
+}
+
+// Round to the contract's tick size (orderPriceRound); unknown tick = leave as is
+const toTick = (price: number, tick: number | null): string => {
+    if (!tick || tick <= 0) return String(price);
+    const decimals = Math.max(0, -Math.floor(Math.log10(tick)));
+    return (Math.round(price / tick) * tick).toFixed(decimals);
+};
+
+// Reduce-only trigger that closes the whole position when the mark price crosses `price`
+const closeTrigger = (intent: OrderIntent, price: number, rule: FuturesPriceTrigger.Rule, tick: number | null): FuturesPriceTriggeredOrder => ({
+    initial: {
+        contract: intent.contract,
+        size: 0,
+        price: '0', // Market
+        close: true,
+        reduceOnly: true,
+        tif: FuturesInitialOrder.Tif.Ioc,
+    },
+    trigger: {
+        strategyType: FuturesPriceTrigger.StrategyType.NUMBER_0, // By price
+        priceType: FuturesPriceTrigger.PriceType.NUMBER_1, // Mark price
+        price: toTick(price, tick),
+        rule,
+    },
+    orderType: `plan-close-${intent.side}-position`,
+});
+
+export function gateRequests(intent: OrderIntent, tick: number | null = null): GateRequest[] {
+    if (intent.op === 'close') {
+        // Then drop the closed position's stop-loss/take-profit, which would otherwise fire on a later position
+        return [{
+            kind: 'order',
+            role: 'exit',
+            body: {
+                contract: intent.contract,
+                size: '0',
+                price: '0',
+                close: true,
+                tif: FuturesOrder.Tif.Ioc,
+                text: intent.idempotency_key,
+            },
+        }, {
+            kind: 'cancel_triggers',
+            role: 'cancel_triggers',
+            body: { contract: intent.contract },
+        }];
+    }
+
+    const long = intent.side === 'long';
+    const requests: GateRequest[] = [{
+        kind: 'order',
+        role: 'entry',
+        body: {
+            contract: intent.contract,
+            size: String(long ? intent.size : -intent.size),
+            price: '0',
+            tif: FuturesOrder.Tif.Ioc,
+            text: intent.idempotency_key,
+        },
+    }];
+    // Rule 2 = price <= trigger, rule 1 = price >= trigger
+    if (intent.stop !== null) {
+        requests.push({
+            kind: 'trigger',
+            role: 'stop_loss',
+            body: closeTrigger(intent, intent.stop, long ? FuturesPriceTrigger.Rule.NUMBER_2 : FuturesPriceTrigger.Rule.NUMBER_1, tick),
+        });
+    }
+    if (intent.take_profit !== null) {
+        requests.push({
+            kind: 'trigger',
+            role: 'take_profit',
+            body: closeTrigger(intent, intent.take_profit, long ? FuturesPriceTrigger.Rule.NUMBER_1 : FuturesPriceTrigger.Rule.NUMBER_2, tick),
+        });
+    }
+    return requests;
+}
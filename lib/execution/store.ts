@@ -0,0 +1,50 @@
+import { getStorage } from '../storage';
+import { executionArmKey, executionAuditKey, executionIdempotencyKey } from '../contracts';
+import type { AuditEntry, ExecutionResult } from './executor';
+
+// State for order execution (server-side only, see lib/storage)
+
+const AUDIT_MAX_ENTRIES = 2000; // Per contract, oldest dropped first
+const IDEMPOTENCY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Arming expires by itself; returns the expiry time (ms)
+export async function armExecution(contract: string, minutes: number): Promise<number> {
+    const until = Date.now() + minutes * 60 * 1000;
+    await getStorage().set(executionArmKey(contract), until, { ttlSeconds: minutes * 60 });
+    return until;
+}
+
+export async function disarmExecution(contract: string): Promise<void> {
+    await getStorage().del(executionArmKey(contract));
+}
+
+// Expiry time (ms) while armed, otherwise null
+export async function armedUntil(contract: string): Promise<number | null> {
+    const until = Number(await getStorage().get<number>(executionArmKey(contract)));
+    return until > Date.now() ? until : null;
+}
+
+// Reserves the key; false when it was already used (the stored result, if any, is returned by idempotentResult)
+export async function claimIdempotencyKey(key: string, dryRun: boolean): Promise<boolean> {
+    return getStorage().set(executionIdempotencyKey(key, dryRun), { pending: true }, { onlyIfAbsent: true, ttlSeconds: IDEMPOTENCY_TTL_SECONDS });
+}
+
+export async function saveIdempotentResult(result: ExecutionResult): Promise<void> {
+    await getStorage().set(executionIdempotencyKey(result.idempotency_key, result.dry_run), result, { ttlSeconds: IDEMPOTENCY_TTL_SECONDS });
+}
+
+export async function idempotentResult(key: string, dryRun: boolean): Promise<ExecutionResult | { pending: true } | null> {
+    return getStorage().get<ExecutionResult | { pending: true }>(executionIdempotencyKey(key, dryRun));
+}
+
+export async function appendAudit(entry: AuditEntry): Promise<void> {
+    const key = executionAuditKey(entry.contract);
+    const storage = getStorage();
+    await storage.append(key, entry.time, entry);
+    await storage.trimToLatest(key, AUDIT_MAX_ENTRIES);
+}
+
+// Most recent first
+export async function listAudit(contract: string, count = 50): Promise<AuditEntry[]> {
+    return getStorage().latest<AuditEntry>(executionAuditKey(contract), count);
+}
@@ -1,32 +1,34 @@
-import axios from 'axios'
+import { getExchangeAdapter } from './exchange'
+import { ensureCandleStream, getCandleStore } from './stream'
+import { validateCandles, resolveGapPolicy } from './candleValidation'
+import type { CandleData, DataQualityReport, GapPolicy } from './types'
 
-export async function getLatestKlines(symbol: string, interval: string, limit = 100) {
-  const response = await axios.get(
-    'https://api.gateio.ws/api/v4/futures/usdt/candlesticks',
-    {
-      params: { contract: symbol, interval, limit },
-    }
-  )
+async function fetchKlines(symbol: string, interval: string, limit: number): Promise<CandleData[]> {
+  // Serve from the WebSocket buffers when they are warm, fall back to REST otherwise
+  ensureCandleStream()
+  const streamed = getCandleStore().getCandles(symbol, interval, limit)
+  if (streamed) return streamed
+  return getExchangeAdapter().getKlines(symbol, interval, limit)
+}
+
+// Fetch klines and run them through validation/gap repair (policy from CANDLE_GAP_POLICY by default)
+export async function getValidatedKlines(
+  symbol: string,
+  interval: string,
+  limit = 100,
+  policy: GapPolicy = resolveGapPolicy(process.env.CANDLE_GAP_POLICY)
+): Promise<{ candles: CandleData[]; quality: DataQualityReport }> {
+  const raw = await fetchKlines(symbol, interval, limit)
+  const { candles, quality } = validateCandles(raw, interval, policy)
+  return { candles: candles.slice(-limit), quality }
+}
 
-  return response.data.map((d: any) => {
-    return {
-      timestamp: Number(d.t) * 1000,
-      open: parseFloat(d.o),
-      high: parseFloat(d.h),
-      low: parseFloat(d.l),
-      close: parseFloat(d.c),
-      volume: Number(d.v),
-    }
-  })
+export async function getLatestKlines(symbol: string, interval: string, limit = 100): Promise<CandleData[]> {
+  return (await getValidatedKlines(symbol, interval, limit)).candles
 }
 
 export async function getBTCClosePrice(): Promise<number> {
-  const response = await axios.get(
-    'https://api.gateio.ws/api/v4/futures/usdt/candlesticks',
-    {
-      params: { contract: 'BTC_USDT', interval: '1m', limit: 2 },
-    }
-  )
-  const latest = response.data[response.data.length - 1]
-  return parseFloat(latest.c) || 0
-}
\ No newline at end of file
+  const klines = await getLatestKlines('BTC_USDT', '1m', 2)
+  const latest = klines[klines.length - 1]
+  return latest?.close || 0
+}
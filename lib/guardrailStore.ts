@@ -0,0 +1,40 @@
+import { getStorage } from './storage';
+import { guardrailKillSwitchKey, guardrailStateKey } from './contracts';
+import { newGuardrailState, type GuardrailState } from './guardrails';
+import type { PositionSource } from './paperTrading';
+
+// Persistence for the risk guardrail state (server-side only, see lib/storage)
+
+// Stored state, or a fresh one for a contract/source without any. The kill switch comes from
+// its own key; states saved before it existed still carry it in the state itself.
+export async function loadGuardrailState(contract: string, source: PositionSource): Promise<GuardrailState> {
+    const storage = getStorage();
+    const [stored, killSwitch] = await Promise.all([
+        storage.get<GuardrailState>(guardrailStateKey(contract, source)),
+        storage.get<boolean>(guardrailKillSwitchKey(contract, source)),
+    ]);
+    const state = stored ?? newGuardrailState(contract, source, Date.now());
+    return killSwitch === null ? state : { ...state, kill_switch: killSwitch };
+}
+
+// Counters and trips only; the kill switch is written by setKillSwitch alone
+export async function saveGuardrailState(state: GuardrailState): Promise<void> {
+    await getStorage().set(guardrailStateKey(state.contract, state.source), state);
+}
+
+export async function setKillSwitch(contract: string, source: PositionSource, on: boolean): Promise<GuardrailState> {
+    await getStorage().set(guardrailKillSwitchKey(contract, source), on);
+    return { ...(await loadGuardrailState(contract, source)), updated_at: Date.now() };
+}
+
+// Clears the day's counters and any blackout; the kill switch and last counted close stay
+export async function resetGuardrailState(contract: string, source: PositionSource): Promise<GuardrailState> {
+    const stored = await loadGuardrailState(contract, source);
+    const state = {
+        ...newGuardrailState(contract, source, Date.now()),
+        kill_switch: stored.kill_switch,
+        last_close_time: stored.last_close_time,
+    };
+    await saveGuardrailState(state);
+    return state;
+}
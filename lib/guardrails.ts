@@ -0,0 +1,173 @@
+import type { PositionInfoFromAPI } from './types';
+import type { PositionSource } from './paperTrading';
+import type { Recommendation, RecommendationReason } from './recommendation';
+import type { MessageParams } from './i18n';
+
+// Account-level guardrails applied on top of every recommendation. Trades closed
+// during the UTC day feed the loss, losing-streak and trade-count limits; a mark
+// price too close to liquidation starts a blackout; the kill switch is manual.
+// While anything is tripped, openings become WAIT and a held position is closed.
+// State is kept per contract and position source (see lib/guardrailStore.ts).
+
+export interface GuardrailConfig {
+    maxDailyLoss: number | null; // Realised loss per UTC day, quote currency net of fees; null = off
+    maxConsecutiveLosses: number | null; // Losing closes in a row within the day
+    maxTradesPerDay: number | null; // Closed trades per UTC day
+    maxNotional: number | null; // Value of the held position, or of the plan being opened
+    liquidationBufferPct: number | null; // Mark price within this % of the liquidation price starts a blackout
+    blackoutMinutes: number; // No openings for this long after a liquidation-distance breach
+}
+
+export type GuardrailCode =
+    | 'KILL_SWITCH'
+    | 'DAILY_LOSS' // { value, limit }
+    | 'CONSECUTIVE_LOSSES' // { value, limit }
+    | 'TRADES_PER_DAY' // { value, limit }
+    | 'MAX_NOTIONAL' // { value, limit }
+    | 'LIQUIDATION_BLACKOUT'; // { limit, minutes }
+
+export interface GuardrailTrip {
+    code: GuardrailCode;
+    params?: MessageParams; // For the guardrail.<code> message
+}
+
+export interface GuardrailState {
+    contract: string;
+    source: PositionSource;
+    day: string; // UTC date the counters belong to, 'YYYY-MM-DD'
+    realized_pnl: number;
+    trades: number;
+    consecutive_losses: number;
+    last_close_time: number | null; // Newest close counted, so each close is counted once however often it's seen
+    blackout_until: number | null;
+    kill_switch: boolean; // Set and released by hand (/api/guardrails)
+    tripped: GuardrailTrip[]; // As of the last evaluation
+    updated_at: number;
+}
+
+// A closed trade as the counters see it (paper trade or exchange close)
+export interface GuardrailClose {
+    time: number;
+    pnl: number;
+}
+
+const round = (value: number, digits = 2) => {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+};
+
+export const utcDay = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+// Start of the UTC day containing `time` (ms)
+export const utcDayStart = (time: number): number => Date.parse(`${utcDay(time)}T00:00:00Z`);
+
+export const newGuardrailState = (contract: string, source: PositionSource, now: number): GuardrailState => ({
+    contract,
+    source,
+    day: utcDay(now),
+    realized_pnl: 0,
+    trades: 0,
+    consecutive_losses: 0,
+    last_close_time: null,
+    blackout_until: null,
+    kill_switch: false,
+    tripped: [],
+    updated_at: now,
+});
+
+// Counters start over each UTC day; the kill switch, blackout and last close carry over
+function rollDay(state: GuardrailState, now: number): GuardrailState {
+    const day = utcDay(now);
+    if (state.day === day) return state;
+    return { ...state, day, realized_pnl: 0, trades: 0, consecutive_losses: 0, tripped: [] };
+}
+
+// Adds closes newer than the last one counted; closes from earlier days only advance the marker
+export function recordCloses(state: GuardrailState, closes: GuardrailClose[], now: number): GuardrailState {
+    let next = { ...rollDay(state, now), updated_at: now };
+    [...closes].sort((a, b) => a.time - b.time).forEach(close => {
+        if (next.last_close_time !== null && close.time <= next.last_close_time) return;
+        next = { ...next, last_close_time: close.time };
+        if (utcDay(close.time) !== next.day) return;
+        next.realized_pnl = round(next.realized_pnl + close.pnl);
+        next.trades += 1;
+        next.consecutive_losses = close.pnl < 0 ? next.consecutive_losses + 1 : 0;
+    });
+    return next;
+}
+
+// Distance from the mark price to the liquidation price, % of the mark price
+export function liquidationDistancePct(position: PositionInfoFromAPI, price: number | null): number | null {
+    const mark = position.markPrice ?? price;
+    if (!position.liquidationPrice || !mark) return null;
+    return (Math.abs(mark - position.liquidationPrice) / mark) * 100;
+}
+
+// Limits that depend only on the stored state (what /api/execute checks before an order)
+export function accountTrips(state: GuardrailState, config: GuardrailConfig, now: number): GuardrailTrip[] {
+    const current = rollDay(state, now);
+    const trips: GuardrailTrip[] = [];
+    if (current.kill_switch) trips.push({ code: 'KILL_SWITCH' });
+    if (config.maxDailyLoss !== null && current.realized_pnl <= -config.maxDailyLoss) {
+        trips.push({ code: 'DAILY_LOSS', params: { value: round(-current.realized_pnl), limit: config.maxDailyLoss } });
+    }
+    if (config.maxConsecutiveLosses !== null && current.consecutive_losses >= config.maxConsecutiveLosses) {
+        trips.push({ code: 'CONSECUTIVE_LOSSES', params: { value: current.consecutive_losses, limit: config.maxConsecutiveLosses } });
+    }
+    if (config.maxTradesPerDay !== null && current.trades >= config.maxTradesPerDay) {
+        trips.push({ code: 'TRADES_PER_DAY', params: { value: current.trades, limit: config.maxTradesPerDay } });
+    }
+    if (current.blackout_until !== null && current.blackout_until > now) {
+        trips.push({ code: 'LIQUIDATION_BLACKOUT', params: { limit: config.liquidationBufferPct, minutes: config.blackoutMinutes } });
+    }
+    return trips;
+}
+
+// Full check for a recommendation: account limits, the liquidation distance of the held
+// position (which (re)starts the blackout) and the notional of the held or planned position
+export function evaluateGuardrails(
+    state: GuardrailState,
+    config: GuardrailConfig,
+    recommendation: Recommendation,
+    position: PositionInfoFromAPI | null,
+    price: number | null,
+    now: number
+): GuardrailState {
+    let next = { ...rollDay(state, now), updated_at: now };
+    const distance = position ? liquidationDistancePct(position, price) : null;
+    if (config.liquidationBufferPct !== null && distance !== null && distance < config.liquidationBufferPct) {
+        next = { ...next, blackout_until: now + config.blackoutMinutes * 60 * 1000 };
+    }
+
+    const tripped = accountTrips(next, config, now);
+    const notional = position
+        ? position.value ?? null
+        : recommendation.action.startsWith('OPEN_') ? recommendation.trade_plan?.sizing?.notional ?? null : null;
+    if (config.maxNotional !== null && notional !== null && notional > config.maxNotional) {
+        tripped.push({ code: 'MAX_NOTIONAL', params: { value: round(notional), limit: config.maxNotional } });
+    }
+    return { ...next, tripped };
+}
+
+const CLOSE_ACTION = { long: 'CLOSE_LONG', short: 'CLOSE_SHORT' } as const;
+
+// Forces the recommendation to WAIT (flat) or CLOSE (holding), the tripped guardrails first among the reasons
+export function applyGuardrails(recommendation: Recommendation, tripped: GuardrailTrip[]): Recommendation {
+    if (tripped.length === 0) return recommendation;
+    const reasons: RecommendationReason[] = tripped.map(trip => ({
+        code: 'GUARDRAIL_TRIPPED',
+        params: { guardrail: { key: `guardrail.${trip.code}`, params: trip.params } },
+    }));
+    const { action, side } = recommendation;
+
+    if (action === 'OPEN_LONG' || action === 'OPEN_SHORT') {
+        return { action: 'WAIT', side: null, level: 'High', reasons };
+    }
+    if ((action === 'HOLD_LONG' || action === 'HOLD_SHORT') && side) {
+        return { action: CLOSE_ACTION[side], side, level: 'High', reasons };
+    }
+    if (action === 'WAIT' || action.startsWith('CLOSE_')) {
+        return { ...recommendation, level: 'High', reasons: [...reasons, ...recommendation.reasons] };
+    }
+    return recommendation; // NO_DATA / INVALID_STATE
+}
@@ -1,18 +1,9 @@
-import { CandleData } from './types'; // Assuming CandleData includes new indicators or use a more specific type
-
-// Define expected structure for position data from Gate.io API
-interface PositionInfo {
-    side: 'long' | 'short';
-    entryPrice: number;
-    liquidationPrice: number | null; // Liquidation price might be null if no position or other reasons
-}
-
-// Define structure for the score details
-interface ScoreDetail {
-    condition: string;
-    met: boolean;
-    score: number;
-}
+import { CandleData, PositionInfoFromAPI, ScoreDetail } from './types'; // Assuming CandleData includes new indicators or use a more specific type
+import { DEFAULT_STRATEGY_CONFIG, type StrategyConfig } from './strategyConfig';
+import { indicatorValue } from './indicatorRegistry';
+import type { TrendFilterResult } from './timeframes';
+import type { MarketRegime } from './regime';
+import { DEFAULT_LOCALE, translate, type MessageParams } from './i18n';
 
 // Helper to calculate SMA for ATR MA
 const sma = (arr: (number | null)[], period: number): number | null => {
@@ -28,118 +19,162 @@ const sma = (arr: (number | null)[], period: number): number | null => {
     return slice.reduce((a, b) => a + b, 0) / period;
 };
 
+export interface HoldabilityOptions {
+    assets?: { base: string; reference: string }; // Asset names for the sync label (default ETH / BTC)
+    config?: StrategyConfig;
+    regime?: MarketRegime; // Current market regime; falls back to the ATR-vs-MA ranging check when absent
+    now?: number; // For the trade age check (default Date.now())
+}
+
+// Highest reachable score: the weights of every evaluated condition.
+// Conditions whose position data is unavailable are left out rather than counted as failed.
+export const holdabilityMaxScore = (details: ScoreDetail[]): number =>
+    details.reduce((sum, d) => sum + (d.weight ?? 0), 0);
 
 export function calculateHoldabilityScore(
     data: CandleData[], // 1m data with all indicators calculated
-    position: PositionInfo | null, // Current position details, null if no position
-    btcData: CandleData[], // Last 2 candles of 1m BTC data
-    ema15mData: CandleData[] // Last 2 candles of 15m ETH data with EMA15 calculated
-): { score: number; details: ScoreDetail[] } {
+    position: PositionInfoFromAPI | null, // Current position details, null if no position
+    refData: CandleData[], // Last 2 candles of 1m reference contract data (e.g. BTC)
+    trendFilters: TrendFilterResult[], // Higher-timeframe trend levels (e.g. 15m EMA15)
+    options: HoldabilityOptions = {}
+): { score: number; maxScore: number; details: ScoreDetail[] } {
+    const { assets = { base: 'ETH', reference: 'BTC' }, config = DEFAULT_STRATEGY_CONFIG, regime, now = Date.now() } = options;
+    const { holdability } = config;
 
     const details: ScoreDetail[] = [];
     let totalScore = 0;
+    // Labels are message keys (lib/i18n); `condition` keeps the default-locale text
+    const addCondition = (key: string, params: MessageParams, met: boolean, weight: number) => {
+        const score = met ? weight : 0;
+        totalScore += score;
+        details.push({ condition: translate(DEFAULT_LOCALE, key, params), met, score, weight, key, params });
+    };
 
     // Default score if no position or insufficient data
-    if (!position || data.length < 2 || btcData.length < 2 || ema15mData.length < 2) {
+    if (!position || data.length < 2 || refData.length < 2) {
         // Return default score details indicating why scoring wasn't possible
-         details.push({ condition: '持仓或数据不足', met: false, score: 0 });
-         return { score: 0, details };
+         details.push({ condition: translate(DEFAULT_LOCALE, 'holdability.insufficient'), met: false, score: 0, key: 'holdability.insufficient' });
+         return { score: 0, maxScore: 0, details };
     }
 
     const latest = data[data.length - 1];
     const prev = data[data.length - 2];
-    const latest15m = ema15mData[ema15mData.length - 1];
-    // Assume EMA15 is calculated and added to ema15mData objects in the API route
-    const ema15 = latest15m.EMA15 ?? null; // Need to ensure EMA15 is calculated and added
 
     const currentPrice = latest.close;
-    const currentATR = latest.ATR14 ?? 0; // Use 0 if null
+    const currentATR = indicatorValue(latest, 'ATR14') ?? 0; // Use 0 if null
+    const vma = indicatorValue(latest, 'VMA20');
 
     // --- Scoring Logic ---
 
-    // 1. Structure (+2) - Based on 15m EMA
-    let structureMet = false;
-    if (ema15 !== null) {
-        if (position.side === 'long' && currentPrice > ema15) {
-            structureMet = true;
-        } else if (position.side === 'short' && currentPrice < ema15) {
-            structureMet = true;
-        }
-    }
-    const structureScore = structureMet ? 2 : 0;
-    totalScore += structureScore;
-    details.push({ condition: '结构未破坏 (vs 15m EMA)', met: structureMet, score: structureScore });
+    // 1. Structure (+2) - Price still on the position's side of every higher-timeframe trend level
+    const structureLevels = trendFilters.filter(f => f.value !== null);
+    const structureMet = structureLevels.length > 0 && structureLevels.every(f =>
+        position.side === 'long' ? currentPrice > f.value! : currentPrice < f.value!
+    );
+    const structureLabel = trendFilters.length > 0 ? trendFilters.map(f => f.label).join(' / ') : '15m EMA';
+    addCondition('holdability.structure', { levels: structureLabel }, structureMet, 2);
 
     // 2. No Bad Bar (+2) - Check last opposing bar
     let noBadBarMet = true; // Assume true unless proven otherwise
     const lastBarDirection = latest.close > latest.open ? 'long' : 'short';
     if (lastBarDirection !== position.side) { // Check only if the last bar was opposing
         const lastBarVolume = latest.volume;
-        const vma20 = latest.VMA20 ?? Infinity; // Treat null VMA as very high to fail the volume check safely
         const lastBarBody = Math.abs(latest.close - latest.open);
-        const atrThreshold = 1.0 * currentATR;
-        const volumeThreshold = (latest.VMA20 ?? 0) * 1.5; // Use VMA20 if available
+        const atrThreshold = holdability.badBarAtrMultiple * currentATR;
+        const volumeThreshold = (vma ?? 0) * holdability.badBarVolumeMultiplier; // Use VMA if available
 
         if (lastBarVolume > volumeThreshold && lastBarBody > atrThreshold) {
             noBadBarMet = false; // It was a bad bar (high volume AND large body)
         }
     }
-    const noBadBarScore = noBadBarMet ? 2 : 0;
-    totalScore += noBadBarScore;
-    details.push({ condition: '无放量剧烈反向K线', met: noBadBarMet, score: noBadBarScore });
-
-    // 3. Ranging (+1) - Based on ATR vs ATR MA(20)
-    let rangingMet = false;
-    const atrHistory = data.slice(-20).map(d => d.ATR14); // Get last 20 ATRs
-    const atrMA20 = sma(atrHistory, 20);
-    if (atrMA20 !== null && currentATR < atrMA20) {
-        rangingMet = true;
+    addCondition('holdability.noBadBar', {}, noBadBarMet, 2);
+
+    // 3. Regime (+1) - Range or a trend in the position's direction; no shock, no opposing trend
+    if (regime) {
+        const alignedTrend = position.side === 'long' ? 'trend_up' : 'trend_down';
+        const regimeMet = regime === 'range' || regime === alignedTrend;
+        addCondition('holdability.regime', { regime: { key: `regime.${regime}` } }, regimeMet, 1);
+    } else {
+        const atrMaPeriod = holdability.atrMaPeriod;
+        const atrHistory = data.slice(-atrMaPeriod).map(d => indicatorValue(d, 'ATR14')); // Get last N ATRs
+        const atrMA = sma(atrHistory, atrMaPeriod);
+        addCondition('holdability.ranging', { period: atrMaPeriod }, atrMA !== null && currentATR < atrMA, 1);
     }
-    const rangingScore = rangingMet ? 1 : 0;
-    totalScore += rangingScore;
-    details.push({ condition: '当前为震荡行情阶段 (ATR < ATR MA20)', met: rangingMet, score: rangingScore });
 
     // 4. Entry Location (+2) - Based on BBands and ATR
     let locationMet = false;
-    const bbLower = latest.BB_Lower ?? -Infinity;
-    const bbUpper = latest.BB_Upper ?? Infinity;
+    const bbLower = indicatorValue(latest, 'BB_Lower') ?? -Infinity;
+    const bbUpper = indicatorValue(latest, 'BB_Upper') ?? Infinity;
     const entryPrice = position.entryPrice;
-    const atrOffset = 0.5 * currentATR;
+    const atrOffset = holdability.entryAtrOffset * currentATR;
 
     if (position.side === 'long' && entryPrice < (bbLower + atrOffset)) {
         locationMet = true;
     } else if (position.side === 'short' && entryPrice > (bbUpper - atrOffset)) {
         locationMet = true;
     }
-    const locationScore = locationMet ? 2 : 0;
-    totalScore += locationScore;
-    details.push({ condition: '开仓靠近支撑/阻力 (BBands ± 0.5*ATR)', met: locationMet, score: locationScore });
-
-
-    // 5. Liq Distance (+1)
-    let liqDistMet = false;
-    if (position.liquidationPrice !== null) {
-        if (Math.abs(currentPrice - position.liquidationPrice) >= 300) {
-            liqDistMet = true;
-        }
+    addCondition('holdability.entryLocation', { offset: holdability.entryAtrOffset }, locationMet, 2);
+
+
+    // 5. Liq Distance (+1) - In ATR multiples from the mark price, so it scales with price and volatility
+    const markPrice = position.markPrice ?? currentPrice;
+    const liqDistanceAtr = position.liquidationPrice !== null && currentATR > 0
+        ? Math.abs(markPrice - position.liquidationPrice) / currentATR
+        : null;
+    const liqDistMet = liqDistanceAtr !== null && liqDistanceAtr >= holdability.liquidationAtrMultiple;
+    addCondition(
+        'holdability.liquidation',
+        { multiple: holdability.liquidationAtrMultiple, current: liqDistanceAtr !== null ? liqDistanceAtr.toFixed(1) : 'N/A' },
+        liqDistMet,
+        1
+    );
+
+    // 6. Reference Sync (+1)
+    let refSyncMet = false;
+    const latestRef = refData[refData.length - 1];
+    const prevRef = refData[refData.length - 2];
+    const baseDirection = latest.close > prev.close; // True for up, False for down
+    const refDirection = latestRef.close > prevRef.close; // True for up, False for down
+    if (baseDirection === refDirection) {
+        refSyncMet = true;
     }
-    const liqDistScore = liqDistMet ? 1 : 0;
-    totalScore += liqDistScore;
-    details.push({ condition: '强平价距离远 (≥ $300)', met: liqDistMet, score: liqDistScore });
-
-    // 6. BTC Sync (+1)
-    let btcSyncMet = false;
-    const latestBtc = btcData[btcData.length - 1];
-    const prevBtc = btcData[btcData.length - 2];
-    const ethDirection = latest.close > prev.close; // True for up, False for down
-    const btcDirection = latestBtc.close > prevBtc.close; // True for up, False for down
-    if (ethDirection === btcDirection) {
-        btcSyncMet = true;
+    addCondition('holdability.referenceSync', { base: assets.base, reference: assets.reference }, refSyncMet, 1);
+
+    // 7. Drawdown in R (+1) - Adverse move from entry, with 1R = ATR * riskAtrMultiple
+    const riskUnit = currentATR * holdability.riskAtrMultiple;
+    if (riskUnit > 0) {
+        const adverseMove = position.side === 'long' ? entryPrice - markPrice : markPrice - entryPrice;
+        const drawdownR = Math.max(0, adverseMove) / riskUnit;
+        addCondition(
+            'holdability.drawdown',
+            { max: holdability.maxDrawdownR, current: drawdownR.toFixed(2) },
+            drawdownR < holdability.maxDrawdownR,
+            1
+        );
     }
-    const btcSyncScore = btcSyncMet ? 1 : 0;
-    totalScore += btcSyncScore;
-    details.push({ condition: 'ETH 与 BTC 同方向运动 (Last Bar)', met: btcSyncMet, score: btcSyncScore });
 
+    // 8. Funding Cost (+1) - Funding paid since open relative to margin
+    if (position.fundingPnl != null && position.margin) {
+        const fundingCostPct = (Math.max(0, -position.fundingPnl) / position.margin) * 100;
+        addCondition(
+            'holdability.funding',
+            { max: holdability.maxFundingCostPct, current: fundingCostPct.toFixed(2) },
+            fundingCostPct <= holdability.maxFundingCostPct,
+            1
+        );
+    }
+
+    // 9. Trade Age (+1) - A position that has not worked for too long stops counting as holdable
+    if (position.openTimeMs) {
+        const ageMinutes = Math.max(0, (now - position.openTimeMs) / 60000);
+        const inProfit = (position.unrealisedPnl ?? 0) > 0;
+        addCondition(
+            'holdability.age',
+            { max: holdability.maxHoldMinutes, current: Math.round(ageMinutes) },
+            ageMinutes <= holdability.maxHoldMinutes || inProfit,
+            1
+        );
+    }
 
-    return { score: totalScore, details };
+    return { score: totalScore, maxScore: holdabilityMaxScore(details), details };
 }
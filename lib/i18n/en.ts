@@ -0,0 +1,266 @@
+import type { Messages } from './index';
+
+// Missing keys fall back to the zh-CN catalog.
+
+export const en: Messages = {
+    'common.loading': 'Loading...',
+    'common.error': 'Error: {message}',
+    'locale.label': 'Language',
+
+    'side.long': 'Long',
+    'side.short': 'Short',
+    'position.flat': 'Flat',
+    'position.long': 'Long',
+    'position.short': 'Short',
+    'trend.up': 'Up',
+    'trend.down': 'Down',
+    'trend.flat': 'Flat',
+    'regime.trend_up': 'Uptrend',
+    'regime.trend_down': 'Downtrend',
+    'regime.range': 'Range',
+    'regime.shock': 'Shock',
+
+    'app.title': '{asset} Scalping Assistant',
+    'index.barsClosedOnly': 'Closed bars only',
+    'index.barsClosedOnlyHint': 'Compute signals from closed bars only',
+    'index.viewHistory': 'History',
+    'index.loadError': 'Failed to load signal: {message}',
+    'index.noData': 'No signal data available.',
+    'index.footer': 'Refreshes every 60 s | Strategy config {version} | Powered by Gate.io API',
+    'notify.long': '{asset} strong long signal! ({score}/{max})',
+    'notify.short': '{asset} strong short signal! ({score}/{max})',
+    'notify.details': 'View details',
+
+    'card.dataTime': 'Data time',
+    'card.barClosed': 'Closed bar',
+    'card.barLive': 'Live bar',
+    'card.closePrice': 'Close',
+    'card.currentPrice': 'Price',
+    'card.livePrice': 'Live',
+    'card.htfTrend': 'Higher-timeframe trend',
+    'card.fng': 'Fear & Greed',
+    'card.btcDailyTrend': 'BTC daily trend',
+    'card.regime': 'Regime',
+    'card.atrRatio': 'ATR ratio',
+    'card.dataQuality': 'Candle data degraded, signal confidence is low:',
+    'card.dataQuality.series': '{name} missing {missing} bars, {invalid} invalid rows',
+    'card.dataQuality.seriesFilled': '{name} missing {missing} bars ({filled} filled), {invalid} invalid rows',
+    'card.position': 'Position & holdability',
+    'card.side': 'Side',
+    'card.entryPrice': 'Entry',
+    'card.liquidationPrice': 'Liquidation',
+    'card.size': 'Size: {size} contracts',
+    'card.cross': 'cross',
+    'card.markPrice': 'Mark',
+    'card.unrealisedPnl': 'Unrealised PnL',
+    'card.funding': 'funding',
+    'card.holdTime': 'Held for {minutes} min',
+    'card.holdability': 'Holdability score',
+    'card.openingScore': 'Opening signal score (Max: {max})',
+    'card.longScore': 'Long score',
+    'card.shortScore': 'Short score',
+    'card.confirmation': 'Confirmation ({confirm} of {window} bars)',
+    'card.confirmed.long': 'Long confirmed',
+    'card.confirmed.short': 'Short confirmed',
+    'card.confirmed.none': 'None',
+    'card.confirmationHits': 'Long {long}/{confirm} · Short {short}/{confirm}',
+    'card.indicators': 'Key indicators (1m)',
+    'card.vwap': 'VWAP (from {anchor} {time})',
+    'card.vwapTruncated': 'VWAP (from {anchor} {time}, history truncated)',
+    'card.vwapPosition': 'Position',
+    'vwap.anchor.utc_day': 'UTC day',
+    'vwap.anchor.swing': 'last swing',
+    'vwap.anchor.position_entry': 'position entry',
+
+    'decision.title': 'Recommendation',
+    'decision.basedOn': 'Actual position',
+    'plan.title': 'Trade plan ({side})',
+    'plan.side.long': 'long',
+    'plan.side.short': 'short',
+    'plan.entryZone': 'Entry zone',
+    'plan.stop': 'Stop',
+    'plan.risk': 'risk {pct}%',
+    'plan.targets': 'Targets',
+    'plan.rewardRisk': 'Reward/risk (R:R)',
+    'plan.stopMode.atr': 'ATR',
+    'plan.stopMode.band': 'Bollinger band',
+    'plan.stopMode.swing': 'swing',
+    'sizing.contracts': 'Size',
+    'sizing.contractsValue': '{contracts} contracts',
+    'sizing.notional': 'Notional: {notional} {currency} ({leverage}x, margin {margin})',
+    'sizing.lossAtStop': 'Loss at stop: {loss} (target {pct}% = {amount})',
+    'sizing.equity': 'Equity',
+    'sizing.source.exchange': 'exchange',
+    'sizing.source.manual': 'manual',
+    'sizing.source.paper': 'paper account',
+    'sizing.limit.risk': 'risk based',
+    'sizing.limit.leverage': 'capped by leverage',
+    'sizing.limit.max_notional': 'capped by max notional',
+    'sizing.limit.order_size_max': 'capped by max order size',
+    'sizing.limit.order_size_min': 'below min order size',
+    'trailing.label': 'Trailing stop',
+    'trailing.distance': '{atr} ATR from price',
+    'trailing.basis.long': '{bars}-bar high - {multiple}*ATR',
+    'trailing.basis.short': '{bars}-bar low + {multiple}*ATR',
+    'trailing.basis.initial': 'initial stop (1R)',
+    'trailing.basis.chandelier.long': 'high since entry - {multiple}*ATR',
+    'trailing.basis.chandelier.short': 'low since entry + {multiple}*ATR',
+    'trailing.basis.ema10.long': 'EMA10 - {multiple}*ATR',
+    'trailing.basis.ema10.short': 'EMA10 + {multiple}*ATR',
+    'trailing.basis.break_even': 'break-even after {r}R in profit',
+    'trailing.mode.chandelier': 'ATR chandelier',
+    'trailing.mode.ema10': 'EMA10 trail',
+    'trailing.mode.break_even': 'break-even',
+    'trailing.best': 'Best price since entry',
+    'trailing.breached': 'breached',
+
+    'action.OPEN_LONG': 'Suggest: open long',
+    'action.OPEN_SHORT': 'Suggest: open short',
+    'action.WAIT': 'Suggest: wait',
+    'action.HOLD_LONG': 'Suggest: hold long / trail stop',
+    'action.HOLD_SHORT': 'Suggest: hold short / trail stop',
+    'action.CLOSE_LONG': 'Suggest: consider closing long (holding risk high)',
+    'action.CLOSE_SHORT': 'Suggest: consider closing short (holding risk high)',
+    'action.CLOSE_LONG_URGENT': 'Suggest: close long now (risk signal)',
+    'action.CLOSE_SHORT_URGENT': 'Suggest: close short now (risk signal)',
+    'action.NO_DATA': 'Insufficient data',
+    'action.INVALID_STATE': 'Invalid state',
+    'level.High': 'high confidence',
+    'level.Medium': 'medium confidence',
+    'level.Low': 'low confidence',
+
+    'reason.SIGNAL_CONDITION': '{condition}',
+    'reason.CONFIRMATION_PENDING': '{side} signal confirming ({hits}/{confirmBars}, needs {confirmBars} of {windowBars} bars)',
+    'reason.FNG_EXTREME_GREED': 'Caution: extreme greed, avoid chasing longs',
+    'reason.FNG_EXTREME_FEAR': 'Caution: extreme fear, avoid chasing shorts',
+    'reason.LOW_CONFIDENCE_DATA': 'Caution: candle data has gaps or anomalies, low signal confidence',
+    'reason.SHOCK_REGIME': 'Caution: market in a volatility shock, open with care',
+    'reason.SCORE_BELOW_THRESHOLD': 'Opening score below threshold or direction unclear',
+    'reason.BTC_DAILY_TREND': 'BTC daily trend: {trend}',
+    'reason.MARKET_REGIME': 'Market regime: {regime}',
+    'reason.COUNTER_SIGNAL': 'Strong {side} signal (score: {score})',
+    'reason.HOLDABILITY_LOW': 'Low holdability score ({score}/{max})',
+    'reason.HOLDABILITY_RISK': 'Risk: {condition}',
+    'reason.HOLDABILITY_SCORE': 'Holdability score: {score}/{max}',
+    'reason.RISK_OK': 'Key risk checks look fine',
+    'reason.TRAILING_STOP': 'Trail the stop to {level} ({basis})',
+    'reason.TRAILING_STOP_HIT': 'Price closed through the trailing stop at {level} ({basis})',
+    'reason.WATCH_TRAILING': 'Watch for a trailing stop or safety line',
+    'reason.GUARDRAIL_TRIPPED': 'Risk guardrail: {guardrail}',
+    'reason.AWAITING_DATA': 'Waiting for signal data...',
+    'reason.UNKNOWN_POSITION': 'Unrecognised position state',
+
+    'rule.ema_trend.long': 'EMA{indicators.emaFast} > EMA{indicators.emaSlow} (short-term bullish)',
+    'rule.ema_trend.short': 'EMA{indicators.emaFast} < EMA{indicators.emaSlow} (short-term bearish)',
+    'rule.bb_breakout.long': 'Price breaks above upper Bollinger band',
+    'rule.bb_breakout.short': 'Price breaks below lower Bollinger band',
+    'rule.stoch_cross.long': 'Stoch %K crosses above %D (momentum rising)',
+    'rule.stoch_cross.short': 'Stoch %K crosses below %D (momentum falling)',
+    'rule.volume_expansion': 'Volume expansion ( > VMA{indicators.vmaPeriod} * {opening.volumeMultiplier})',
+    'rule.vwap_band.long': 'Price > VWAP within +{opening.vwapMaxBand}σ (intraday bullish)',
+    'rule.vwap_band.short': 'Price < VWAP within -{opening.vwapMaxBand}σ (intraday bearish)',
+    'rule.htf_trend.long': 'Aligned with {trendLabel} trend (up)',
+    'rule.htf_trend.short': 'Aligned with {trendLabel} trend (down)',
+    'rule.reference_sync.long': '{referenceAsset} rising in sync',
+    'rule.reference_sync.short': '{referenceAsset} falling in sync',
+    'score.insufficientData': 'Insufficient data',
+
+    'holdability.insufficient': 'No position or insufficient data',
+    'holdability.structure': 'Structure intact (vs {levels})',
+    'holdability.noBadBar': 'No high-volume adverse bar',
+    'holdability.regime': 'Favourable regime (now: {regime})',
+    'holdability.ranging': 'Ranging phase (ATR < ATR MA{period})',
+    'holdability.entryLocation': 'Entry near support/resistance (BBands ± {offset}*ATR)',
+    'holdability.liquidation': 'Liquidation far away (≥ {multiple}*ATR, now: {current})',
+    'holdability.referenceSync': '{base} moving with {reference} (last bar)',
+    'holdability.drawdown': 'Drawdown under {max}R (now: {current}R)',
+    'holdability.funding': 'Funding cost contained (≤ {max}% of margin, now: {current}%)',
+    'holdability.age': 'Held under {max} min or in profit (now: {current} min)',
+
+    'history.title': 'Signal & Trade History',
+    'history.back': 'Back to dashboard',
+    'history.loading': 'Loading history...',
+    'history.loadError': 'Failed to load history: {message}',
+    'history.signals': 'Signal history (with matched trades)',
+    'history.liveBarNote': '* signal computed on a live (unclosed) bar',
+    'history.liveBarHint': 'Computed on a live bar',
+    'history.empty': 'No signal history yet.',
+    'history.col.time': 'Signal time',
+    'history.col.price': 'Signal price',
+    'history.col.btcTrend': 'BTC Trend',
+    'history.col.htfTrend': 'HTF Trend',
+    'history.col.regime': 'Regime',
+    'history.col.longScore': 'Long',
+    'history.col.shortScore': 'Short',
+    'history.col.position': 'Position',
+    'history.col.holdability': 'Holdability',
+    'history.col.action': 'Action',
+    'history.col.config': 'Config',
+    'history.col.tradeTime': 'Matched trade time',
+    'history.col.avgPrice': 'Avg price',
+    'history.col.slippage': 'Slippage',
+
+    'paper.toggle': 'Paper',
+    'paper.toggleHint': 'Use a virtual position instead of the exchange position; opens and closes follow the recommendations on closed bars',
+    'paper.title': 'Paper trading',
+    'paper.reset': 'Reset',
+    'paper.resetConfirm': 'Reset the {contract} paper account and clear its trade log?',
+    'paper.resetFailed': 'Reset failed: {message}',
+    'paper.loadError': 'Error loading the paper account: {message}',
+    'paper.equity': 'Equity',
+    'paper.balance': 'Balance',
+    'paper.return': 'Return',
+    'paper.realized': 'Realised PnL',
+    'paper.unrealized': 'Unrealised PnL',
+    'paper.winRate': 'Win rate: {wins} / {trades} trades',
+    'paper.position': 'Virtual position',
+    'paper.positionDetail': '{side} {contracts} contracts @ {price}',
+    'paper.openedAt': 'opened {time}',
+    'paper.trades': 'Paper trades',
+    'paper.noTrades': 'No paper trades yet.',
+    'paper.col.side': 'Side',
+    'paper.col.entry': 'Entry',
+    'paper.col.exit': 'Exit',
+    'paper.col.contracts': 'Contracts',
+    'paper.col.pnl': 'PnL',
+    'paper.col.exitAction': 'Exit reason',
+
+    'exec.disabled': 'Order execution is disabled (EXECUTION_ENABLED)',
+    'exec.mode.dryRun': 'Dry run: requests are recorded, not sent',
+    'exec.mode.live': 'Live orders',
+    'exec.arm': 'Arm',
+    'exec.armed': 'Armed; orders can be confirmed',
+    'exec.armedUntil': 'Armed until {time}',
+    'exec.disarm': 'Disarm',
+    'exec.disarmed': 'Disarmed',
+    'exec.confirm': 'Confirm order',
+    'exec.confirmDryRun': 'Dry-run {action} on {contract} ({size} contracts)? No order will be sent.',
+    'exec.confirmLive': 'Send a real {action} order on {contract} ({size} contracts) to the exchange?',
+    'exec.cancelTriggers': 'Cancel TP/SL',
+    'exec.cancelled': 'Stop-loss and take-profit triggers cancelled',
+    'exec.cancelDryRun': 'Dry run: cancel request recorded',
+    'exec.failed': 'Execution failed: {message}',
+    'exec.tokenPrompt': 'Execution token (EXECUTION_TOKEN on the server):',
+    'exec.status.dry_run': 'Dry run complete; requests written to the audit log ({key})',
+    'exec.status.filled': 'Filled; stop-loss and take-profit placed ({key})',
+    'exec.status.not_filled': 'Not filled; no triggers placed ({key})',
+    'exec.status.unprotected': 'Filled, but placing stop-loss/take-profit failed. Set them manually! ({key})',
+    'exec.status.triggers_left': 'Closed, but cancelling the stop-loss/take-profit triggers failed. Cancel them manually! ({key})',
+    'exec.status.failed': 'Order failed, see the audit log ({key})',
+
+    'guardrail.KILL_SWITCH': 'Kill switch engaged',
+    'guardrail.DAILY_LOSS': 'Realised loss today {value} reached the limit of {limit}',
+    'guardrail.CONSECUTIVE_LOSSES': '{value} losing trades in a row, limit {limit}',
+    'guardrail.TRADES_PER_DAY': '{value} trades closed today, limit {limit}',
+    'guardrail.MAX_NOTIONAL': 'Position notional {value} exceeds the limit of {limit}',
+    'guardrail.LIQUIDATION_BLACKOUT': 'Mark price came within {limit}% of liquidation; no openings for {minutes} minutes',
+    'guardrail.title': 'Risk guardrail tripped: openings become wait, positions should be closed',
+    'guardrail.today': 'Today (UTC): realised {pnl}, {trades} trades closed, {losses} losses in a row',
+    'guardrail.blackoutUntil': 'Blackout until {time}',
+    'guardrail.kill': 'Kill switch',
+    'guardrail.killConfirm': 'Engage the kill switch for {contract}? Every opening recommendation becomes wait until released.',
+    'guardrail.release': 'Release kill switch',
+    'guardrail.reset': 'Reset counters for today',
+    'guardrail.resetConfirm': 'Clear the loss, trade count and blackout for {contract} today?',
+    'guardrail.failed': 'Action failed: {message}',
+};
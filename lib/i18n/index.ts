@@ -0,0 +1,65 @@
+import { zhCN } from './zh-CN';
+import { en } from './en';
+
+// Message catalogs and locale-aware formatting.
+// Scoring and recommendation code emit stable message keys with parameters
+// (see ScoreDetail.key, RecommendationReason); text is only produced here.
+
+export type Locale = 'zh-CN' | 'en';
+
+export const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+    { id: 'zh-CN', label: '中文' },
+    { id: 'en', label: 'English' },
+];
+
+export type Messages = Record<string, string>;
+
+// A translatable value: nested refs let parameters carry their own keys (e.g. a regime name)
+export interface MessageRef {
+    key: string;
+    params?: MessageParams;
+    text?: string; // Fallback when no catalog has the key (e.g. custom scoring rules)
+}
+
+export type MessageParam = string | number | boolean | null | undefined | MessageRef;
+export type MessageParams = Record<string, MessageParam>;
+
+const CATALOGS: Record<Locale, Messages> = { 'zh-CN': zhCN, en };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+// Closest supported locale for a BCP 47 tag such as navigator.language
+export function matchLocale(tag: string | null | undefined): Locale {
+    if (isLocale(tag)) return tag;
+    return tag?.toLowerCase().startsWith('zh') ? 'zh-CN' : tag ? 'en' : DEFAULT_LOCALE;
+}
+
+// Catalog entry for the locale, then the default locale, then the fallback text, then the key
+export function translate(locale: Locale, key: string, params: MessageParams = {}, fallback?: string): string {
+    const template = CATALOGS[locale]?.[key] ?? CATALOGS[DEFAULT_LOCALE][key] ?? fallback ?? key;
+    return template.replace(/\{([\w.]+)\}/g, (match, name: string) => {
+        if (!(name in params)) return match;
+        const value = params[name];
+        if (value === null || value === undefined) return '--';
+        if (typeof value === 'object') return translate(locale, value.key, value.params, value.text);
+        return String(value);
+    });
+}
+
+export const formatMessage = (locale: Locale, ref: MessageRef): string => translate(locale, ref.key, ref.params, ref.text);
+
+export function formatNumber(locale: Locale, value: number | null | undefined, digits = 2): string {
+    if (value === null || value === undefined || isNaN(value)) return '--';
+    return new Intl.NumberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits }).format(value);
+}
+
+export function formatDateTime(
+    locale: Locale,
+    timestampMs: number | null | undefined,
+    options: Intl.DateTimeFormatOptions = { hour12: false }
+): string {
+    if (!timestampMs || isNaN(timestampMs)) return 'N/A';
+    return new Date(timestampMs).toLocaleString(locale, options);
+}
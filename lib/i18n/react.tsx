@@ -0,0 +1,62 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+    DEFAULT_LOCALE,
+    formatDateTime,
+    formatMessage,
+    formatNumber,
+    isLocale,
+    matchLocale,
+    translate,
+    type Locale,
+    type MessageParams,
+    type MessageRef,
+} from './index';
+
+const STORAGE_KEY = 'locale';
+
+export interface I18n {
+    locale: Locale;
+    setLocale: (locale: Locale) => void;
+    t: (key: string, params?: MessageParams, fallback?: string) => string;
+    tm: (ref: MessageRef) => string;
+    n: (value: number | null | undefined, digits?: number) => string;
+    dt: (timestampMs: number | null | undefined, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+const I18nContext = createContext<I18n | null>(null);
+
+export function LocaleProvider({ children }: { children: React.ReactNode }) {
+    // Server render uses the default; the stored or browser locale is applied after mount
+    const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+    useEffect(() => {
+        const stored = window.localStorage.getItem(STORAGE_KEY);
+        setLocaleState(isLocale(stored) ? stored : matchLocale(window.navigator.language));
+    }, []);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    const setLocale = useCallback((next: Locale) => {
+        window.localStorage.setItem(STORAGE_KEY, next);
+        setLocaleState(next);
+    }, []);
+
+    const value = useMemo<I18n>(() => ({
+        locale,
+        setLocale,
+        t: (key, params, fallback) => translate(locale, key, params, fallback),
+        tm: ref => formatMessage(locale, ref),
+        n: (value, digits) => formatNumber(locale, value, digits),
+        dt: (timestampMs, options) => formatDateTime(locale, timestampMs, options),
+    }), [locale, setLocale]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18n {
+    const context = useContext(I18nContext);
+    if (!context) throw new Error('useI18n must be used inside <LocaleProvider>');
+    return context;
+}
@@ -0,0 +1,266 @@
+import type { Messages } from './index';
+
+// Default locale. Keys are grouped by where they are shown; placeholders are {name}.
+
+export const zhCN: Messages = {
+    'common.loading': '加载中...',
+    'common.error': '错误: {message}',
+    'locale.label': '语言',
+
+    'side.long': '多头',
+    'side.short': '空头',
+    'position.flat': '空仓',
+    'position.long': '持多',
+    'position.short': '持空',
+    'trend.up': '上涨',
+    'trend.down': '下跌',
+    'trend.flat': '横盘',
+    'regime.trend_up': '上升趋势',
+    'regime.trend_down': '下降趋势',
+    'regime.range': '震荡区间',
+    'regime.shock': '剧烈波动',
+
+    'app.title': '{asset} Scalping 策略助手',
+    'index.barsClosedOnly': '仅收盘K线',
+    'index.barsClosedOnlyHint': '只用已收盘K线计算信号',
+    'index.viewHistory': '查看历史',
+    'index.loadError': '加载信号时出错: {message}',
+    'index.noData': '无法获取信号数据。',
+    'index.footer': '每 60 秒自动刷新 | 策略配置 {version} | Powered by Gate.io API',
+    'notify.long': '{asset} 高分做多信号! ({score}/{max})',
+    'notify.short': '{asset} 高分做空信号! ({score}/{max})',
+    'notify.details': '查看详情',
+
+    'card.dataTime': '数据时间',
+    'card.barClosed': '已收盘K线',
+    'card.barLive': '未收盘K线',
+    'card.closePrice': '收盘价',
+    'card.currentPrice': '当前价格',
+    'card.livePrice': '实时',
+    'card.htfTrend': '大周期趋势',
+    'card.fng': '恐慌贪婪指数',
+    'card.btcDailyTrend': 'BTC日线趋势',
+    'card.regime': '市场状态',
+    'card.atrRatio': 'ATR比',
+    'card.dataQuality': 'K线数据质量下降，信号可信度低：',
+    'card.dataQuality.series': '{name} 缺失 {missing} 根, 异常 {invalid} 行',
+    'card.dataQuality.seriesFilled': '{name} 缺失 {missing} 根 (已补 {filled}), 异常 {invalid} 行',
+    'card.position': '当前持仓信息 & 扛单评分',
+    'card.side': '方向',
+    'card.entryPrice': '开仓价',
+    'card.liquidationPrice': '强平价',
+    'card.size': '数量: {size} 张',
+    'card.cross': '全仓',
+    'card.markPrice': '标记价',
+    'card.unrealisedPnl': '未实现盈亏',
+    'card.funding': '资金费',
+    'card.holdTime': '持仓时长: {minutes} 分钟',
+    'card.holdability': '扛单能力评分',
+    'card.openingScore': '开仓信号评分 (Max: {max})',
+    'card.longScore': '多头评分',
+    'card.shortScore': '空头评分',
+    'card.confirmation': '信号确认 ({window} 根K线内满足 {confirm} 根)',
+    'card.confirmed.long': '多头已确认',
+    'card.confirmed.short': '空头已确认',
+    'card.confirmed.none': '无',
+    'card.confirmationHits': '多 {long}/{confirm} · 空 {short}/{confirm}',
+    'card.indicators': '关键指标 (1m)',
+    'card.vwap': 'VWAP ({anchor} {time} 起)',
+    'card.vwapTruncated': 'VWAP ({anchor} {time} 起，历史不足)',
+    'card.vwapPosition': '位置',
+    'vwap.anchor.utc_day': 'UTC 日',
+    'vwap.anchor.swing': '最近摆动点',
+    'vwap.anchor.position_entry': '开仓时间',
+
+    'decision.title': '建议操作',
+    'decision.basedOn': '基于实际持仓',
+    'plan.title': '交易计划 ({side})',
+    'plan.side.long': '做多',
+    'plan.side.short': '做空',
+    'plan.entryZone': '入场区间',
+    'plan.stop': '止损',
+    'plan.risk': '风险 {pct}%',
+    'plan.targets': '止盈',
+    'plan.rewardRisk': '盈亏比 (R:R)',
+    'plan.stopMode.atr': 'ATR',
+    'plan.stopMode.band': '布林带',
+    'plan.stopMode.swing': '摆动点',
+    'sizing.contracts': '建议数量',
+    'sizing.contractsValue': '{contracts} 张',
+    'sizing.notional': '名义价值: {notional} {currency} ({leverage}x, 保证金 {margin})',
+    'sizing.lossAtStop': '止损亏损: {loss} (目标 {pct}% = {amount})',
+    'sizing.equity': '账户权益',
+    'sizing.source.exchange': '交易所',
+    'sizing.source.manual': '手动设置',
+    'sizing.source.paper': '模拟账户',
+    'sizing.limit.risk': '按风险比例',
+    'sizing.limit.leverage': '受杠杆限制',
+    'sizing.limit.max_notional': '受最大名义价值限制',
+    'sizing.limit.order_size_max': '受单笔最大数量限制',
+    'sizing.limit.order_size_min': '低于最小下单数量',
+    'trailing.label': '移动止损',
+    'trailing.distance': '距当前价 {atr} ATR',
+    'trailing.basis.long': '{bars}根K线最高价 - {multiple}*ATR',
+    'trailing.basis.short': '{bars}根K线最低价 + {multiple}*ATR',
+    'trailing.basis.initial': '初始止损 (1R)',
+    'trailing.basis.chandelier.long': '入场后最高价 - {multiple}*ATR',
+    'trailing.basis.chandelier.short': '入场后最低价 + {multiple}*ATR',
+    'trailing.basis.ema10.long': 'EMA10 - {multiple}*ATR',
+    'trailing.basis.ema10.short': 'EMA10 + {multiple}*ATR',
+    'trailing.basis.break_even': '浮盈达 {r}R 后移至保本',
+    'trailing.mode.chandelier': 'ATR 吊灯',
+    'trailing.mode.ema10': 'EMA10 跟踪',
+    'trailing.mode.break_even': '保本',
+    'trailing.best': '入场后最优价',
+    'trailing.breached': '已触发',
+
+    'action.OPEN_LONG': '建议：开多仓',
+    'action.OPEN_SHORT': '建议：开空仓',
+    'action.WAIT': '建议：观望',
+    'action.HOLD_LONG': '建议：继续持多 / 移止盈',
+    'action.HOLD_SHORT': '建议：继续持空 / 移止盈',
+    'action.CLOSE_LONG': '建议：考虑平多仓 (扛单风险高)',
+    'action.CLOSE_SHORT': '建议：考虑平空仓 (扛单风险高)',
+    'action.CLOSE_LONG_URGENT': '建议：立即平多仓 (风险信号)',
+    'action.CLOSE_SHORT_URGENT': '建议：立即平空仓 (风险信号)',
+    'action.NO_DATA': '数据不足',
+    'action.INVALID_STATE': '状态错误',
+    'level.High': '高可信度',
+    'level.Medium': '中可信度',
+    'level.Low': '低可信度',
+
+    'reason.SIGNAL_CONDITION': '{condition}',
+    'reason.CONFIRMATION_PENDING': '{side}信号确认中 ({hits}/{confirmBars}，需 {windowBars} 根K线内满足 {confirmBars} 根)',
+    'reason.FNG_EXTREME_GREED': '注意：市场极度贪婪，谨慎追多',
+    'reason.FNG_EXTREME_FEAR': '注意：市场极度恐惧，谨慎追空',
+    'reason.LOW_CONFIDENCE_DATA': '注意：K线数据存在缺失或异常，信号可信度低',
+    'reason.SHOCK_REGIME': '注意：市场处于剧烈波动状态，谨慎开仓',
+    'reason.SCORE_BELOW_THRESHOLD': '开仓评分未达阈值或方向不明',
+    'reason.BTC_DAILY_TREND': '当前BTC日线趋势: {trend}',
+    'reason.MARKET_REGIME': '当前市场状态: {regime}',
+    'reason.COUNTER_SIGNAL': '强{side}信号出现 (评分: {score})',
+    'reason.HOLDABILITY_LOW': '扛单评分低 ({score}/{max})',
+    'reason.HOLDABILITY_RISK': '风险: {condition}',
+    'reason.HOLDABILITY_SCORE': '扛单评分: {score}/{max}',
+    'reason.RISK_OK': '关键风险指标尚可',
+    'reason.TRAILING_STOP': '关注移动止盈，建议移动止损至 {level} ({basis})',
+    'reason.TRAILING_STOP_HIT': '价格已触及移动止损 {level} ({basis})，建议平仓',
+    'reason.WATCH_TRAILING': '关注移动止盈或保险线',
+    'reason.GUARDRAIL_TRIPPED': '风控触发: {guardrail}',
+    'reason.AWAITING_DATA': '等待信号数据...',
+    'reason.UNKNOWN_POSITION': '无法识别的持仓状态',
+
+    'rule.ema_trend.long': 'EMA{indicators.emaFast} > EMA{indicators.emaSlow} (短期看涨)',
+    'rule.ema_trend.short': 'EMA{indicators.emaFast} < EMA{indicators.emaSlow} (短期看跌)',
+    'rule.bb_breakout.long': '价格突破布林带上轨',
+    'rule.bb_breakout.short': '价格跌破布林带下轨',
+    'rule.stoch_cross.long': 'Stoch %K 上穿 %D (动能增强)',
+    'rule.stoch_cross.short': 'Stoch %K 下穿 %D (动能减弱)',
+    'rule.volume_expansion': '成交量放大 ( > VMA{indicators.vmaPeriod} * {opening.volumeMultiplier})',
+    'rule.vwap_band.long': '价格 > VWAP 且未超 +{opening.vwapMaxBand}σ (日内偏多)',
+    'rule.vwap_band.short': '价格 < VWAP 且未超 -{opening.vwapMaxBand}σ (日内偏空)',
+    'rule.htf_trend.long': '与 {trendLabel} 趋势同向 (涨)',
+    'rule.htf_trend.short': '与 {trendLabel} 趋势同向 (跌)',
+    'rule.reference_sync.long': '{referenceAsset} 同步上涨',
+    'rule.reference_sync.short': '{referenceAsset} 同步下跌',
+    'score.insufficientData': '数据不足',
+
+    'holdability.insufficient': '持仓或数据不足',
+    'holdability.structure': '结构未破坏 (vs {levels})',
+    'holdability.noBadBar': '无放量剧烈反向K线',
+    'holdability.regime': '市场状态有利 (当前: {regime})',
+    'holdability.ranging': '当前为震荡行情阶段 (ATR < ATR MA{period})',
+    'holdability.entryLocation': '开仓靠近支撑/阻力 (BBands ± {offset}*ATR)',
+    'holdability.liquidation': '强平价距离远 (≥ {multiple}*ATR, 当前: {current})',
+    'holdability.referenceSync': '{base} 与 {reference} 同方向运动 (Last Bar)',
+    'holdability.drawdown': '浮亏未超 {max}R (当前: {current}R)',
+    'holdability.funding': '资金费成本可控 (≤ 保证金 {max}%, 当前: {current}%)',
+    'holdability.age': '持仓时间未超 {max} 分钟或已盈利 (当前: {current} 分钟)',
+
+    'history.title': '信号与交易历史',
+    'history.back': '返回主页',
+    'history.loading': '加载历史记录中...',
+    'history.loadError': '加载历史记录时出错: {message}',
+    'history.signals': '信号历史记录 (含匹配交易)',
+    'history.liveBarNote': '* 表示该信号基于未收盘K线计算',
+    'history.liveBarHint': '未收盘K线计算',
+    'history.empty': '暂无信号历史记录。',
+    'history.col.time': '信号时间',
+    'history.col.price': '信号价格',
+    'history.col.btcTrend': 'BTC Trend',
+    'history.col.htfTrend': 'HTF Trend',
+    'history.col.regime': '市场状态',
+    'history.col.longScore': '多头分',
+    'history.col.shortScore': '空头分',
+    'history.col.position': '持仓',
+    'history.col.holdability': '扛单分',
+    'history.col.action': '建议操作',
+    'history.col.config': '策略配置',
+    'history.col.tradeTime': '匹配成交时间',
+    'history.col.avgPrice': '成交均价',
+    'history.col.slippage': '滑点',
+
+    'paper.toggle': '模拟盘',
+    'paper.toggleHint': '用虚拟仓位代替交易所持仓，按已收盘K线的建议自动开平仓',
+    'paper.title': '模拟盘',
+    'paper.reset': '重置',
+    'paper.resetConfirm': '重置 {contract} 的模拟账户并清空成交记录？',
+    'paper.resetFailed': '重置失败: {message}',
+    'paper.loadError': '加载模拟账户时出错: {message}',
+    'paper.equity': '权益',
+    'paper.balance': '余额',
+    'paper.return': '收益率',
+    'paper.realized': '已实现盈亏',
+    'paper.unrealized': '浮动盈亏',
+    'paper.winRate': '胜率: {wins} / {trades} 笔',
+    'paper.position': '虚拟持仓',
+    'paper.positionDetail': '{side} {contracts} 张 @ {price}',
+    'paper.openedAt': '开仓于 {time}',
+    'paper.trades': '模拟成交记录',
+    'paper.noTrades': '暂无模拟成交。',
+    'paper.col.side': '方向',
+    'paper.col.entry': '开仓',
+    'paper.col.exit': '平仓',
+    'paper.col.contracts': '数量',
+    'paper.col.pnl': '盈亏',
+    'paper.col.exitAction': '平仓原因',
+
+    'exec.disabled': '下单功能未启用（EXECUTION_ENABLED）',
+    'exec.mode.dryRun': '演练模式：只记录不发送',
+    'exec.mode.live': '实盘下单',
+    'exec.arm': '解锁下单',
+    'exec.armed': '已解锁，可确认执行',
+    'exec.armedUntil': '已解锁至 {time}',
+    'exec.disarm': '锁定',
+    'exec.disarmed': '已锁定',
+    'exec.confirm': '确认执行',
+    'exec.confirmDryRun': '演练执行 {contract} {action}（{size} 张）？不会发送订单。',
+    'exec.confirmLive': '向交易所发送 {contract} {action}（{size} 张）的真实订单？',
+    'exec.cancelTriggers': '撤销止盈止损',
+    'exec.cancelled': '已撤销止盈止损委托',
+    'exec.cancelDryRun': '演练：已记录撤单请求',
+    'exec.failed': '执行失败: {message}',
+    'exec.tokenPrompt': '请输入执行口令（服务端 EXECUTION_TOKEN）：',
+    'exec.status.dry_run': '演练完成，请求已记入审计日志 ({key})',
+    'exec.status.filled': '已成交，止盈止损已挂出 ({key})',
+    'exec.status.not_filled': '未成交，未挂止盈止损 ({key})',
+    'exec.status.unprotected': '已成交，但止盈止损挂单失败，请手动设置！({key})',
+    'exec.status.triggers_left': '已平仓，但撤销止盈止损触发单失败，请手动撤销！({key})',
+    'exec.status.failed': '下单失败，详见审计日志 ({key})',
+
+    'guardrail.KILL_SWITCH': '已手动紧急停止',
+    'guardrail.DAILY_LOSS': '当日已实现亏损 {value} 达到上限 {limit}',
+    'guardrail.CONSECUTIVE_LOSSES': '连续亏损 {value} 笔，达到上限 {limit} 笔',
+    'guardrail.TRADES_PER_DAY': '当日已平仓 {value} 笔，达到上限 {limit} 笔',
+    'guardrail.MAX_NOTIONAL': '仓位名义价值 {value} 超过上限 {limit}',
+    'guardrail.LIQUIDATION_BLACKOUT': '标记价格距强平价不足 {limit}%，{minutes} 分钟内暂停开仓',
+    'guardrail.title': '风控已触发：开仓改为观望，持仓建议平仓',
+    'guardrail.today': '今日 (UTC): 已实现 {pnl}，平仓 {trades} 笔，连亏 {losses} 笔',
+    'guardrail.blackoutUntil': '冷静期至 {time}',
+    'guardrail.kill': '紧急停止',
+    'guardrail.killConfirm': '对 {contract} 开启紧急停止？解除前所有开仓建议都会改为观望。',
+    'guardrail.release': '解除紧急停止',
+    'guardrail.reset': '重置今日计数',
+    'guardrail.resetConfirm': '清零 {contract} 今日的亏损、笔数和冷静期？',
+    'guardrail.failed': '操作失败: {message}',
+};
@@ -0,0 +1,300 @@
+import type { CandleData } from './types';
+
+// Stateful, incremental version of calculateIndicators().
+// Each new bar is folded in with O(1) work per indicator and the whole state is plain
+// JSON so it can be persisted and resumed. Results match calculateIndicators() over the
+// same bars exactly, except the BB standard deviation: it comes from a running sum of
+// squares rather than the batch two-pass formula, so it agrees to floating-point rounding
+// (the squares are recomputed once per window turn, so that rounding doesn't grow with the run).
+
+export interface IndicatorEngineParams {
+    emaFast: number;
+    emaSlow: number;
+    bbPeriod: number;
+    bbStdDevMultiplier: number;
+    stochPeriod: number;
+    stochKSmooth: number;
+    stochDSmooth: number;
+    vmaPeriod: number;
+    atrPeriod: number;
+}
+
+export const DEFAULT_INDICATOR_PARAMS: IndicatorEngineParams = {
+    emaFast: 5,
+    emaSlow: 10,
+    bbPeriod: 20,
+    bbStdDevMultiplier: 2,
+    stochPeriod: 8,
+    stochKSmooth: 3,
+    stochDSmooth: 3,
+    vmaPeriod: 20,
+    atrPeriod: 14,
+};
+
+// --- Serializable state pieces ---
+
+// Fixed-size ring buffer with a running sum (same summation order as the batch sma).
+// The sum of squares is taken around `shift` (the first value seen) to limit cancellation.
+interface RollingWindow {
+    period: number;
+    values: number[];
+    head: number; // Index of the oldest value once the window is full
+    sum: number;
+    shift: number | null;
+    sumSq: number;
+}
+
+interface EmaState {
+    period: number;
+    count: number;
+    seedSum: number;
+    value: number | null;
+}
+
+// Monotonic deque of [index, value] for sliding max/min
+type Deque = [number, number][];
+
+interface StochState {
+    period: number;
+    count: number;
+    maxHighs: Deque;
+    minLows: Deque;
+    lastRawK: number | null;
+    k: RollingWindow;
+    d: RollingWindow;
+}
+
+interface AtrState {
+    period: number;
+    prevClose: number | null;
+    count: number;
+    trSum: number;
+    value: number | null;
+}
+
+export interface IndicatorEngineState {
+    version: 2;
+    params: IndicatorEngineParams;
+    bars: number; // Bars folded in so far
+    lastTimestamp: number | null;
+    emaFast: EmaState;
+    emaSlow: EmaState;
+    bb: RollingWindow;
+    stoch: StochState;
+    vma: RollingWindow;
+    vwap: { cumulativeVolume: number; cumulativePV: number };
+    atr: AtrState;
+}
+
+// --- Step functions (mutate the state they are given) ---
+
+const newWindow = (period: number): RollingWindow => ({ period, values: [], head: 0, sum: 0, shift: null, sumSq: 0 });
+
+const pushWindow = (w: RollingWindow, value: number): number | null => {
+    if (w.period <= 0) return null;
+    if (w.shift === null) w.shift = value;
+    if (w.values.length < w.period) {
+        w.values.push(value);
+        w.sum += value;
+        w.sumSq += Math.pow(value - w.shift, 2);
+        return w.values.length === w.period ? w.sum / w.period : null;
+    }
+    const oldest = w.values[w.head];
+    w.sum = w.sum - oldest + value;
+    w.sumSq = w.sumSq - Math.pow(oldest - w.shift, 2) + Math.pow(value - w.shift, 2);
+    w.values[w.head] = value;
+    w.head = (w.head + 1) % w.period;
+    // Once per full turn, recentre on the current mean and recompute the squares from the buffer,
+    // so rounding can't accumulate over long (trending) runs; amortised O(1). `sum` keeps running
+    // like the batch sma() so BB_Middle stays identical.
+    if (w.head === 0) {
+        const shift = w.sum / w.period;
+        w.shift = shift;
+        w.sumSq = w.values.reduce((acc, v) => acc + Math.pow(v - shift, 2), 0);
+    }
+    return w.sum / w.period;
+};
+
+// Population std dev over a full window: E[(x - shift)²] - (mean - shift)²
+const windowStdDev = (w: RollingWindow): number | null => {
+    if (w.period <= 0 || w.values.length < w.period || w.shift === null) return null;
+    const offset = w.sum / w.period - w.shift;
+    const meanSq = w.sumSq / w.period;
+    const variance = meanSq - offset * offset;
+    if (variance > 1e-9 * (meanSq + offset * offset)) return Math.sqrt(variance);
+    // (Nearly) flat window: the difference is all cancellation noise, so take the batch
+    // two-pass formula over the buffer, oldest first (rare enough to stay amortised O(1))
+    const ordered = [...w.values.slice(w.head), ...w.values.slice(0, w.head)];
+    const mean = ordered.reduce((a, b) => a + b, 0) / w.period;
+    return Math.sqrt(ordered.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / w.period);
+};
+
+const newEma = (period: number): EmaState => ({ period, count: 0, seedSum: 0, value: null });
+
+const pushEma = (s: EmaState, value: number): number | null => {
+    if (s.period <= 0) return null;
+    s.count++;
+    if (s.count < s.period) {
+        s.seedSum += value;
+        return null;
+    }
+    if (s.count === s.period) {
+        s.seedSum += value;
+        s.value = s.seedSum / s.period; // Seed with the SMA of the first `period` values
+        return s.value;
+    }
+    const k = 2 / (s.period + 1);
+    s.value = value * k + s.value! * (1 - k);
+    return s.value;
+};
+
+const pushDeque = (deque: Deque, index: number, value: number, period: number, keep: (back: number, v: number) => boolean) => {
+    while (deque.length > 0 && !keep(deque[deque.length - 1][1], value)) deque.pop();
+    deque.push([index, value]);
+    while (deque.length > 0 && deque[0][0] <= index - period) deque.shift();
+};
+
+const pushStoch = (s: StochState, candle: CandleData): { k: number | null; d: number | null } => {
+    const index = s.count++;
+    pushDeque(s.maxHighs, index, candle.high, s.period, (back, v) => back > v);
+    pushDeque(s.minLows, index, candle.low, s.period, (back, v) => back < v);
+    if (index < s.period - 1) return { k: null, d: null };
+
+    const highestHigh = s.maxHighs[0][1];
+    const lowestLow = s.minLows[0][1];
+    const rawK = highestHigh === lowestLow
+        ? (s.lastRawK !== null ? s.lastRawK : 50) // Avoid division by zero, carry forward or default to 50
+        : ((candle.close - lowestLow) / (highestHigh - lowestLow)) * 100;
+    s.lastRawK = rawK;
+
+    const k = pushWindow(s.k, rawK);
+    const d = k !== null ? pushWindow(s.d, k) : null;
+    return { k, d };
+};
+
+const pushAtr = (s: AtrState, candle: CandleData): number | null => {
+    const tr = s.prevClose === null
+        ? candle.high - candle.low
+        : Math.max(candle.high - candle.low, Math.abs(candle.high - s.prevClose), Math.abs(candle.low - s.prevClose));
+    s.prevClose = candle.close;
+    if (s.period <= 0) return null;
+    s.count++;
+    if (s.count < s.period) {
+        s.trSum += tr;
+        return null;
+    }
+    if (s.count === s.period) {
+        s.trSum += tr;
+        s.value = s.trSum / s.period;
+        return s.value;
+    }
+    s.value = (s.value! * (s.period - 1) + tr) / s.period; // Wilder's smoothing
+    return s.value;
+};
+
+export function createIndicatorState(params: Partial<IndicatorEngineParams> = {}): IndicatorEngineState {
+    const p = { ...DEFAULT_INDICATOR_PARAMS, ...params };
+    return {
+        version: 2,
+        params: p,
+        bars: 0,
+        lastTimestamp: null,
+        emaFast: newEma(p.emaFast),
+        emaSlow: newEma(p.emaSlow),
+        bb: newWindow(p.bbPeriod),
+        stoch: {
+            period: p.stochPeriod,
+            count: 0,
+            maxHighs: [],
+            minLows: [],
+            lastRawK: null,
+            k: newWindow(p.stochKSmooth),
+            d: newWindow(p.stochDSmooth),
+        },
+        vma: newWindow(p.vmaPeriod),
+        vwap: { cumulativeVolume: 0, cumulativePV: 0 },
+        atr: { period: p.atrPeriod, prevClose: null, count: 0, trSum: 0, value: null },
+    };
+}
+
+// Fold one bar into `state` (mutated) and return the bar with its indicator values
+export function stepIndicators(state: IndicatorEngineState, candle: CandleData): CandleData {
+    if (state.lastTimestamp !== null && candle.timestamp <= state.lastTimestamp) {
+        throw new Error(`Indicator engine expects increasing timestamps (got ${candle.timestamp} after ${state.lastTimestamp})`);
+    }
+    state.bars++;
+    state.lastTimestamp = candle.timestamp;
+
+    const ema5 = pushEma(state.emaFast, candle.close);
+    const ema10 = pushEma(state.emaSlow, candle.close);
+
+    const bbMiddle = pushWindow(state.bb, candle.close);
+    const bbStd = windowStdDev(state.bb);
+    const multiplier = state.params.bbStdDevMultiplier;
+    const bbUpper = bbMiddle !== null && bbStd !== null ? bbMiddle + multiplier * bbStd : null;
+    const bbLower = bbMiddle !== null && bbStd !== null ? bbMiddle - multiplier * bbStd : null;
+
+    const stoch = pushStoch(state.stoch, candle);
+    const vma = pushWindow(state.vma, candle.volume);
+
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    state.vwap.cumulativeVolume += candle.volume;
+    state.vwap.cumulativePV += typicalPrice * candle.volume;
+    const vwap = state.vwap.cumulativeVolume > 0 ? state.vwap.cumulativePV / state.vwap.cumulativeVolume : null;
+
+    const atr = pushAtr(state.atr, candle);
+
+    return {
+        ...candle,
+        EMA5: ema5,
+        EMA10: ema10,
+        BB_Upper: bbUpper,
+        BB_Middle: bbMiddle,
+        BB_Lower: bbLower,
+        BB_Width: bbUpper !== null && bbLower !== null ? bbUpper - bbLower : null,
+        Stoch_K: stoch.k,
+        Stoch_D: stoch.d,
+        VMA20: vma,
+        VWAP: vwap,
+        ATR14: atr,
+    };
+}
+
+export interface IndicatorEngine {
+    update(candle: CandleData): CandleData; // Commit a closed bar
+    preview(candle: CandleData): CandleData; // Values for a forming bar without committing it
+    getState(): IndicatorEngineState; // Deep copy, safe to JSON.stringify and persist
+}
+
+export function createIndicatorEngine(
+    initial: IndicatorEngineState | Partial<IndicatorEngineParams> = {}
+): IndicatorEngine {
+    if ('version' in initial && initial.version !== 2) {
+        throw new Error(`Unsupported indicator engine state version: ${initial.version}`);
+    }
+    let state: IndicatorEngineState = 'version' in initial
+        ? JSON.parse(JSON.stringify(initial))
+        : createIndicatorState(initial as Partial<IndicatorEngineParams>);
+
+    return {
+        update(candle) {
+            return stepIndicators(state, candle);
+        },
+        preview(candle) {
+            return stepIndicators(JSON.parse(JSON.stringify(state)), candle);
+        },
+        getState() {
+            return JSON.parse(JSON.stringify(state));
+        },
+    };
+}
+
+// Convenience: run a series through a fresh (or resumed) engine
+export function runIndicatorEngine(
+    data: CandleData[],
+    initial?: IndicatorEngineState | Partial<IndicatorEngineParams>
+): { candles: CandleData[]; state: IndicatorEngineState } {
+    const engine = createIndicatorEngine(initial);
+    const candles = data.map(c => engine.update(c));
+    return { candles, state: engine.getState() };
+}
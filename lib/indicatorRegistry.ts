@@ -0,0 +1,299 @@
+import type { CandleData } from './types';
+import { ema, calculateTR, calculateATR } from './indicators';
+import { DEFAULT_INDICATOR_PARAMS, createIndicatorState, stepIndicators, type IndicatorEngineParams } from './indicatorEngine';
+import { calculateAnchoredVwap } from './vwap';
+
+// Registry of indicators by name. Each definition declares the candle fields it
+// reads, its tunable params and the output fields it writes onto each candle, so
+// scorers and the UI can look values up by name instead of hard-coded properties.
+
+export type CandleInput = 'open' | 'high' | 'low' | 'close' | 'volume';
+export type IndicatorParams = Record<string, number>;
+export type IndicatorSeries = Record<string, (number | null)[]>;
+
+export interface IndicatorDefinition {
+    name: string;
+    description: string;
+    inputs: CandleInput[];
+    defaultParams: IndicatorParams;
+    outputs: string[]; // Candle fields written, e.g. ['MACD', 'MACD_Signal', 'MACD_Hist']
+    core?: boolean; // Produced by the core indicator engine itself
+    compute(data: CandleData[], params: IndicatorParams): IndicatorSeries;
+}
+
+// A registry entry switched on in the strategy config
+export interface IndicatorSelection {
+    name: string;
+    params?: IndicatorParams;
+}
+
+const registry = new Map<string, IndicatorDefinition>();
+
+export function registerIndicator(definition: IndicatorDefinition) {
+    if (registry.has(definition.name)) throw new Error(`Indicator already registered: ${definition.name}`);
+    registry.set(definition.name, definition);
+}
+
+export function getIndicator(name: string): IndicatorDefinition | undefined {
+    return registry.get(name);
+}
+
+export function listIndicators(): IndicatorDefinition[] {
+    return Array.from(registry.values());
+}
+
+// Field name -> definition that produces it
+export function findIndicatorByOutput(field: string): IndicatorDefinition | undefined {
+    return listIndicators().find(d => d.outputs.includes(field));
+}
+
+// Read a registered indicator output from a candle; unknown fields are a programming error
+export function indicatorValue(candle: CandleData | null | undefined, field: string): number | null {
+    if (!findIndicatorByOutput(field)) throw new Error(`Unknown indicator output: ${field}`);
+    const value = candle?.[field];
+    return typeof value === 'number' ? value : null;
+}
+
+// Pad a series computed over a filtered (non-null) input back to full length
+const padFront = (series: (number | null)[], length: number): (number | null)[] =>
+    Array(length - series.length).fill(null).concat(series);
+
+// Wilder's smoothing seeded with the plain average of the first `period` values
+const wilder = (values: number[], period: number): (number | null)[] => {
+    if (period <= 0 || values.length < period) return Array(values.length).fill(null);
+    const result: (number | null)[] = Array(period - 1).fill(null);
+    let current = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+    result.push(current);
+    for (let i = period; i < values.length; i++) {
+        current = (current * (period - 1) + values[i]) / period;
+        result.push(current);
+    }
+    return result;
+};
+
+// Core indicators (EMA pair, BB, Stoch, VMA, VWAP, ATR) through the incremental engine,
+// one pass over the series; same values as calculateIndicators() (BB to rounding)
+export function computeCoreIndicators(data: CandleData[], params: IndicatorParams): CandleData[] {
+    const state = createIndicatorState(params);
+    return data.map(candle => stepIndicators(state, candle));
+}
+
+// Core indicators: thin views over the engine so they resolve by name too
+const coreOutputs = (fields: string[]) => (data: CandleData[], params: IndicatorParams): IndicatorSeries => {
+    const enriched = computeCoreIndicators(data, params);
+    const series: IndicatorSeries = {};
+    fields.forEach(f => { series[f] = enriched.map(c => (c[f] as number | null) ?? null); });
+    return series;
+};
+
+const coreDefinition = (
+    name: string,
+    description: string,
+    inputs: CandleInput[],
+    paramKeys: (keyof IndicatorEngineParams)[],
+    outputs: string[]
+): IndicatorDefinition => ({
+    name,
+    description,
+    inputs,
+    defaultParams: Object.fromEntries(paramKeys.map(k => [k, DEFAULT_INDICATOR_PARAMS[k]])),
+    outputs,
+    core: true,
+    compute: coreOutputs(outputs),
+});
+
+registerIndicator(coreDefinition('EMA_CROSS', 'Fast/slow EMA pair', ['close'], ['emaFast', 'emaSlow'], ['EMA5', 'EMA10']));
+registerIndicator(coreDefinition('BB', 'Bollinger Bands', ['close'], ['bbPeriod', 'bbStdDevMultiplier'], ['BB_Upper', 'BB_Middle', 'BB_Lower', 'BB_Width']));
+registerIndicator(coreDefinition('STOCH', 'Slow Stochastic', ['high', 'low', 'close'], ['stochPeriod', 'stochKSmooth', 'stochDSmooth'], ['Stoch_K', 'Stoch_D']));
+registerIndicator(coreDefinition('VMA', 'Volume moving average', ['volume'], ['vmaPeriod'], ['VMA20']));
+registerIndicator(coreDefinition('VWAP', 'Volume weighted average price, cumulative over the fetched bars', ['high', 'low', 'close', 'volume'], [], ['VWAP']));
+registerIndicator(coreDefinition('ATR', 'Average True Range (Wilder)', ['high', 'low', 'close'], ['atrPeriod'], ['ATR14']));
+
+registerIndicator({
+    name: 'EMA',
+    description: 'Single exponential moving average, e.g. a higher-timeframe trend line',
+    inputs: ['close'],
+    defaultParams: { period: 20 },
+    outputs: ['EMA'],
+    compute(data, { period }) {
+        return { EMA: ema(data.map(d => d.close), period) };
+    },
+});
+
+registerIndicator({
+    name: 'RSI',
+    description: 'Relative Strength Index (Wilder)',
+    inputs: ['close'],
+    defaultParams: { period: 14 },
+    outputs: ['RSI'],
+    compute(data, { period }) {
+        if (data.length < 2) return { RSI: Array(data.length).fill(null) };
+        const gains: number[] = [];
+        const losses: number[] = [];
+        for (let i = 1; i < data.length; i++) {
+            const change = data[i].close - data[i - 1].close;
+            gains.push(Math.max(change, 0));
+            losses.push(Math.max(-change, 0));
+        }
+        const avgGain = wilder(gains, period);
+        const avgLoss = wilder(losses, period);
+        const rsi = avgGain.map((g, i) => {
+            const l = avgLoss[i];
+            if (g === null || l === null) return null;
+            return l === 0 ? 100 : 100 - 100 / (1 + g / l);
+        });
+        return { RSI: [null, ...rsi] }; // First bar has no change
+    },
+});
+
+registerIndicator({
+    name: 'MACD',
+    description: 'Moving Average Convergence Divergence',
+    inputs: ['close'],
+    defaultParams: { fast: 12, slow: 26, signal: 9 },
+    outputs: ['MACD', 'MACD_Signal', 'MACD_Hist'],
+    compute(data, { fast, slow, signal }) {
+        const closes = data.map(d => d.close);
+        const emaFast = ema(closes, fast);
+        const emaSlow = ema(closes, slow);
+        const macd = emaFast.map((f, i) => (f !== null && emaSlow[i] !== null ? f - emaSlow[i]! : null));
+        const signalLine = padFront(ema(macd.filter(v => v !== null) as number[], signal), data.length);
+        const hist = macd.map((m, i) => (m !== null && signalLine[i] !== null ? m - signalLine[i]! : null));
+        return { MACD: macd, MACD_Signal: signalLine, MACD_Hist: hist };
+    },
+});
+
+registerIndicator({
+    name: 'ADX',
+    description: 'Average Directional Index with +DI/-DI (Wilder)',
+    inputs: ['high', 'low', 'close'],
+    defaultParams: { period: 14 },
+    outputs: ['ADX', 'DI_Plus', 'DI_Minus'],
+    compute(data, { period }) {
+        const length = data.length;
+        if (length < 2) return { ADX: Array(length).fill(null), DI_Plus: Array(length).fill(null), DI_Minus: Array(length).fill(null) };
+        const tr = calculateTR(data).slice(1);
+        const plusDM: number[] = [];
+        const minusDM: number[] = [];
+        for (let i = 1; i < length; i++) {
+            const up = data[i].high - data[i - 1].high;
+            const down = data[i - 1].low - data[i].low;
+            plusDM.push(up > down && up > 0 ? up : 0);
+            minusDM.push(down > up && down > 0 ? down : 0);
+        }
+        const smTR = wilder(tr, period);
+        const smPlus = wilder(plusDM, period);
+        const smMinus = wilder(minusDM, period);
+        const diPlus = smTR.map((t, i) => (t ? (100 * smPlus[i]!) / t : null));
+        const diMinus = smTR.map((t, i) => (t ? (100 * smMinus[i]!) / t : null));
+        const dx = diPlus.map((p, i) => {
+            const m = diMinus[i];
+            if (p === null || m === null) return null;
+            return p + m === 0 ? 0 : (100 * Math.abs(p - m)) / (p + m);
+        });
+        const adx = padFront(wilder(dx.filter(v => v !== null) as number[], period), dx.length);
+        return { ADX: [null, ...adx], DI_Plus: [null, ...diPlus], DI_Minus: [null, ...diMinus] };
+    },
+});
+
+registerIndicator({
+    name: 'SUPERTREND',
+    description: 'Supertrend (ATR bands around HL2); direction 1 = up, -1 = down',
+    inputs: ['high', 'low', 'close'],
+    defaultParams: { period: 10, multiplier: 3 },
+    outputs: ['Supertrend', 'Supertrend_Dir'],
+    compute(data, { period, multiplier }) {
+        const atr = calculateATR(calculateTR(data), period);
+        const line: (number | null)[] = [];
+        const direction: (number | null)[] = [];
+        let finalUpper: number | null = null;
+        let finalLower: number | null = null;
+        let dir = 1;
+        for (let i = 0; i < data.length; i++) {
+            const a = atr[i];
+            if (a === null) {
+                line.push(null);
+                direction.push(null);
+                continue;
+            }
+            const hl2 = (data[i].high + data[i].low) / 2;
+            const basicUpper = hl2 + multiplier * a;
+            const basicLower = hl2 - multiplier * a;
+            const prevClose = i > 0 ? data[i - 1].close : data[i].close;
+            const nextUpper: number = finalUpper === null || basicUpper < finalUpper || prevClose > finalUpper ? basicUpper : finalUpper;
+            const nextLower: number = finalLower === null || basicLower > finalLower || prevClose < finalLower ? basicLower : finalLower;
+            if (finalUpper !== null) {
+                // Flip only when the close crosses the band that is currently acting as the trail
+                if (dir === 1 && data[i].close < nextLower) dir = -1;
+                else if (dir === -1 && data[i].close > nextUpper) dir = 1;
+            } else {
+                dir = data[i].close >= hl2 ? 1 : -1;
+            }
+            finalUpper = nextUpper;
+            finalLower = nextLower;
+            line.push(dir === 1 ? finalLower : finalUpper);
+            direction.push(dir);
+        }
+        return { Supertrend: line, Supertrend_Dir: direction };
+    },
+});
+
+registerIndicator({
+    name: 'KELTNER',
+    description: 'Keltner Channels (EMA ± ATR multiple)',
+    inputs: ['high', 'low', 'close'],
+    defaultParams: { period: 20, atrPeriod: 10, multiplier: 2 },
+    outputs: ['KC_Upper', 'KC_Middle', 'KC_Lower'],
+    compute(data, { period, atrPeriod, multiplier }) {
+        const middle = ema(data.map(d => d.close), period);
+        const atr = calculateATR(calculateTR(data), atrPeriod);
+        return {
+            KC_Upper: middle.map((m, i) => (m !== null && atr[i] !== null ? m + multiplier * atr[i]! : null)),
+            KC_Middle: middle,
+            KC_Lower: middle.map((m, i) => (m !== null && atr[i] !== null ? m - multiplier * atr[i]! : null)),
+        };
+    },
+});
+
+registerIndicator({
+    name: 'AVWAP',
+    description: 'Anchored VWAP with ±σ bands; anchorTime is resolved per request (see lib/vwap.ts)',
+    inputs: ['high', 'low', 'close', 'volume'],
+    defaultParams: { anchorTime: 0, band1: 1, band2: 2 }, // anchorTime 0 = first bar
+    outputs: ['AVWAP', 'AVWAP_Upper1', 'AVWAP_Lower1', 'AVWAP_Upper2', 'AVWAP_Lower2', 'AVWAP_Z'],
+    compute(data, { anchorTime, band1, band2 }) {
+        return { ...calculateAnchoredVwap(data, anchorTime, band1, band2) };
+    },
+});
+
+// Run the core indicators plus every selected registry indicator over a series
+export function applyIndicators(
+    data: CandleData[],
+    coreParams: IndicatorParams,
+    selections: IndicatorSelection[]
+): CandleData[] {
+    return addIndicators(computeCoreIndicators(data, coreParams), selections);
+}
+
+// Write the selected registry indicators onto candles that already carry the core ones (mutated)
+export function addIndicators(enriched: CandleData[], selections: IndicatorSelection[]): CandleData[] {
+    for (const selection of selections) {
+        const definition = getIndicator(selection.name);
+        if (!definition) throw new Error(`Unknown indicator: ${selection.name}`);
+        if (definition.core) continue; // Already on the candles
+        const series = definition.compute(enriched, { ...definition.defaultParams, ...selection.params });
+        definition.outputs.forEach(field => {
+            enriched.forEach((candle, i) => { candle[field] = series[field][i] ?? null; });
+        });
+    }
+    return enriched;
+}
+
+// Latest values of the requested output fields, for display blocks like indicators_1m
+export function pickIndicatorValues(candle: CandleData, fields: string[]): Record<string, number | null> {
+    const values: Record<string, number | null> = {};
+    fields.forEach(field => {
+        values[field] = field === 'volume' ? candle.volume : indicatorValue(candle, field);
+    });
+    return values;
+}
@@ -1,7 +1,8 @@
 import { CandleData } from './types'; // Assuming CandleData type exists
+import { DEFAULT_INDICATOR_PARAMS, type IndicatorEngineParams } from './indicatorEngine';
 
 // Helper function for Simple Moving Average (SMA)
-const sma = (arr: number[], period: number): (number | null)[] => {
+export const sma = (arr: number[], period: number): (number | null)[] => {
   if (period <= 0 || arr.length < period) {
     return Array(arr.length).fill(null);
   }
@@ -16,7 +17,7 @@ const sma = (arr: number[], period: number): (number | null)[] => {
 };
 
 // Helper function for Standard Deviation
-const stdDev = (arr: number[], period: number): (number | null)[] => {
+export const stdDev = (arr: number[], period: number): (number | null)[] => {
     if (period <= 0 || arr.length < period) {
         return Array(arr.length).fill(null);
     }
@@ -32,7 +33,7 @@ const stdDev = (arr: number[], period: number): (number | null)[] => {
 
 
 // Helper function for Exponential Moving Average (EMA)
-const ema = (arr: number[], period: number): (number | null)[] => {
+export const ema = (arr: number[], period: number): (number | null)[] => {
   if (period <= 0 || arr.length === 0) return Array(arr.length).fill(null);
   const k = 2 / (period + 1);
   const result: (number | null)[] = [];
@@ -59,7 +60,7 @@ const ema = (arr: number[], period: number): (number | null)[] => {
 };
 
 // Helper function for True Range (TR)
-const calculateTR = (data: CandleData[]): number[] => {
+export const calculateTR = (data: CandleData[]): number[] => {
     const tr: number[] = [];
     if (data.length === 0) return tr;
     tr.push(data[0].high - data[0].low); // First TR
@@ -73,7 +74,7 @@ const calculateTR = (data: CandleData[]): number[] => {
 };
 
 // Helper function for Average True Range (ATR) using Wilder's Smoothing
-const calculateATR = (tr: number[], period: number): (number | null)[] => {
+export const calculateATR = (tr: number[], period: number): (number | null)[] => {
     if (period <= 0 || tr.length < period) {
         return Array(tr.length).fill(null);
     }
@@ -90,8 +91,9 @@ const calculateATR = (tr: number[], period: number): (number | null)[] => {
 };
 
 
-export function calculateIndicators(data: CandleData[]) {
+export function calculateIndicators(data: CandleData[], params: Partial<IndicatorEngineParams> = {}) {
   if (!data || data.length === 0) return [];
+  const p = { ...DEFAULT_INDICATOR_PARAMS, ...params };
 
   const closes = data.map(d => d.close);
   const highs = data.map(d => d.high);
@@ -99,12 +101,13 @@ export function calculateIndicators(data: CandleData[]) {
   const volumes = data.map(d => d.volume);
 
   // --- Calculate Indicators ---
-  const ema5 = ema(closes, 5);
-  const ema10 = ema(closes, 10);
+  // Fast/slow EMA (default 5/10) - stored as EMA5/EMA10
+  const ema5 = ema(closes, p.emaFast);
+  const ema10 = ema(closes, p.emaSlow);
 
-  // Bollinger Bands (20, 2)
-  const bbPeriod = 20;
-  const bbStdDevMultiplier = 2;
+  // Bollinger Bands (default 20, 2)
+  const bbPeriod = p.bbPeriod;
+  const bbStdDevMultiplier = p.bbStdDevMultiplier;
   const sma20 = sma(closes, bbPeriod);
   const stdDev20 = stdDev(closes, bbPeriod);
   const bbUpper = sma20.map((smaVal, i) => smaVal !== null && stdDev20[i] !== null ? smaVal + bbStdDevMultiplier * stdDev20[i]! : null);
@@ -113,10 +116,10 @@ export function calculateIndicators(data: CandleData[]) {
   const bbWidth = bbUpper.map((upper, i) => upper !== null && bbLower[i] !== null ? upper - bbLower[i]! : null);
 
 
-  // Stochastic Oscillator (8, 3, 3) - Slow version
-  const stochPeriod = 8;
-  const stochKSmooth = 3;
-  const stochDSmooth = 3;
+  // Stochastic Oscillator (default 8, 3, 3) - Slow version
+  const stochPeriod = p.stochPeriod;
+  const stochKSmooth = p.stochKSmooth;
+  const stochDSmooth = p.stochDSmooth;
   const rawK: (number | null)[] = [];
   for (let i = 0; i < data.length; i++) {
       if (i < stochPeriod - 1) {
@@ -142,8 +145,8 @@ export function calculateIndicators(data: CandleData[]) {
   const paddedStochD = Array(data.length - stochD.length).fill(null).concat(stochD);
 
 
-  // Volume Moving Average (20)
-  const vma20 = sma(volumes, 20);
+  // Volume Moving Average (default 20) - stored as VMA20
+  const vma20 = sma(volumes, p.vmaPeriod);
 
   // VWAP (Approximate, rolling over the provided data length)
   const vwap: (number | null)[] = [];
@@ -162,8 +165,8 @@ export function calculateIndicators(data: CandleData[]) {
   }
 
 
-  // ATR (14)
-  const atrPeriod = 14;
+  // ATR (default 14) - stored as ATR14
+  const atrPeriod = p.atrPeriod;
   const tr = calculateTR(data);
   const atr14 = calculateATR(tr, atrPeriod);
 
@@ -182,9 +185,6 @@ export function calculateIndicators(data: CandleData[]) {
     VMA20: vma20[i] ?? null,
     VWAP: vwap[i] ?? null,
     ATR14: atr14[i] ?? null,
-    // Remove old indicators if they exist in d (like EMA20, RSI)
-    EMA20: undefined,
-    RSI: undefined,
   }));
 }
 
@@ -0,0 +1,30 @@
+// Exchange interval strings ('1m', '15m', '1h', '1d', ...) to milliseconds
+const UNIT_MS: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+};
+
+export function intervalToMs(interval: string): number {
+    const match = /^(\d+)([smhdw])$/.exec(interval);
+    if (!match) throw new Error(`Unsupported interval: ${interval}`);
+    return Number(match[1]) * UNIT_MS[match[2]];
+}
+
+// A candle is closed once its whole interval has elapsed
+export function isCandleClosed(candle: { timestamp: number }, interval: string, now = Date.now()): boolean {
+    return candle.timestamp + intervalToMs(interval) <= now;
+}
+
+// Split a series into fully closed candles and the still-forming last candle (if any)
+export function splitClosedCandles<T extends { timestamp: number }>(
+    candles: T[],
+    interval: string,
+    now = Date.now()
+): { closed: T[]; live: T | null } {
+    const last = candles[candles.length - 1];
+    if (!last || isCandleClosed(last, interval, now)) return { closed: candles, live: null };
+    return { closed: candles.slice(0, -1), live: last };
+}
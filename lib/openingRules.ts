@@ -0,0 +1,112 @@
+import type { ScoringRule } from './ruleEngine';
+
+// Default opening-signal rules (long side; short is mirrored unless whenShort is given).
+// Thresholds come from the strategy config via { config } operands and label placeholders;
+// {trendLabel} and {referenceAsset} are supplied by scoreSignals(). Labels are the
+// zh-CN text; other locales translate labelKey from lib/i18n with the same placeholders.
+
+export const DEFAULT_OPENING_RULES: ScoringRule[] = [
+    {
+        id: 'ema_trend',
+        labelKey: 'rule.ema_trend',
+        label: {
+            long: 'EMA{indicators.emaFast} > EMA{indicators.emaSlow} (短期看涨)',
+            short: 'EMA{indicators.emaFast} < EMA{indicators.emaSlow} (短期看跌)',
+        },
+        weight: 2,
+        type: 'Trend',
+        when: { op: '>', left: { field: 'EMA5' }, right: { field: 'EMA10' } },
+    },
+    {
+        id: 'bb_breakout',
+        labelKey: 'rule.bb_breakout',
+        label: { long: '价格突破布林带上轨', short: '价格跌破布林带下轨' },
+        weight: 2,
+        type: 'Breakout',
+        when: { op: '>', left: { field: 'close' }, right: { long: { field: 'BB_Upper' }, short: { field: 'BB_Lower' } } },
+    },
+    {
+        id: 'stoch_cross',
+        labelKey: 'rule.stoch_cross',
+        label: { long: 'Stoch %K 上穿 %D (动能增强)', short: 'Stoch %K 下穿 %D (动能减弱)' },
+        weight: 2,
+        type: 'Momentum',
+        when: {
+            op: 'all',
+            of: [
+                { op: 'crossAbove', left: { field: 'Stoch_K' }, right: { field: 'Stoch_D' } },
+                {
+                    op: '<',
+                    left: { field: 'Stoch_K' },
+                    right: { long: { config: 'opening.stochOverbought' }, short: { config: 'opening.stochOversold' } },
+                },
+            ],
+        },
+    },
+    {
+        id: 'volume_expansion',
+        labelKey: 'rule.volume_expansion',
+        label: '成交量放大 ( > VMA{indicators.vmaPeriod} * {opening.volumeMultiplier})',
+        weight: 1,
+        type: 'Confirmation',
+        when: {
+            op: '>',
+            left: { field: 'volume' },
+            right: { field: 'VMA20', times: { config: 'opening.volumeMultiplier' } },
+            fixed: true,
+        },
+    },
+    {
+        id: 'vwap_band',
+        labelKey: 'rule.vwap_band',
+        label: {
+            long: '价格 > VWAP 且未超 +{opening.vwapMaxBand}σ (日内偏多)',
+            short: '价格 < VWAP 且未超 -{opening.vwapMaxBand}σ (日内偏空)',
+        },
+        weight: 1,
+        type: 'Confirmation',
+        when: {
+            op: 'all',
+            of: [
+                { op: '>', left: { field: 'close' }, right: { field: 'AVWAP' } },
+                {
+                    op: 'any', // No σ yet on the first session bar
+                    of: [
+                        { op: 'isNull', value: { field: 'AVWAP_Z' } },
+                        { op: '<=', left: { field: 'AVWAP_Z', abs: true }, right: { config: 'opening.vwapMaxBand' }, fixed: true },
+                    ],
+                },
+            ],
+        },
+    },
+    {
+        id: 'htf_trend',
+        labelKey: 'rule.htf_trend',
+        label: { long: '与 {trendLabel} 趋势同向 (涨)', short: '与 {trendLabel} 趋势同向 (跌)' },
+        weight: 1,
+        type: 'TrendFilter',
+        when: { op: '==', left: { context: 'trend' }, right: { long: 'up', short: 'down' } },
+    },
+    {
+        id: 'reference_sync',
+        labelKey: 'rule.reference_sync',
+        label: { long: '{referenceAsset} 同步上涨', short: '{referenceAsset} 同步下跌' },
+        weight: 1,
+        type: 'Confirmation',
+        when: {
+            op: 'all',
+            of: [
+                { op: '>', left: { field: 'close' }, right: { field: 'close', bar: 1 } },
+                { op: '>', left: { field: 'Ref_close' }, right: { field: 'Ref_close', bar: 1 } },
+            ],
+        },
+        // Short side counts any bar that is not up (close <= previous close)
+        whenShort: {
+            op: 'all',
+            of: [
+                { op: '<=', left: { field: 'close' }, right: { field: 'close', bar: 1 } },
+                { op: '<=', left: { field: 'Ref_close' }, right: { field: 'Ref_close', bar: 1 } },
+            ],
+        },
+    },
+];
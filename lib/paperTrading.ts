@@ -0,0 +1,162 @@
+import type { PositionInfoFromAPI } from './types';
+import type { ContractInfo } from './exchange/types';
+import type { Recommendation, RecommendationAction } from './recommendation';
+
+// Virtual account that follows the live recommendations: OPEN_* opens a position of
+// the plan's size at the evaluated price, CLOSE_* on the held side closes it. The
+// virtual position stands in for the exchange position, so holdability and the
+// recommendation see it exactly like a real one. Fills are at the bar's close, taker fee.
+
+export type PositionSource = 'exchange' | 'paper';
+
+export interface PaperTradingConfig {
+    initialEquity: number; // Quote currency the virtual account starts (and resets) with
+}
+
+export interface PaperPosition {
+    side: 'long' | 'short';
+    entry_time: number; // Evaluated bar the position was opened on (ms)
+    entry_price: number;
+    contracts: number;
+    multiplier: number; // Contract size at open, so PnL needs no contract lookup
+    leverage: number;
+    stop: number | null; // Plan stop at open
+    entry_fee: number;
+    open_action: RecommendationAction;
+}
+
+export interface PaperTrade {
+    contract: string;
+    side: 'long' | 'short';
+    entry_time: number;
+    entry_price: number;
+    exit_time: number;
+    exit_price: number;
+    contracts: number;
+    open_action: RecommendationAction;
+    exit_action: RecommendationAction;
+    fees: number;
+    pnl: number; // Net of fees
+    balance: number; // Account balance after the close
+}
+
+export interface PaperAccount {
+    contract: string;
+    initial_equity: number;
+    balance: number; // Realised, after fees
+    position: PaperPosition | null;
+    last_bar: number | null; // Each bar's recommendation is applied once, however often it's polled
+    trades: number;
+    wins: number;
+    realized_pnl: number;
+    updated_at: number;
+}
+
+const round = (value: number, digits = 2) => {
+    const factor = Math.pow(10, digits);
+    return Math.round(value * factor) / factor;
+};
+
+export const newPaperAccount = (contract: string, config: PaperTradingConfig, now: number): PaperAccount => ({
+    contract,
+    initial_equity: config.initialEquity,
+    balance: config.initialEquity,
+    position: null,
+    last_bar: null,
+    trades: 0,
+    wins: 0,
+    realized_pnl: 0,
+    updated_at: now,
+});
+
+export const paperUnrealisedPnl = (position: PaperPosition, price: number): number =>
+    (price - position.entry_price) * position.contracts * position.multiplier * (position.side === 'long' ? 1 : -1);
+
+// Balance plus the open position marked at price
+export const paperEquity = (account: PaperAccount, price: number | null): number =>
+    account.balance + (account.position && price ? paperUnrealisedPnl(account.position, price) : 0);
+
+// The virtual position in the exchange adapter's shape (isolated margin, maintenance margin ignored)
+export function paperPositionInfo(account: PaperAccount, price: number | null): PositionInfoFromAPI | null {
+    const position = account.position;
+    if (!position) return null;
+    const markPrice = price ?? position.entry_price;
+    const direction = position.side === 'long' ? 1 : -1;
+    return {
+        side: position.side,
+        entryPrice: position.entry_price,
+        liquidationPrice: position.leverage > 0 ? position.entry_price * (1 - direction / position.leverage) : null,
+        openTimeMs: position.entry_time,
+        size: position.contracts,
+        leverage: position.leverage,
+        margin: position.leverage > 0 ? (position.entry_price * position.contracts * position.multiplier) / position.leverage : null,
+        value: markPrice * position.contracts * position.multiplier,
+        markPrice,
+        unrealisedPnl: paperUnrealisedPnl(position, markPrice),
+        fundingPnl: null, // Funding is not simulated
+    };
+}
+
+// Applies the recommendation for the bar at `time`; returns the account unchanged if
+// that bar was already applied. `trade` is set when a position was closed.
+export function applyPaperRecommendation(
+    account: PaperAccount,
+    recommendation: Recommendation,
+    time: number,
+    price: number,
+    contractInfo: ContractInfo | null
+): { account: PaperAccount; trade: PaperTrade | null; changed: boolean } {
+    if (account.last_bar !== null && time <= account.last_bar) return { account, trade: null, changed: false };
+
+    const feeRate = contractInfo?.takerFeeRate ?? 0;
+    const next: PaperAccount = { ...account, last_bar: time, updated_at: Date.now() };
+    const { action, trade_plan } = recommendation;
+    const position = account.position;
+
+    if (!position && (action === 'OPEN_LONG' || action === 'OPEN_SHORT') && trade_plan?.sizing?.contracts) {
+        const multiplier = contractInfo?.quantoMultiplier || 1;
+        const contracts = trade_plan.sizing.contracts;
+        const entryFee = round(price * contracts * multiplier * feeRate, 4);
+        next.balance = round(account.balance - entryFee, 4);
+        next.position = {
+            side: trade_plan.side,
+            entry_time: time,
+            entry_price: price,
+            contracts,
+            multiplier,
+            leverage: trade_plan.sizing.leverage,
+            stop: trade_plan.stop,
+            entry_fee: entryFee,
+            open_action: action,
+        };
+        return { account: next, trade: null, changed: true };
+    }
+
+    if (position && recommendation.side === position.side && action.startsWith('CLOSE_')) {
+        const exitFee = round(price * position.contracts * position.multiplier * feeRate, 4);
+        const gross = paperUnrealisedPnl(position, price);
+        const pnl = round(gross - position.entry_fee - exitFee);
+        next.balance = round(account.balance + gross - exitFee, 4); // Entry fee was charged at the open
+        next.position = null;
+        next.trades = account.trades + 1;
+        next.wins = account.wins + (pnl > 0 ? 1 : 0);
+        next.realized_pnl = round(account.realized_pnl + pnl);
+        const trade: PaperTrade = {
+            contract: account.contract,
+            side: position.side,
+            entry_time: position.entry_time,
+            entry_price: position.entry_price,
+            exit_time: time,
+            exit_price: price,
+            contracts: position.contracts,
+            open_action: position.open_action,
+            exit_action: action,
+            fees: round(position.entry_fee + exitFee),
+            pnl,
+            balance: round(next.balance),
+        };
+        return { account: next, trade, changed: true };
+    }
+
+    return { account: next, trade: null, changed: true };
+}
@@ -0,0 +1,39 @@
+import { getStorage } from './storage';
+import { paperAccountKey, paperFillKey, paperTradesKey } from './contracts';
+import { newPaperAccount, type PaperAccount, type PaperTrade, type PaperTradingConfig } from './paperTrading';
+
+// Persistence for the paper-trading account (server-side only, see lib/storage)
+
+const FILL_CLAIM_TTL_SECONDS = 24 * 60 * 60;
+
+// Stored account, or a fresh one when the contract has never been paper traded
+export async function loadPaperAccount(contract: string, config: PaperTradingConfig): Promise<PaperAccount> {
+    const stored = await getStorage().get<PaperAccount>(paperAccountKey(contract));
+    return stored ?? newPaperAccount(contract, config, Date.now());
+}
+
+export async function savePaperAccount(account: PaperAccount, trade: PaperTrade | null = null): Promise<void> {
+    const storage = getStorage();
+    await Promise.all([
+        storage.set(paperAccountKey(account.contract), account),
+        trade ? storage.append(paperTradesKey(account.contract), trade.exit_time, trade) : null,
+    ]);
+}
+
+// Reserves a bar for the paper account; false when a concurrent poll already applied it
+export async function claimPaperBar(contract: string, barTime: number): Promise<boolean> {
+    return getStorage().set(paperFillKey(contract, barTime), true, { onlyIfAbsent: true, ttlSeconds: FILL_CLAIM_TTL_SECONDS });
+}
+
+// Most recent closed trades first
+export async function listPaperTrades(contract: string, count = 50): Promise<PaperTrade[]> {
+    return getStorage().latest<PaperTrade>(paperTradesKey(contract), count);
+}
+
+// Back to the initial equity, flat, with the trade log cleared
+export async function resetPaperAccount(contract: string, config: PaperTradingConfig): Promise<PaperAccount> {
+    const account = newPaperAccount(contract, config, Date.now());
+    const storage = getStorage();
+    await Promise.all([storage.set(paperAccountKey(contract), account), storage.del(paperTradesKey(contract))]);
+    return account;
+}
@@ -1,4 +1,10 @@
 import type { PositionInfoFromAPI, ScoreDetail } from './types';
+import { DEFAULT_STRATEGY_CONFIG, type RecommendationConfig } from './strategyConfig';
+import type { MarketRegime } from './regime';
+import type { SignalState } from './confirmation';
+import { holdabilityMaxScore } from './holdabilityScore';
+import type { TradePlan, TrailingStop } from './tradePlan';
+import type { MessageParams, MessageRef } from './i18n';
 
 // --- Types (Copied from SignalDecision.tsx and types.ts for self-containment) ---
 
@@ -16,6 +22,8 @@ export interface OpeningSignalSummary {
   short_signalTypes?: string[];
   short_details?: ScoreDetail[];
   ema15m_trend?: 'up' | 'down' | 'flat';
+  low_confidence?: boolean; // Scores computed on degraded candle data
+  confirmation?: SignalState | null; // When present, only a confirmed (active) side opens
 }
 
 // Define the structure for market context needed by the function
@@ -24,13 +32,102 @@ export interface MarketContextSummary {
     fng_classification: string | null;
     btc_daily_trend: 'up' | 'down' | 'flat' | null;
     btc_daily_ema50: number | null;
+    regime?: MarketRegime | null;
 }
 
+// Machine-readable action; display text lives in lib/recommendationText.ts
+export type RecommendationAction =
+  | 'OPEN_LONG'
+  | 'OPEN_SHORT'
+  | 'WAIT'
+  | 'HOLD_LONG'
+  | 'HOLD_SHORT'
+  | 'CLOSE_LONG' // Holdability too low
+  | 'CLOSE_SHORT'
+  | 'CLOSE_LONG_URGENT' // Strong counter signal
+  | 'CLOSE_SHORT_URGENT'
+  | 'NO_DATA'
+  | 'INVALID_STATE';
+
+export const RECOMMENDATION_ACTIONS: RecommendationAction[] = [
+  'OPEN_LONG', 'OPEN_SHORT', 'WAIT', 'HOLD_LONG', 'HOLD_SHORT', 'CLOSE_LONG', 'CLOSE_SHORT',
+  'CLOSE_LONG_URGENT', 'CLOSE_SHORT_URGENT', 'NO_DATA', 'INVALID_STATE',
+];
+
+// Direction of the order an action implies (closing a long sells, i.e. trades short)
+export const ACTION_TRADE_SIDE: Record<RecommendationAction, 'long' | 'short' | null> = {
+  OPEN_LONG: 'long',
+  OPEN_SHORT: 'short',
+  WAIT: null,
+  HOLD_LONG: null,
+  HOLD_SHORT: null,
+  CLOSE_LONG: 'short',
+  CLOSE_SHORT: 'long',
+  CLOSE_LONG_URGENT: 'short',
+  CLOSE_SHORT_URGENT: 'long',
+  NO_DATA: null,
+  INVALID_STATE: null,
+};
+
+export type RecommendationReasonCode =
+  | 'SIGNAL_CONDITION' // { condition }: a met opening-rule condition
+  | 'CONFIRMATION_PENDING' // { side, hits, confirmBars, windowBars }
+  | 'FNG_EXTREME_GREED' // { value }
+  | 'FNG_EXTREME_FEAR' // { value }
+  | 'LOW_CONFIDENCE_DATA'
+  | 'SHOCK_REGIME'
+  | 'SCORE_BELOW_THRESHOLD'
+  | 'BTC_DAILY_TREND' // { trend }
+  | 'MARKET_REGIME' // { regime }
+  | 'COUNTER_SIGNAL' // { side, score }
+  | 'HOLDABILITY_LOW' // { score, max }
+  | 'HOLDABILITY_RISK' // { condition }: an unmet holdability condition
+  | 'HOLDABILITY_SCORE' // { score, max }
+  | 'RISK_OK'
+  | 'TRAILING_STOP' // { level, basis }
+  | 'TRAILING_STOP_HIT' // { level, basis }: price closed beyond the trailing stop
+  | 'WATCH_TRAILING'
+  | 'GUARDRAIL_TRIPPED' // { guardrail }: a risk guardrail forced WAIT / CLOSE (lib/guardrails.ts)
+  | 'AWAITING_DATA'
+  | 'UNKNOWN_POSITION';
+
+export interface RecommendationReason {
+  code: RecommendationReasonCode;
+  params?: MessageParams; // Values may be message refs (e.g. a scoring condition) resolved by lib/i18n
+}
+
+export type ConfidenceLevel = 'High' | 'Medium' | 'Low';
+
 // Define the structure for the recommendation result
 export interface Recommendation {
-  action: string;
-  reasons: string[];
-  level?: 'High' | 'Medium' | 'Low'; // Optional confidence level
+  action: RecommendationAction;
+  side: 'long' | 'short' | null; // Position side the action concerns (open, hold or close)
+  level: ConfidenceLevel;
+  reasons: RecommendationReason[];
+  trade_plan?: TradePlan | null; // Entry zone, stop and targets when suggesting to open
+  trailing_stop?: TrailingStop | null; // Suggested trailing stop while holding
+}
+
+// Keyed condition text, falling back to the stored label for custom rules
+const conditionRef = (detail: ScoreDetail): MessageRef =>
+  ({ key: detail.key ?? '', params: detail.params, text: detail.condition });
+
+// Records stored before structured actions have free-text action/reasons
+export function isStructuredRecommendation(value: unknown): value is Recommendation {
+  const rec = value as Recommendation | null;
+  return !!rec && RECOMMENDATION_ACTIONS.includes(rec.action) && Array.isArray(rec.reasons)
+    && rec.reasons.every(r => typeof r === 'object' && r !== null && 'code' in r);
+}
+
+// Actions that map to an order (lib/execution): openings and closes
+export const isExecutableAction = (action: RecommendationAction): boolean =>
+  action.startsWith('OPEN_') || action.startsWith('CLOSE_');
+
+// Plans prepared by the caller from the candle data (see lib/tradePlan.ts)
+export interface TradePlanSet {
+  long?: TradePlan | null;
+  short?: TradePlan | null;
+  trailing?: TrailingStop | null; // For the side currently held (lib/trailingStop.ts)
 }
 
 // --- Professional Recommendation Logic ---
@@ -39,106 +136,121 @@ export function generateProfessionalRecommendation(
     openingSignal: OpeningSignalSummary | null,
     holdabilityScore: number | null,
     holdabilityDetails: ScoreDetail[] | null,
-    marketContext: MarketContextSummary | null
+    marketContext: MarketContextSummary | null,
+    config: RecommendationConfig = DEFAULT_STRATEGY_CONFIG.recommendation,
+    plans: TradePlanSet = {}
 ): Recommendation {
 
-    // --- Thresholds (can be adjusted) ---
-    const openThreshold = 7; // Higher threshold for opening
-    const strongCloseThreshold = 7; // Threshold for strong counter-signal suggesting immediate close
-    const holdRiskThreshold = 5; // If holdability score is below this, consider closing
+    // --- Thresholds (from strategy config) ---
+    const { openThreshold, strongCloseThreshold, holdRiskRatio, trendAlignedDiscount } = config;
 
-    const reasons: string[] = [];
+    const reasons: RecommendationReason[] = [];
+    const reason = (code: RecommendationReasonCode, params?: RecommendationReason['params']) => reasons.push({ code, params });
+    const metConditions = (details: ScoreDetail[] | undefined): RecommendationReason[] =>
+        details?.filter(d => d.met).map(d => ({ code: 'SIGNAL_CONDITION' as const, params: { condition: conditionRef(d) } })) ?? [];
+    // Max follows the conditions actually evaluated (null for older records without weights)
+    const holdMax = (holdabilityDetails && holdabilityMaxScore(holdabilityDetails)) || null;
+    // Judged relative to that max, so missing position data doesn't move the bar (no max = nothing holdable)
+    const holdRatio = holdabilityScore === null ? null : holdMax ? holdabilityScore / holdMax : 0;
 
     // --- Decision Logic ---
 
     // 1. Handle No Data Case
     if (!openingSignal || !marketContext) {
         // Return a specific state for loading/missing data
-        return { action: '数据不足', reasons: ['等待信号数据...'] };
+        return { action: 'NO_DATA', side: null, level: 'Low', reasons: [{ code: 'AWAITING_DATA' }] };
     }
 
-    const { long_score, short_score, long_details, short_details, ema15m_trend } = openingSignal;
-    const { btc_daily_trend, fng_value, fng_classification } = marketContext;
+    const { long_score, short_score, long_details, short_details, low_confidence, confirmation } = openingSignal;
+    const { btc_daily_trend, fng_value, regime } = marketContext;
 
     // 2. Decision when Flat (空仓)
     if (positionStatus === '空仓') {
         const preferLong = btc_daily_trend === 'up';
         const preferShort = btc_daily_trend === 'down';
-        const fngExtremeFear = fng_value !== null && fng_value < 25; // Example threshold
-        const fngExtremeGreed = fng_value !== null && fng_value > 75; // Example threshold
+        const fngExtremeFear = fng_value !== null && fng_value < config.fngExtremeFear;
+        const fngExtremeGreed = fng_value !== null && fng_value > config.fngExtremeGreed;
 
         let openLongCondition = long_score >= openThreshold && long_score > short_score;
         let openShortCondition = short_score >= openThreshold && short_score > long_score;
 
         // Factor in BTC trend
-        if (preferLong && !openLongCondition && long_score >= openThreshold -1) openLongCondition = true; // Slightly lower threshold if BTC trend aligns
-        if (preferShort && !openShortCondition && short_score >= openThreshold -1) openShortCondition = true;
+        if (preferLong && !openLongCondition && long_score >= openThreshold - trendAlignedDiscount) openLongCondition = true; // Slightly lower threshold if BTC trend aligns
+        if (preferShort && !openShortCondition && short_score >= openThreshold - trendAlignedDiscount) openShortCondition = true;
+
+        // Confirmation: the score must hold for N of the last M bars; a single-bar spike only waits
+        let awaitingConfirmation = false;
+        if (confirmation) {
+            const { hits, confirm_bars, window_bars } = confirmation;
+            const pendingLong = openLongCondition && confirmation.active !== 'long';
+            const pendingShort = openShortCondition && confirmation.active !== 'short';
+            if (pendingLong) reason('CONFIRMATION_PENDING', { side: 'long', hits: hits.long, confirmBars: confirm_bars, windowBars: window_bars });
+            if (pendingShort) reason('CONFIRMATION_PENDING', { side: 'short', hits: hits.short, confirmBars: confirm_bars, windowBars: window_bars });
+            awaitingConfirmation = pendingLong || pendingShort;
+            openLongCondition = confirmation.active === 'long';
+            openShortCondition = confirmation.active === 'short';
+        }
 
         // Factor in FNG (Be cautious opening against extreme sentiment)
-        if (fngExtremeGreed && openLongCondition) reasons.push("注意：市场极度贪婪，谨慎追多");
-        if (fngExtremeFear && openShortCondition) reasons.push("注意：市场极度恐惧，谨慎追空");
+        const againstSentiment = (fngExtremeGreed && openLongCondition) || (fngExtremeFear && openShortCondition);
+        if (fngExtremeGreed && openLongCondition) reason('FNG_EXTREME_GREED', { value: fng_value });
+        if (fngExtremeFear && openShortCondition) reason('FNG_EXTREME_FEAR', { value: fng_value });
+
+        // Degraded candle data (gaps / bad rows) -> signal is low confidence
+        if (low_confidence && (openLongCondition || openShortCondition)) reason('LOW_CONFIDENCE_DATA');
+        if (regime === 'shock' && (openLongCondition || openShortCondition)) reason('SHOCK_REGIME');
+        // Low on any caution; High when the BTC daily trend agrees with the side
+        const openLevel = (trendAligned: boolean): ConfidenceLevel =>
+            low_confidence || regime === 'shock' || againstSentiment ? 'Low' : trendAligned ? 'High' : 'Medium';
 
         if (openLongCondition) {
-            reasons.unshift(...(long_details?.filter(d => d.met).map(d => d.condition) ?? [])); // Add reasons from details
-            return { action: '建议：开多仓', reasons };
+            reasons.unshift(...metConditions(long_details)); // Add reasons from details
+            return { action: 'OPEN_LONG', side: 'long', level: openLevel(preferLong), reasons, trade_plan: plans.long ?? null };
         }
         if (openShortCondition) {
-             reasons.unshift(...(short_details?.filter(d => d.met).map(d => d.condition) ?? []));
-            return { action: '建议：开空仓', reasons };
+            reasons.unshift(...metConditions(short_details));
+            return { action: 'OPEN_SHORT', side: 'short', level: openLevel(preferShort), reasons, trade_plan: plans.short ?? null };
         }
 
-        reasons.push("开仓评分未达阈值或方向不明");
-        if (btc_daily_trend) reasons.push(`当前BTC日线趋势: ${btc_daily_trend}`);
-        return { action: '建议：观望', reasons };
+        if (!awaitingConfirmation) reason('SCORE_BELOW_THRESHOLD');
+        if (btc_daily_trend) reason('BTC_DAILY_TREND', { trend: btc_daily_trend });
+        if (regime) reason('MARKET_REGIME', { regime });
+        return { action: 'WAIT', side: null, level: 'Medium', reasons };
     }
 
-    // 3. Decision when Holding Long (持多)
-    if (positionStatus === 'long') {
+    // 3./4. Decision when Holding (持多 / 持空)
+    if (positionStatus === 'long' || positionStatus === 'short') {
+        const side = positionStatus;
+        const counterSide = side === 'long' ? 'short' : 'long';
+        const counterScore = side === 'long' ? short_score : long_score;
         // Check for strong counter signal first
-        if (short_score >= strongCloseThreshold) {
-            reasons.push(`强空头信号出现 (评分: ${short_score})`);
-            reasons.push(...(short_details?.filter(d => d.met).map(d => d.condition) ?? []));
-            return { action: '建议：立即平多仓 (风险信号)', reasons };
+        if (counterScore >= strongCloseThreshold) {
+            reason('COUNTER_SIGNAL', { side: counterSide, score: counterScore });
+            reasons.push(...metConditions(side === 'long' ? short_details : long_details));
+            return { action: side === 'long' ? 'CLOSE_LONG_URGENT' : 'CLOSE_SHORT_URGENT', side, level: 'High', reasons };
         }
-        // Check holdability score
-        if (holdabilityScore !== null && holdabilityScore < holdRiskThreshold) {
-            reasons.push(`扛单评分低 (${holdabilityScore}/9)`);
-            // Add key reasons for low score
-            holdabilityDetails?.filter(d => !d.met && d.score > 0).forEach(d => reasons.push(`风险: ${d.condition}`));
-            return { action: '建议：考虑平多仓 (扛单风险高)', reasons };
-        }
-        // Otherwise, suggest holding / manage position
-        reasons.push(`扛单评分: ${holdabilityScore ?? 'N/A'}/9`);
-        if (holdabilityScore !== null && holdabilityScore >= holdRiskThreshold) {
-             reasons.push("关键风险指标尚可");
-        }
-        reasons.push("关注移动止盈或保险线");
-        return { action: '建议：继续持多 / 移止盈', reasons };
-    }
-
-    // 4. Decision when Holding Short (持空)
-    if (positionStatus === 'short') {
-        // Check for strong counter signal first
-        if (long_score >= strongCloseThreshold) {
-            reasons.push(`强多头信号出现 (评分: ${long_score})`);
-             reasons.push(...(long_details?.filter(d => d.met).map(d => d.condition) ?? []));
-            return { action: '建议：立即平空仓 (风险信号)', reasons };
+        // Trailing stop breached: close regardless of holdability
+        if (plans.trailing?.breached) {
+            reason('TRAILING_STOP_HIT', { level: plans.trailing.level, basis: plans.trailing.basis });
+            return { action: side === 'long' ? 'CLOSE_LONG' : 'CLOSE_SHORT', side, level: 'High', reasons, trailing_stop: plans.trailing };
         }
         // Check holdability score
-        if (holdabilityScore !== null && holdabilityScore < holdRiskThreshold) {
-            reasons.push(`扛单评分低 (${holdabilityScore}/9)`);
-            holdabilityDetails?.filter(d => !d.met && d.score > 0).forEach(d => reasons.push(`风险: ${d.condition}`));
-            return { action: '建议：考虑平空仓 (扛单风险高)', reasons };
+        if (holdRatio !== null && holdRatio < holdRiskRatio) {
+            reason('HOLDABILITY_LOW', { score: holdabilityScore, max: holdMax });
+            // Add key reasons for low score
+            holdabilityDetails?.filter(d => !d.met && (d.weight ?? 0) > 0)
+                .forEach(d => reason('HOLDABILITY_RISK', { condition: conditionRef(d) }));
+            return { action: side === 'long' ? 'CLOSE_LONG' : 'CLOSE_SHORT', side, level: 'Medium', reasons };
         }
         // Otherwise, suggest holding / manage position
-        reasons.push(`扛单评分: ${holdabilityScore ?? 'N/A'}/9`);
-         if (holdabilityScore !== null && holdabilityScore >= holdRiskThreshold) {
-             reasons.push("关键风险指标尚可");
-        }
-        reasons.push("关注移动止盈或保险线");
-        return { action: '建议：继续持空 / 移止盈', reasons };
+        reason('HOLDABILITY_SCORE', { score: holdabilityScore, max: holdMax });
+        if (holdRatio !== null && holdRatio >= holdRiskRatio) reason('RISK_OK');
+        if (plans.trailing) reason('TRAILING_STOP', { level: plans.trailing.level, basis: plans.trailing.basis });
+        else reason('WATCH_TRAILING');
+        const level: ConfidenceLevel = holdRatio === null ? 'Low' : holdRatio >= 2 / 3 ? 'High' : 'Medium';
+        return { action: side === 'long' ? 'HOLD_LONG' : 'HOLD_SHORT', side, level, reasons, trailing_stop: plans.trailing ?? null };
     }
 
     // Fallback
-    return { action: '状态错误', reasons: ['无法识别的持仓状态'] };
+    return { action: 'INVALID_STATE', side: null, level: 'Low', reasons: [{ code: 'UNKNOWN_POSITION' }] };
 }
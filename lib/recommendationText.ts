@@ -0,0 +1,24 @@
+import { translate, type Locale, type MessageParams } from './i18n';
+import type { ConfidenceLevel, Recommendation, RecommendationAction, RecommendationReason } from './recommendation';
+
+// Display text for structured recommendations. Kept apart from the decision logic
+// so stored records stay language-neutral and wording lives in the lib/i18n catalogs.
+
+export const actionLabel = (locale: Locale, action: RecommendationAction): string => translate(locale, `action.${action}`);
+
+export const levelLabel = (locale: Locale, level: ConfidenceLevel): string => translate(locale, `level.${level}`);
+
+// Enum-valued params (side, trend, regime) are shown through their own message keys
+const ENUM_PARAMS: Record<string, string> = { side: 'side', trend: 'trend', regime: 'regime' };
+
+export function formatReason(locale: Locale, { code, params = {} }: RecommendationReason): string {
+    const resolved: MessageParams = { ...params };
+    Object.keys(ENUM_PARAMS).forEach(name => {
+        const value = params[name];
+        if (typeof value === 'string') resolved[name] = { key: `${ENUM_PARAMS[name]}.${value}`, text: value };
+    });
+    return translate(locale, `reason.${code}`, resolved, code);
+}
+
+export const formatReasons = (locale: Locale, recommendation: Recommendation): string[] =>
+    recommendation.reasons.map(reason => formatReason(locale, reason));
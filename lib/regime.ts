@@ -0,0 +1,126 @@
+import type { CandleData } from './types';
+import { sma } from './indicators';
+import { getIndicator } from './indicatorRegistry';
+import type { TrendDirection } from './timeframes';
+
+// Market regime per bar: directional trend, mean-reverting range, or a volatility shock.
+// Inputs are ATR vs its average, Bollinger width vs its average, ADX level and slope
+// with the DI spread for direction, and the higher-timeframe (15m) structure.
+
+export type MarketRegime = 'trend_up' | 'trend_down' | 'range' | 'shock';
+
+export interface RegimeConfig {
+    adxPeriod: number;
+    adxTrendThreshold: number; // ADX at or above this (and not falling) = trending
+    adxSlopeBars: number; // ADX slope = ADX now - ADX this many bars ago
+    atrMaPeriod: number;
+    shockAtrRatio: number; // ATR / ATR MA at or above this = shock
+    bbWidthMaPeriod: number; // Trend also needs BB width at or above its average (bands expanding)
+    structureTimeframe: string; // Higher timeframe whose EMA structure must not oppose the trend
+    structureEmaPeriod: number;
+    profiles: Record<MarketRegime, Record<string, number>>; // Opening rule id -> weight, per regime
+}
+
+export interface RegimeInputs {
+    atr: number | null;
+    atr_ma: number | null;
+    atr_ratio: number | null;
+    bb_width_pct: number | null; // BB width / middle band, in %
+    bb_width_ma_pct: number | null;
+    adx: number | null;
+    adx_slope: number | null;
+    di_plus: number | null;
+    di_minus: number | null;
+    structure: TrendDirection;
+}
+
+export interface RegimeResult {
+    timestamp: number;
+    regime: MarketRegime;
+    inputs: RegimeInputs;
+}
+
+const field = (candle: CandleData, name: string): number | null =>
+    typeof candle[name] === 'number' ? (candle[name] as number) : null;
+
+// Pad an SMA over the non-null tail of a series back to full length
+const smaOfAvailable = (values: (number | null)[], period: number): (number | null)[] => {
+    const firstIndex = values.findIndex(v => v !== null);
+    if (firstIndex < 0) return values.map(() => null);
+    const tail = values.slice(firstIndex).map(v => v ?? 0);
+    return Array(firstIndex).fill(null).concat(sma(tail, period));
+};
+
+// Structure on a higher timeframe: close and EMA slope agree on a side
+export function emaStructure(candles: CandleData[], period: number): { timestamp: number; structure: TrendDirection }[] {
+    const emaDefinition = getIndicator('EMA')!;
+    const emaValues = emaDefinition.compute(candles, { period }).EMA;
+    return candles.map((c, i) => {
+        const current = emaValues[i];
+        const previous = i > 0 ? emaValues[i - 1] : null;
+        let structure: TrendDirection = 'flat';
+        if (current !== null && previous !== null) {
+            if (c.close > current && current > previous) structure = 'up';
+            else if (c.close < current && current < previous) structure = 'down';
+        }
+        return { timestamp: c.timestamp, structure };
+    });
+}
+
+export function classifyRegimeInputs(inputs: RegimeInputs, config: RegimeConfig): MarketRegime {
+    if (inputs.atr_ratio !== null && inputs.atr_ratio >= config.shockAtrRatio) return 'shock';
+    const trending = inputs.adx !== null && inputs.adx >= config.adxTrendThreshold
+        && (inputs.adx_slope ?? 0) >= 0
+        && (inputs.bb_width_pct === null || inputs.bb_width_ma_pct === null || inputs.bb_width_pct >= inputs.bb_width_ma_pct);
+    if (trending && inputs.di_plus !== null && inputs.di_minus !== null) {
+        if (inputs.di_plus > inputs.di_minus && inputs.structure !== 'down') return 'trend_up';
+        if (inputs.di_minus > inputs.di_plus && inputs.structure !== 'up') return 'trend_down';
+    }
+    return 'range'; // Includes warm-up bars without enough history for ADX
+}
+
+// Label every bar of an enriched 1m series (needs ATR14, BB_* from the core indicators).
+// `structureAt` maps a bar timestamp to the higher-timeframe structure at that time.
+export function classifyRegimes(
+    data: CandleData[],
+    config: RegimeConfig,
+    structureAt: (timestamp: number) => TrendDirection = () => 'flat'
+): RegimeResult[] {
+    const adx = getIndicator('ADX')!.compute(data, { period: config.adxPeriod });
+    const atr = data.map(c => field(c, 'ATR14'));
+    const atrMa = smaOfAvailable(atr, config.atrMaPeriod);
+    const bbWidthPct = data.map(c => {
+        const width = field(c, 'BB_Width');
+        const middle = field(c, 'BB_Middle');
+        return width !== null && middle ? (width / middle) * 100 : null;
+    });
+    const bbWidthMa = smaOfAvailable(bbWidthPct, config.bbWidthMaPeriod);
+
+    return data.map((candle, i) => {
+        const adxNow = adx.ADX[i];
+        const adxBefore = i >= config.adxSlopeBars ? adx.ADX[i - config.adxSlopeBars] : null;
+        const inputs: RegimeInputs = {
+            atr: atr[i],
+            atr_ma: atrMa[i],
+            atr_ratio: atr[i] !== null && atrMa[i] ? atr[i]! / atrMa[i]! : null,
+            bb_width_pct: bbWidthPct[i],
+            bb_width_ma_pct: bbWidthMa[i],
+            adx: adxNow,
+            adx_slope: adxNow !== null && adxBefore !== null ? adxNow - adxBefore : null,
+            di_plus: adx.DI_Plus[i],
+            di_minus: adx.DI_Minus[i],
+            structure: structureAt(candle.timestamp),
+        };
+        return { timestamp: candle.timestamp, regime: classifyRegimeInputs(inputs, config), inputs };
+    });
+}
+
+// Structure in force at `timestamp`: the latest higher-timeframe bucket starting at or before it
+export function structureLookup(points: { timestamp: number; structure: TrendDirection }[]): (timestamp: number) => TrendDirection {
+    return timestamp => {
+        for (let i = points.length - 1; i >= 0; i--) {
+            if (points[i].timestamp <= timestamp) return points[i].structure;
+        }
+        return 'flat';
+    };
+}
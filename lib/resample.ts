@@ -0,0 +1,48 @@
+import type { CandleData } from './types';
+import { intervalToMs } from './interval';
+
+// Build higher-timeframe candles (3m, 5m, 15m, 1h, 4h, ...) from a finer series.
+// Buckets are aligned to epoch boundaries in UTC, which is how Gate.io buckets
+// futures candlesticks up to 1d, so a resampled 15m bar matches the exchange's.
+
+export function canResample(fromInterval: string, toInterval: string): boolean {
+    const from = intervalToMs(fromInterval);
+    const to = intervalToMs(toInterval);
+    return to >= from && to % from === 0;
+}
+
+// Aggregate `candles` (sorted, `fromInterval` apart) into `toInterval` buckets.
+// A leading bucket that starts before the first source bar is dropped since its
+// open/high/low would be incomplete; the trailing bucket is kept and may still be forming.
+export function resampleCandles(candles: CandleData[], toInterval: string, fromInterval = '1m'): CandleData[] {
+    if (!canResample(fromInterval, toInterval)) {
+        throw new Error(`Cannot resample ${fromInterval} candles into ${toInterval}`);
+    }
+    const bucketMs = intervalToMs(toInterval);
+    const result: CandleData[] = [];
+    let current: CandleData | null = null;
+
+    for (const c of candles) {
+        const bucket = Math.floor(c.timestamp / bucketMs) * bucketMs;
+        if (current && current.timestamp === bucket) {
+            current.high = Math.max(current.high, c.high);
+            current.low = Math.min(current.low, c.low);
+            current.close = c.close;
+            current.volume += c.volume;
+            if (c.synthetic) current.synthetic = true;
+            continue;
+        }
+        if (!current && c.timestamp !== bucket) continue; // Partial leading bucket
+        current = {
+            timestamp: bucket,
+            open: c.open,
+            high: c.high,
+            low: c.low,
+            close: c.close,
+            volume: c.volume,
+            ...(c.synthetic ? { synthetic: true } : {}),
+        };
+        result.push(current);
+    }
+    return result;
+}
@@ -0,0 +1,230 @@
+import type { CandleData, ScoreDetail } from './types';
+import type { MessageParams } from './i18n';
+
+// Opening-signal scoring rules expressed as data. Each rule is written once for the
+// long side; the short side is derived by mirroring comparison operators (> ↔ <,
+// crossAbove ↔ crossBelow) unless the rule supplies its own short condition.
+
+export type Direction = 'long' | 'short';
+
+// A value read while evaluating a condition
+export type Operand =
+    | number
+    | string
+    | { field: string; bar?: number; abs?: boolean; times?: Operand } // Candle field, `bar` bars back from latest
+    | { config: string; times?: Operand } // Dotted path into the strategy config, e.g. 'opening.volumeMultiplier'
+    | { context: string } // Value supplied by the caller, e.g. 'trend'
+    | { long: Operand; short: Operand }; // Per-direction value (thresholds, 'up'/'down')
+
+export type Condition =
+    | { op: '>' | '<' | '>=' | '<=' | '=='; left: Operand; right: Operand; fixed?: boolean } // fixed: never mirrored
+    | { op: 'crossAbove' | 'crossBelow'; left: Operand; right: Operand } // Compared against the previous bar
+    | { op: 'isNull'; value: Operand }
+    | { op: 'all' | 'any'; of: Condition[] }
+    | { op: 'not'; of: Condition };
+
+export type RuleText = string | { long: string; short: string };
+
+export interface ScoringRule {
+    id: string;
+    label: RuleText; // '{path}' placeholders resolve from the context, then the config
+    labelKey?: string; // Message key for the label (per-direction labels append .long/.short)
+    weight: number;
+    type: string; // Signal category reported in `types` when met
+    when: Condition; // Long-side condition
+    whenShort?: Condition; // Explicit short-side condition instead of mirroring
+    directions?: Direction[]; // Default both
+    enabled?: boolean; // Default true
+}
+
+export interface RuleEvaluationContext {
+    config: object;
+    values?: Record<string, string | number | null>; // Caller-supplied values for { context } operands and labels
+}
+
+export interface RuleScoreResult {
+    score: number;
+    maxScore: number;
+    reasons: string[];
+    types: string[];
+    details: ScoreDetail[];
+}
+
+const MIRRORED_OPS: Record<string, string> = {
+    '>': '<', '<': '>', '>=': '<=', '<=': '>=', '==': '==', crossAbove: 'crossBelow', crossBelow: 'crossAbove',
+};
+
+export function mirrorCondition(condition: Condition): Condition {
+    switch (condition.op) {
+        case 'all':
+        case 'any':
+            return { ...condition, of: condition.of.map(mirrorCondition) };
+        case 'not':
+            return { ...condition, of: mirrorCondition(condition.of) };
+        case 'isNull':
+            return condition;
+        default:
+            if ('fixed' in condition && condition.fixed) return condition;
+            return { ...condition, op: MIRRORED_OPS[condition.op] } as Condition;
+    }
+}
+
+const readPath = (source: object, path: string): unknown =>
+    path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), source);
+
+const asValue = (value: unknown): number | string | null =>
+    typeof value === 'number' || typeof value === 'string' ? value : null;
+
+function resolveOperand(
+    operand: Operand,
+    data: CandleData[],
+    direction: Direction,
+    context: RuleEvaluationContext,
+    barOffset = 0
+): number | string | null {
+    if (typeof operand === 'number' || typeof operand === 'string') return operand;
+    if ('long' in operand) return resolveOperand(operand[direction], data, direction, context, barOffset);
+    if ('context' in operand) return asValue(context.values?.[operand.context]);
+
+    let value: number | string | null;
+    if ('config' in operand) {
+        value = asValue(readPath(context.config, operand.config));
+    } else {
+        const candle = data[data.length - 1 - (operand.bar ?? 0) - barOffset];
+        value = asValue(candle?.[operand.field]);
+        if (typeof value === 'number' && operand.abs) value = Math.abs(value);
+    }
+    if (operand.times !== undefined) {
+        const factor = resolveOperand(operand.times, data, direction, context, barOffset);
+        value = typeof value === 'number' && typeof factor === 'number' ? value * factor : null;
+    }
+    return value;
+}
+
+const compare = (op: string, left: number | string | null, right: number | string | null): boolean => {
+    if (left === null || right === null) return false;
+    switch (op) {
+        case '>': return left > right;
+        case '<': return left < right;
+        case '>=': return left >= right;
+        case '<=': return left <= right;
+        default: return left === right;
+    }
+};
+
+export function evaluateCondition(
+    condition: Condition,
+    data: CandleData[],
+    direction: Direction,
+    context: RuleEvaluationContext
+): boolean {
+    const value = (operand: Operand, barOffset = 0) => resolveOperand(operand, data, direction, context, barOffset);
+    switch (condition.op) {
+        case 'all':
+            return condition.of.every(c => evaluateCondition(c, data, direction, context));
+        case 'any':
+            return condition.of.some(c => evaluateCondition(c, data, direction, context));
+        case 'not':
+            return !evaluateCondition(condition.of, data, direction, context);
+        case 'isNull':
+            return value(condition.value) === null;
+        case 'crossAbove':
+            return compare('<=', value(condition.left, 1), value(condition.right, 1))
+                && compare('>', value(condition.left), value(condition.right));
+        case 'crossBelow':
+            return compare('>=', value(condition.left, 1), value(condition.right, 1))
+                && compare('<', value(condition.left), value(condition.right));
+        default:
+            return compare(condition.op, value(condition.left), value(condition.right));
+    }
+}
+
+const placeholderValue = (path: string, context: RuleEvaluationContext) =>
+    context.values?.[path] ?? asValue(readPath(context.config, path));
+
+// Fill '{path}' placeholders from context values first, then the strategy config
+export function formatRuleLabel(label: RuleText, direction: Direction, context: RuleEvaluationContext): string {
+    const text = typeof label === 'string' ? label : label[direction];
+    return text.replace(/\{([\w.]+)\}/g, (match, path: string) => {
+        const value = placeholderValue(path, context);
+        return value === null || value === undefined ? match : String(value);
+    });
+}
+
+// Placeholder values of a label, passed as message params so catalogs can reuse them
+export function ruleLabelParams(label: RuleText, direction: Direction, context: RuleEvaluationContext): MessageParams {
+    const text = typeof label === 'string' ? label : label[direction];
+    const params: MessageParams = {};
+    text.replace(/\{([\w.]+)\}/g, (match, path: string) => {
+        params[path] = placeholderValue(path, context);
+        return match;
+    });
+    return params;
+}
+
+export const ruleLabelKey = (rule: ScoringRule, direction: Direction): string | undefined =>
+    rule.labelKey && (typeof rule.label === 'string' ? rule.labelKey : `${rule.labelKey}.${direction}`);
+
+export const isRuleActive = (rule: ScoringRule, direction: Direction): boolean =>
+    rule.enabled !== false && (rule.directions ?? ['long', 'short']).includes(direction);
+
+// Highest score reachable for a direction with the given rule set
+export function maxRuleScore(rules: ScoringRule[], direction: Direction): number {
+    return rules.filter(r => isRuleActive(r, direction)).reduce((sum, r) => sum + r.weight, 0);
+}
+
+export function evaluateRules(
+    rules: ScoringRule[],
+    data: CandleData[],
+    direction: Direction,
+    context: RuleEvaluationContext
+): RuleScoreResult {
+    const result: RuleScoreResult = { score: 0, maxScore: maxRuleScore(rules, direction), reasons: [], types: [], details: [] };
+    rules.filter(r => isRuleActive(r, direction)).forEach(rule => {
+        const condition = direction === 'long' ? rule.when : rule.whenShort ?? mirrorCondition(rule.when);
+        const met = evaluateCondition(condition, data, direction, context);
+        const label = formatRuleLabel(rule.label, direction, context);
+        const score = met ? rule.weight : 0;
+        if (met) {
+            result.score += score;
+            result.reasons.push(label);
+            result.types.push(rule.type);
+        }
+        result.details.push({
+            condition: label,
+            met,
+            score,
+            weight: rule.weight,
+            key: ruleLabelKey(rule, direction),
+            params: ruleLabelParams(rule.label, direction, context),
+        });
+    });
+    return result;
+}
+
+// Apply a weight profile (rule id -> weight); a weight of 0 drops the rule from the max score
+export function reweightRules(rules: ScoringRule[], weights: Record<string, number> = {}): ScoringRule[] {
+    return rules.map(rule => {
+        if (weights[rule.id] === undefined) return rule;
+        return { ...rule, weight: weights[rule.id], enabled: rule.enabled !== false && weights[rule.id] > 0 };
+    });
+}
+
+// Overrides keyed by id: existing rules are patched (reweight, disable), unknown ids are appended
+export type ScoringRuleOverride = Partial<ScoringRule> & { id: string };
+
+export function mergeScoringRules(base: ScoringRule[], overrides: ScoringRuleOverride[] = []): ScoringRule[] {
+    const merged = base.map((rule): ScoringRule => {
+        const override = overrides.find(o => o.id === rule.id);
+        // A replaced label no longer matches the catalog text for the rule's key
+        const labelKey = override?.label && !override.labelKey ? undefined : rule.labelKey;
+        return { ...rule, ...override, labelKey: override?.labelKey ?? labelKey };
+    });
+    overrides.filter(o => !base.some(rule => rule.id === o.id)).forEach(o => {
+        if (!o.label || o.weight === undefined || !o.type || !o.when) {
+            throw new Error(`New scoring rule ${o.id} needs label, weight, type and when`);
+        }
+        merged.push(o as ScoringRule);
+    });
+    return merged;
+}
@@ -0,0 +1,38 @@
+import { getStorage } from './storage';
+import { DEFAULT_CONTRACT, LEGACY_HISTORY_KEY, historyKey } from './contracts';
+import type { SignalProps } from './types';
+
+// Signal history per contract, one record per /api/signal evaluation, scored by bar time (server-side only)
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keys holding the contract's history: its own, plus the pre-multi-contract one for the default contract
+const historyKeys = (contract: string): string[] =>
+    contract === DEFAULT_CONTRACT ? [historyKey(contract), LEGACY_HISTORY_KEY] : [historyKey(contract)];
+
+const isRecord = (r: unknown): r is SignalProps => r !== null && typeof r === 'object';
+const byTime = (a: SignalProps, b: SignalProps) => (a.time ?? 0) - (b.time ?? 0);
+
+// Appends the record and prunes records older than ttlDays (0 or invalid = keep forever); returns how many were pruned
+export async function appendSignalRecord(contract: string, record: Omit<SignalProps, 'isLoading' | 'error'>, ttlDays: number): Promise<number> {
+    const storage = getStorage();
+    await storage.append(historyKey(contract), record.time!, record);
+    if (isNaN(ttlDays) || ttlDays <= 0) return 0;
+    const cutoff = Date.now() - ttlDays * DAY_MS;
+    const removed = await Promise.all(historyKeys(contract).map(key => storage.removeUpTo(key, cutoff)));
+    return removed.reduce((sum, count) => sum + count, 0);
+}
+
+// Records with from <= time <= to, oldest first
+export async function signalRecordsBetween(contract: string, from: number, to: number): Promise<SignalProps[]> {
+    const storage = getStorage();
+    const records = await Promise.all(historyKeys(contract).map(key => storage.range<SignalProps>(key, from, to)));
+    return records.flat().filter(isRecord).sort(byTime);
+}
+
+// Most recent first
+export async function latestSignalRecords(contract: string, count: number): Promise<SignalProps[]> {
+    const storage = getStorage();
+    const records = await Promise.all(historyKeys(contract).map(key => storage.latest<SignalProps>(key, count)));
+    return records.flat().filter(isRecord).sort((a, b) => byTime(b, a)).slice(0, count);
+}
@@ -0,0 +1,179 @@
+import type { BarMode, CandleData, PositionInfoFromAPI, ScoreDetail } from './types';
+import type { StrategyConfig } from './strategyConfig';
+import { addIndicators, applyIndicators } from './indicatorRegistry';
+import { ema } from './indicators';
+import { buildTimeframeSet, combineTrend, evaluateTrendFilters, trendFilterLookback, type TrendDirection, type TrendFilterResult } from './timeframes';
+import { barsSinceAnchor, preFetchAnchor, resolveVwapAnchor, type VwapAnchorOptions } from './vwap';
+import { classifyRegimes, emaStructure, structureLookup, type RegimeResult } from './regime';
+import { calculateHoldabilityScore } from './holdabilityScore';
+import { scoreSignals, type OpeningSignalResult } from './score';
+
+// The bar-level part of /api/signal without any I/O: indicators, higher timeframes,
+// BTC daily trend, regime, opening scores and holdability for one evaluation time.
+// Shared by the API route and the offline backtester (lib/backtest) so both score
+// bars identically; confirmation and the recommendation are applied by the caller.
+
+export interface SignalInputs {
+    candles1m: CandleData[]; // Bars to evaluate, oldest first (already limited to closed bars if required)
+    // The same bars already carrying the core indicators and config.studies, e.g. sliced from a
+    // series enriched once by the backtester. The anchored VWAP and reference closes are written onto them.
+    enriched1m?: CandleData[];
+    // Likewise for higher timeframes (keyed by interval, buckets closed by `now` when barMode is 'closed')
+    enrichedTimeframes?: Record<string, CandleData[]>;
+    refCandles1m: CandleData[]; // Reference contract 1m bars, for the sync checks
+    btcCandles1d: CandleData[];
+    position: PositionInfoFromAPI | null;
+    assets: { base: string; reference: string };
+    config: StrategyConfig;
+    barMode: BarMode;
+    now: number;
+}
+
+export interface SignalSnapshot {
+    enriched1m: CandleData[];
+    latest: CandleData;
+    vwapAnchor: number;
+    trendResults: TrendFilterResult[];
+    htfTrend: TrendDirection;
+    btcDailyTrend: TrendDirection | null;
+    btcEma: number | null;
+    regime: RegimeResult;
+    longSignal: OpeningSignalResult;
+    shortSignal: OpeningSignalResult;
+    holdability: { score: number; maxScore: number; details: ScoreDetail[] };
+}
+
+export const vwapAnchorOptions = (config: StrategyConfig, entryTimeMs: number | null = null): VwapAnchorOptions => ({
+    mode: config.vwap.anchor,
+    sessionStartHourUtc: config.vwap.sessionStartHourUtc,
+    swingStrength: config.vwap.swingStrength,
+    entryTimeMs,
+});
+
+// Higher-timeframe EMA the regime classifier checks the trend against
+const regimeStructureFilter = (config: StrategyConfig) => ({
+    timeframe: config.regime.structureTimeframe,
+    indicator: { name: 'EMA', params: { period: config.regime.structureEmaPeriod } },
+});
+
+// Upper bound of signalWindowBars(), e.g. for sizing candle buffers
+export const maxSignalWindowBars = (config: StrategyConfig): number => Math.max(100, config.timeframes.maxBaseBars);
+
+// Every timeframe the snapshot resamples: the configured intervals, trend filters and regime structure
+export function signalTimeframes(config: StrategyConfig): string[] {
+    return Array.from(new Set([
+        ...config.timeframes.intervals,
+        ...config.trend.filters.map(f => f.timeframe),
+        regimeStructureFilter(config).timeframe,
+    ]));
+}
+
+// Thrown when there are too few bars to score (warm-up, missing reference bars); callers may skip the bar
+export class InsufficientDataError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InsufficientDataError';
+        Object.setPrototypeOf(this, InsufficientDataError.prototype); // Keeps instanceof working when compiled to ES5
+    }
+}
+
+// Bars fetched beyond the window: closed mode fetches the forming bar too, then drops it
+export const extraFetchBars = (barMode: BarMode): number => (barMode === 'closed' ? 1 : 0);
+
+// 1m bars needed to cover the VWAP session and the higher-timeframe trend filters.
+// Capped so that the window plus the extra closed-mode bar stays within maxBaseBars.
+export function signalWindowBars(config: StrategyConfig, now: number, entryTimeMs: number | null = null, barMode: BarMode = 'live'): number {
+    const sessionAnchor = preFetchAnchor(vwapAnchorOptions(config, entryTimeMs), now);
+    const sessionBars = sessionAnchor !== null ? barsSinceAnchor(sessionAnchor, '1m', now) : 0;
+    return Math.min(
+        Math.max(100, sessionBars, trendFilterLookback([...config.trend.filters, regimeStructureFilter(config)])),
+        maxSignalWindowBars(config) - extraFetchBars(barMode)
+    );
+}
+
+// Daily close vs its EMA; null when there are not enough daily bars
+export function dailyTrend(candles1d: CandleData[], period: number): { trend: TrendDirection | null; ema: number | null } {
+    if (candles1d.length < period) return { trend: null, ema: null };
+    const emaValues = ema(candles1d.map(d => d.close), period);
+    const latestClose = candles1d[candles1d.length - 1]?.close;
+    const latestEma = emaValues[emaValues.length - 1] ?? null;
+    if (!latestClose || !latestEma) return { trend: 'flat', ema: latestEma };
+    return { trend: latestClose > latestEma ? 'up' : 'down', ema: latestEma };
+}
+
+// Per-side confirmation thresholds: the recommendation's open threshold with the BTC trend discount
+export function confirmationThresholds(config: StrategyConfig, btcTrend: TrendDirection | null): { long: number; short: number } {
+    const { openThreshold, trendAlignedDiscount } = config.recommendation;
+    return {
+        long: openThreshold - (btcTrend === 'up' ? trendAlignedDiscount : 0),
+        short: openThreshold - (btcTrend === 'down' ? trendAlignedDiscount : 0),
+    };
+}
+
+export function evaluateSignalSnapshot(inputs: SignalInputs): SignalSnapshot {
+    const { candles1m, refCandles1m, btcCandles1d, position, assets, config, barMode, now } = inputs;
+    const trendFilters = config.trend.filters;
+
+    // --- Calculate Indicators ---
+    const vwapAnchor = resolveVwapAnchor(candles1m, vwapAnchorOptions(config, position?.openTimeMs ?? null), now);
+    const avwap = { name: 'AVWAP', params: { anchorTime: vwapAnchor, band1: config.vwap.band1, band2: config.vwap.band2 } };
+    const enriched1m: CandleData[] = inputs.enriched1m
+        ? addIndicators(inputs.enriched1m, [avwap])
+        : applyIndicators(candles1m, { ...config.indicators }, [...config.studies, avwap]);
+    // Higher timeframes are resampled from the 1m series rather than fetched separately
+    const timeframes = buildTimeframeSet(enriched1m, '1m', signalTimeframes(config), {
+        coreParams: { ...config.indicators },
+        studies: config.timeframes.studies,
+        closedOnly: barMode === 'closed',
+        now,
+        prebuilt: inputs.enrichedTimeframes,
+    });
+
+    const btc = dailyTrend(btcCandles1d, config.trend.btcDailyEmaPeriod);
+
+    if (enriched1m.length < 2 || refCandles1m.length < 2) {
+        throw new InsufficientDataError('Insufficient kline data available for processing');
+    }
+
+    // Attach reference closes by timestamp for the opening-signal sync check
+    const refCloseByTime = new Map(refCandles1m.map(c => [c.timestamp, c.close]));
+    enriched1m.forEach(candle => {
+        candle.Ref_close = refCloseByTime.get(candle.timestamp) ?? null;
+    });
+
+    // --- Calculate Scores ---
+    const latest = enriched1m[enriched1m.length - 1];
+    const trendResults = evaluateTrendFilters(timeframes, trendFilters, latest.close);
+    const htfTrend = combineTrend(trendResults);
+
+    // Market regime selects the opening-rule weight profile
+    const structure = emaStructure(timeframes.candles(config.regime.structureTimeframe), config.regime.structureEmaPeriod);
+    const regimes = classifyRegimes(enriched1m, config.regime, structureLookup(structure));
+    const regime = regimes[regimes.length - 1];
+
+    const holdability = calculateHoldabilityScore(
+        enriched1m, position, refCandles1m, trendResults, { assets, config, regime: regime.regime, now }
+    );
+
+    const scoreOptions = {
+        referenceAsset: assets.reference,
+        config,
+        trend: htfTrend,
+        trendFilters: trendResults,
+        weights: config.regime.profiles[regime.regime],
+    };
+
+    return {
+        enriched1m,
+        latest,
+        vwapAnchor,
+        trendResults,
+        htfTrend,
+        btcDailyTrend: btc.trend,
+        btcEma: btc.ema,
+        regime,
+        longSignal: scoreSignals(enriched1m, 'long', scoreOptions),
+        shortSignal: scoreSignals(enriched1m, 'short', scoreOptions),
+        holdability,
+    };
+}
@@ -0,0 +1,79 @@
+import type { AccountInfo, ContractInfo } from './exchange/types';
+import type { TradePlan } from './tradePlan';
+
+// Contracts to open so that a stop-out loses a fixed share of account equity,
+// bounded by leverage, a notional cap and the contract's order size limits.
+
+export interface SizingConfig {
+    riskPct: number; // Equity % lost if the plan's stop is hit
+    leverage: number; // Clamped to the contract's leverage range
+    maxNotional: number; // Quote currency cap on position value
+    manualEquity: number | null; // Used when the exchange account can't be read (e.g. no API keys)
+}
+
+export type SizingLimit = 'risk' | 'leverage' | 'max_notional' | 'order_size_max' | 'order_size_min';
+
+export interface PositionSizing {
+    equity: number;
+    equity_source: 'exchange' | 'manual' | 'paper';
+    currency: string;
+    risk_pct: number;
+    risk_amount: number; // Target loss at the stop
+    contracts: number;
+    notional: number;
+    margin: number; // Initial margin at `leverage`
+    leverage: number;
+    loss_at_stop: number; // Actual loss at the stop for `contracts`
+    limited_by: SizingLimit;
+}
+
+// Exchange account if available, otherwise the manual setting; null when neither is known
+export function resolveEquity(
+    account: AccountInfo | null,
+    config: SizingConfig
+): { equity: number; source: 'exchange' | 'manual'; currency: string } | null {
+    if (account && account.equity > 0) return { equity: account.equity, source: 'exchange', currency: account.currency };
+    if (config.manualEquity && config.manualEquity > 0) return { equity: config.manualEquity, source: 'manual', currency: 'USDT' };
+    return null;
+}
+
+export function sizePosition(
+    plan: TradePlan,
+    contract: ContractInfo,
+    equity: { equity: number; source: 'exchange' | 'manual' | 'paper'; currency: string },
+    config: SizingConfig
+): PositionSizing | null {
+    const multiplier = contract.quantoMultiplier || 1;
+    const riskPerContract = plan.risk * multiplier;
+    const notionalPerContract = plan.entry.price * multiplier;
+    if (riskPerContract <= 0 || notionalPerContract <= 0) return null;
+
+    const leverage = Math.min(Math.max(config.leverage, contract.leverageMin || 1), contract.leverageMax || config.leverage);
+    const riskAmount = equity.equity * (config.riskPct / 100);
+    const caps: [SizingLimit, number][] = [
+        ['risk', Math.floor(riskAmount / riskPerContract)],
+        ['leverage', Math.floor((equity.equity * leverage) / notionalPerContract)],
+        ['max_notional', Math.floor(config.maxNotional / notionalPerContract)],
+    ];
+    if (contract.orderSizeMax > 0) caps.push(['order_size_max', contract.orderSizeMax]);
+    let [limitedBy, contracts] = caps.reduce((min, cap) => (cap[1] < min[1] ? cap : min));
+    if (contracts < (contract.orderSizeMin || 1)) {
+        contracts = 0; // Even the smallest order would exceed one of the limits
+        limitedBy = 'order_size_min';
+    }
+
+    const notional = contracts * notionalPerContract;
+    return {
+        equity: equity.equity,
+        equity_source: equity.source,
+        currency: equity.currency,
+        risk_pct: config.riskPct,
+        risk_amount: Math.round(riskAmount * 100) / 100,
+        contracts,
+        notional: Math.round(notional * 100) / 100,
+        margin: Math.round((notional / leverage) * 100) / 100,
+        leverage,
+        loss_at_stop: Math.round(contracts * riskPerContract * 100) / 100,
+        limited_by: limitedBy,
+    };
+}
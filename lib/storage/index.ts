@@ -0,0 +1,51 @@
+import { createKvStorage } from './kv';
+import { createSqliteStorage } from './sqlite';
+import { createMemoryStorage } from './memory';
+import type { StorageBackend } from './types';
+
+export type { SetOptions, StorageBackend } from './types';
+export { createKvStorage } from './kv';
+export { createSqliteStorage } from './sqlite';
+export { createMemoryStorage } from './memory';
+
+let activeStorage: StorageBackend | null = null;
+let implicitMemory = false; // Fell back to memory because nothing was configured
+
+// Backend selected by STORAGE_BACKEND ('kv', 'sqlite' or 'memory'). Without it,
+// Vercel KV is used when its credentials are set, otherwise the in-memory store.
+export function getStorage(): StorageBackend {
+    if (activeStorage) return activeStorage;
+    const kind = process.env.STORAGE_BACKEND || (process.env.KV_REST_API_URL ? 'kv' : 'memory');
+    implicitMemory = !process.env.STORAGE_BACKEND && kind === 'memory';
+    switch (kind) {
+        case 'kv':
+            activeStorage = createKvStorage();
+            break;
+        case 'sqlite':
+            activeStorage = createSqliteStorage();
+            break;
+        case 'memory':
+            console.warn(implicitMemory
+                ? "No storage configured, using in-memory storage: history and state are lost on restart, order execution and guardrail changes are refused (set STORAGE_BACKEND)"
+                : "Using in-memory storage: history and state are lost on restart");
+            activeStorage = createMemoryStorage();
+            break;
+        default:
+            throw new Error(`Unknown STORAGE_BACKEND: ${kind}`);
+    }
+    return activeStorage;
+}
+
+// Override the backend (e.g. memory in scripts); pass null to reset
+export function setStorage(storage: StorageBackend | null) {
+    activeStorage = storage;
+    implicitMemory = false;
+}
+
+// False while running on the fallback in-memory store. Arming, idempotency keys and the
+// kill switch must survive restarts, so /api/execute and /api/guardrails refuse to work on it
+// unless STORAGE_BACKEND=memory was chosen on purpose.
+export function hasConfiguredStorage(): boolean {
+    getStorage();
+    return !implicitMemory;
+}
@@ -0,0 +1,58 @@
+import { kv } from '@vercel/kv';
+import type { SetOptions, StorageBackend } from './types';
+
+// Vercel KV (Upstash Redis): documents are strings, logs are sorted sets.
+// Upstash deserializes JSON on read, so values may come back parsed or as strings.
+const parse = <T>(value: unknown): T => {
+    if (typeof value !== 'string') return value as T;
+    try {
+        return JSON.parse(value) as T;
+    } catch {
+        return value as T; // A plain string value
+    }
+};
+
+export function createKvStorage(): StorageBackend {
+    return {
+        name: 'kv',
+
+        async get<T>(key: string): Promise<T | null> {
+            const stored = await kv.get<unknown>(key);
+            return stored === null || stored === undefined ? null : parse<T>(stored);
+        },
+
+        async set(key: string, value: unknown, { ttlSeconds, onlyIfAbsent }: SetOptions = {}): Promise<boolean> {
+            const json = JSON.stringify(value);
+            const result = onlyIfAbsent
+                ? await kv.set(key, json, ttlSeconds ? { nx: true, ex: ttlSeconds } : { nx: true })
+                : await kv.set(key, json, ttlSeconds ? { ex: ttlSeconds } : undefined);
+            return result === 'OK';
+        },
+
+        async del(key: string): Promise<void> {
+            await kv.del(key);
+        },
+
+        async append(key: string, score: number, value: unknown): Promise<void> {
+            await kv.zadd(key, { score, member: JSON.stringify(value) });
+        },
+
+        async range<T>(key: string, minScore: number, maxScore: number): Promise<T[]> {
+            const members = await kv.zrange<unknown[]>(key, minScore, maxScore, { byScore: true });
+            return members.filter(m => m !== null).map(m => parse<T>(m));
+        },
+
+        async latest<T>(key: string, count: number): Promise<T[]> {
+            const members = await kv.zrange<unknown[]>(key, 0, count - 1, { rev: true });
+            return members.filter(m => m !== null).map(m => parse<T>(m));
+        },
+
+        async removeUpTo(key: string, maxScore: number): Promise<number> {
+            return kv.zremrangebyscore(key, -Number.MAX_SAFE_INTEGER, maxScore);
+        },
+
+        async trimToLatest(key: string, count: number): Promise<void> {
+            await kv.zremrangebyrank(key, 0, -(count + 1));
+        },
+    };
+}
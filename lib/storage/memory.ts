@@ -0,0 +1,79 @@
+import type { SetOptions, StorageBackend } from './types';
+
+// Process-local store for local runs and scripts. Nothing survives a restart, and
+// serverless instances don't share it. Values are kept as JSON so callers never
+// share object references with the store.
+
+interface MemoryDocument {
+    json: string;
+    expiresAt: number | null;
+}
+
+interface MemoryEntry {
+    score: number;
+    json: string;
+}
+
+export function createMemoryStorage(): StorageBackend {
+    const documents = new Map<string, MemoryDocument>();
+    const logs = new Map<string, MemoryEntry[]>(); // Sorted by score, insertion order within a score
+
+    const live = (key: string): MemoryDocument | null => {
+        const doc = documents.get(key);
+        if (doc && doc.expiresAt !== null && doc.expiresAt <= Date.now()) {
+            documents.delete(key);
+            return null;
+        }
+        return doc ?? null;
+    };
+
+    return {
+        name: 'memory',
+
+        async get<T>(key: string): Promise<T | null> {
+            const doc = live(key);
+            return doc ? (JSON.parse(doc.json) as T) : null;
+        },
+
+        async set(key: string, value: unknown, { ttlSeconds, onlyIfAbsent }: SetOptions = {}): Promise<boolean> {
+            if (onlyIfAbsent && live(key)) return false;
+            documents.set(key, { json: JSON.stringify(value), expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null });
+            return true;
+        },
+
+        async del(key: string): Promise<void> {
+            documents.delete(key);
+            logs.delete(key);
+        },
+
+        async append(key: string, score: number, value: unknown): Promise<void> {
+            const entries = logs.get(key) ?? [];
+            let index = entries.length;
+            while (index > 0 && entries[index - 1].score > score) index--;
+            entries.splice(index, 0, { score, json: JSON.stringify(value) });
+            logs.set(key, entries);
+        },
+
+        async range<T>(key: string, minScore: number, maxScore: number): Promise<T[]> {
+            return (logs.get(key) ?? [])
+                .filter(e => e.score >= minScore && e.score <= maxScore)
+                .map(e => JSON.parse(e.json) as T);
+        },
+
+        async latest<T>(key: string, count: number): Promise<T[]> {
+            return (logs.get(key) ?? []).slice(-count).reverse().map(e => JSON.parse(e.json) as T);
+        },
+
+        async removeUpTo(key: string, maxScore: number): Promise<number> {
+            const entries = logs.get(key) ?? [];
+            const kept = entries.filter(e => e.score > maxScore);
+            logs.set(key, kept);
+            return entries.length - kept.length;
+        },
+
+        async trimToLatest(key: string, count: number): Promise<void> {
+            const entries = logs.get(key);
+            if (entries && entries.length > count) logs.set(key, entries.slice(entries.length - count));
+        },
+    };
+}
@@ -0,0 +1,99 @@
+import fs from 'fs';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { SetOptions, StorageBackend } from './types';
+
+// Single-file SQLite store for self-hosting (e.g. `next start` on a VPS). Uses the
+// optional better-sqlite3 dependency, loaded only when this backend is selected so
+// KV deployments don't need the native module.
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS documents (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        expires_at INTEGER
+    );
+    CREATE TABLE IF NOT EXISTS log_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        key TEXT NOT NULL,
+        score REAL NOT NULL,
+        value TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS log_entries_key_score ON log_entries (key, score);
+`;
+
+export function createSqliteStorage(file = process.env.SQLITE_PATH || 'data/dashboard.db'): StorageBackend {
+    let Database: typeof BetterSqlite3;
+    try {
+        Database = require('better-sqlite3');
+    } catch (err: any) {
+        throw new Error(`STORAGE_BACKEND=sqlite needs the better-sqlite3 package (npm install better-sqlite3): ${err.message}`);
+    }
+    if (file !== ':memory:') fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+    const db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+
+    const statements = {
+        get: db.prepare('SELECT value, expires_at FROM documents WHERE key = ?'),
+        deleteExpired: db.prepare('DELETE FROM documents WHERE key = ? AND expires_at IS NOT NULL AND expires_at <= ?'),
+        insert: db.prepare('INSERT OR IGNORE INTO documents (key, value, expires_at) VALUES (?, ?, ?)'),
+        upsert: db.prepare('INSERT OR REPLACE INTO documents (key, value, expires_at) VALUES (?, ?, ?)'),
+        deleteDocument: db.prepare('DELETE FROM documents WHERE key = ?'),
+        deleteLog: db.prepare('DELETE FROM log_entries WHERE key = ?'),
+        append: db.prepare('INSERT INTO log_entries (key, score, value) VALUES (?, ?, ?)'),
+        range: db.prepare('SELECT value FROM log_entries WHERE key = ? AND score BETWEEN ? AND ? ORDER BY score, id'),
+        latest: db.prepare('SELECT value FROM log_entries WHERE key = ? ORDER BY score DESC, id DESC LIMIT ?'),
+        removeUpTo: db.prepare('DELETE FROM log_entries WHERE key = ? AND score <= ?'),
+        trimToLatest: db.prepare(`DELETE FROM log_entries WHERE key = ? AND id NOT IN (
+            SELECT id FROM log_entries WHERE key = ? ORDER BY score DESC, id DESC LIMIT ?)`),
+    };
+    const parseRows = <T>(rows: unknown[]): T[] => (rows as { value: string }[]).map(row => JSON.parse(row.value) as T);
+
+    return {
+        name: 'sqlite',
+
+        async get<T>(key: string): Promise<T | null> {
+            statements.deleteExpired.run(key, Date.now());
+            const row = statements.get.get(key) as { value: string } | undefined;
+            return row ? (JSON.parse(row.value) as T) : null;
+        },
+
+        async set(key: string, value: unknown, { ttlSeconds, onlyIfAbsent }: SetOptions = {}): Promise<boolean> {
+            const expiresAt = ttlSeconds ? Date.now() + ttlSeconds * 1000 : null;
+            if (!onlyIfAbsent) {
+                statements.upsert.run(key, JSON.stringify(value), expiresAt);
+                return true;
+            }
+            statements.deleteExpired.run(key, Date.now());
+            return statements.insert.run(key, JSON.stringify(value), expiresAt).changes === 1;
+        },
+
+        async del(key: string): Promise<void> {
+            db.transaction(() => {
+                statements.deleteDocument.run(key);
+                statements.deleteLog.run(key);
+            })();
+        },
+
+        async append(key: string, score: number, value: unknown): Promise<void> {
+            statements.append.run(key, score, JSON.stringify(value));
+        },
+
+        async range<T>(key: string, minScore: number, maxScore: number): Promise<T[]> {
+            return parseRows<T>(statements.range.all(key, minScore, maxScore));
+        },
+
+        async latest<T>(key: string, count: number): Promise<T[]> {
+            return parseRows<T>(statements.latest.all(key, count));
+        },
+
+        async removeUpTo(key: string, maxScore: number): Promise<number> {
+            return statements.removeUpTo.run(key, maxScore).changes;
+        },
+
+        async trimToLatest(key: string, count: number): Promise<void> {
+            statements.trimToLatest.run(key, key, count);
+        },
+    };
+}
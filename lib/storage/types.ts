@@ -0,0 +1,23 @@
+// Persistence behind the API routes. Two shapes cover everything the dashboard keeps:
+//   documents - one JSON value per key (paper account, guardrail and trailing-stop
+//               state, execution arming, idempotency records)
+//   logs      - JSON entries ordered by a numeric score, usually a timestamp
+//               (signal history, paper trades, execution audit)
+// Values go in as plain objects and come back parsed; keys are built in lib/contracts.ts.
+
+export interface SetOptions {
+    ttlSeconds?: number; // The document expires after this long
+    onlyIfAbsent?: boolean; // Leave an existing document alone (set() then returns false)
+}
+
+export interface StorageBackend {
+    name: string;
+    get<T>(key: string): Promise<T | null>;
+    set(key: string, value: unknown, options?: SetOptions): Promise<boolean>; // false when onlyIfAbsent found the key
+    del(key: string): Promise<void>; // Removes a document or a whole log
+    append(key: string, score: number, value: unknown): Promise<void>;
+    range<T>(key: string, minScore: number, maxScore: number): Promise<T[]>; // Inclusive, lowest score first
+    latest<T>(key: string, count: number): Promise<T[]>; // Highest score first
+    removeUpTo(key: string, maxScore: number): Promise<number>; // Drops entries scored at or below maxScore; returns how many
+    trimToLatest(key: string, count: number): Promise<void>; // Keeps only the `count` highest-scored entries
+}
@@ -0,0 +1,282 @@
+import { DEFAULT_INDICATOR_PARAMS, type IndicatorEngineParams } from './indicatorEngine';
+import type { IndicatorSelection } from './indicatorRegistry';
+import type { VwapAnchorMode } from './vwap';
+import type { TrendFilter } from './timeframes';
+import { mergeScoringRules, type ScoringRule, type ScoringRuleOverride } from './ruleEngine';
+import { DEFAULT_OPENING_RULES } from './openingRules';
+import type { RegimeConfig } from './regime';
+import type { ConfirmationConfig } from './confirmation';
+import type { TradePlanConfig } from './tradePlan';
+import type { SizingConfig } from './sizing';
+import type { PaperTradingConfig } from './paperTrading';
+import type { GuardrailConfig } from './guardrails';
+
+// Every tunable period/threshold of the strategy in one typed object.
+// Loaded server-side by lib/strategyConfigLoader.ts; this module stays free of
+// Node APIs so pages and components can import the types and defaults.
+
+export interface OpeningScoreConfig {
+    volumeMultiplier: number; // Volume > VMA * multiplier counts as confirmation
+    stochOverbought: number; // Long Stoch cross only counts below this %K
+    stochOversold: number; // Short Stoch cross only counts above this %K
+    vwapMaxBand: number; // VWAP side only counts within this many σ of the session VWAP
+}
+
+export interface VwapConfig {
+    anchor: VwapAnchorMode; // position_entry falls back to utc_day when flat
+    sessionStartHourUtc: number;
+    swingStrength: number; // Pivot bars on each side for the 'swing' anchor
+    band1: number; // Inner band, in σ
+    band2: number; // Outer band, in σ
+}
+
+export interface HoldabilityConfig {
+    badBarVolumeMultiplier: number; // Opposing bar volume > VMA * multiplier ...
+    badBarAtrMultiple: number; // ... and body > ATR * multiple = bad bar
+    atrMaPeriod: number; // "Ranging" when ATR < SMA(ATR, period)
+    entryAtrOffset: number; // Entry within BB band ± ATR * offset counts as good location
+    liquidationAtrMultiple: number; // Mark price at least this many ATRs from the liquidation price
+    riskAtrMultiple: number; // 1R = ATR * multiple, the risk unit for drawdown from entry
+    maxDrawdownR: number; // Adverse move from entry below this many R counts as holdable
+    maxFundingCostPct: number; // Funding paid since open, as % of position margin
+    maxHoldMinutes: number; // Older positions only count as holdable while in profit
+}
+
+export interface RecommendationConfig {
+    openThreshold: number;
+    strongCloseThreshold: number; // Counter-signal score that suggests closing immediately
+    holdRiskRatio: number; // Holdability below this fraction of its max score suggests closing
+    trendAlignedDiscount: number; // Open threshold reduction when BTC daily trend agrees
+    fngExtremeFear: number;
+    fngExtremeGreed: number;
+}
+
+export interface MultiTimeframeConfig {
+    intervals: string[]; // Resampled locally from the 1m series
+    studies: Record<string, IndicatorSelection[]>; // Extra registry indicators per interval
+    maxBaseBars: number; // Cap on 1m bars fetched for the VWAP session and trend filters
+}
+
+export interface StrategyConfig {
+    version: string;
+    indicators: IndicatorEngineParams;
+    studies: IndicatorSelection[]; // Extra registry indicators computed on the 1m series
+    display: {
+        indicators1m: string[]; // Output fields shown in the indicators_1m block
+    };
+    trend: {
+        filters: TrendFilter[]; // Higher-timeframe trend; all filters must agree
+        btcDailyEmaPeriod: number; // BTC daily market trend
+    };
+    timeframes: MultiTimeframeConfig;
+    vwap: VwapConfig;
+    opening: OpeningScoreConfig;
+    openingRules: ScoringRule[]; // Opening-signal scoring rules, evaluated by lib/ruleEngine.ts
+    regime: RegimeConfig;
+    holdability: HoldabilityConfig;
+    recommendation: RecommendationConfig;
+    confirmation: ConfirmationConfig; // Opening signals must persist across bars before they fire
+    tradePlan: TradePlanConfig; // Stop, targets and trailing stop attached to the recommendation
+    sizing: SizingConfig; // Contracts per trade from account equity and the plan's stop distance
+    paperTrading: PaperTradingConfig; // Virtual account used instead of the exchange position (?position=paper)
+    guardrails: GuardrailConfig; // Account-level limits that force WAIT / CLOSE when tripped
+    notification: {
+        scoreThreshold: number; // Browser notification once per confirmed signal scoring at least this
+    };
+}
+
+export const DEFAULT_STRATEGY_CONFIG: StrategyConfig = {
+    version: 'default-10',
+    indicators: DEFAULT_INDICATOR_PARAMS,
+    studies: [
+        { name: 'RSI' },
+        { name: 'MACD' },
+        { name: 'ADX' },
+        { name: 'SUPERTREND' },
+        { name: 'KELTNER' },
+    ],
+    display: {
+        indicators1m: [
+            'EMA5', 'EMA10', 'BB_Upper', 'BB_Middle', 'BB_Lower', 'Stoch_K', 'Stoch_D',
+            'AVWAP', 'AVWAP_Upper1', 'AVWAP_Lower1', 'AVWAP_Upper2', 'AVWAP_Lower2', 'ATR14', 'volume', 'VMA20', 'RSI', 'MACD', 'MACD_Signal', 'ADX', 'Supertrend',
+        ],
+    },
+    trend: {
+        filters: [
+            { timeframe: '15m', indicator: { name: 'EMA', params: { period: 15 } } },
+        ],
+        btcDailyEmaPeriod: 50,
+    },
+    timeframes: {
+        intervals: ['3m', '5m', '15m', '1h', '4h'],
+        studies: {},
+        maxBaseBars: 2000, // Gate.io candlestick limit per request
+    },
+    vwap: {
+        anchor: 'utc_day',
+        sessionStartHourUtc: 0,
+        swingStrength: 5,
+        band1: 1,
+        band2: 2,
+    },
+    opening: {
+        volumeMultiplier: 1.5,
+        stochOverbought: 70,
+        stochOversold: 30,
+        vwapMaxBand: 2,
+    },
+    openingRules: DEFAULT_OPENING_RULES,
+    regime: {
+        adxPeriod: 14,
+        adxTrendThreshold: 25,
+        adxSlopeBars: 5,
+        atrMaPeriod: 20,
+        shockAtrRatio: 2,
+        bbWidthMaPeriod: 20,
+        structureTimeframe: '15m',
+        structureEmaPeriod: 15,
+        profiles: {
+            // Trends: follow breakouts and the higher timeframe, fade momentum crosses less
+            trend_up: { bb_breakout: 2, htf_trend: 2, stoch_cross: 1 },
+            trend_down: { bb_breakout: 2, htf_trend: 2, stoch_cross: 1 },
+            // Ranges: band breakouts tend to revert, momentum turns and VWAP location matter more
+            range: { bb_breakout: 0, stoch_cross: 3, vwap_band: 2 },
+            // Shocks: only the core trend conditions count, so the max score stays below the open threshold
+            shock: { bb_breakout: 0, volume_expansion: 0, stoch_cross: 0, vwap_band: 0 },
+        },
+    },
+    holdability: {
+        badBarVolumeMultiplier: 1.5,
+        badBarAtrMultiple: 1.0,
+        atrMaPeriod: 20,
+        entryAtrOffset: 0.5,
+        liquidationAtrMultiple: 50, // 1m ATR
+        riskAtrMultiple: 3,
+        maxDrawdownR: 1,
+        maxFundingCostPct: 1,
+        maxHoldMinutes: 240,
+    },
+    recommendation: {
+        openThreshold: 7,
+        strongCloseThreshold: 7,
+        holdRiskRatio: 0.55, // ≈ 5 of the original 9 points
+        trendAlignedDiscount: 1,
+        fngExtremeFear: 25,
+        fngExtremeGreed: 75,
+    },
+    confirmation: {
+        confirmBars: 3,
+        windowBars: 5,
+        exitThreshold: 5,
+        cooldownBars: 10,
+    },
+    tradePlan: {
+        stopMode: 'atr',
+        stopAtrMultiple: 3, // Same 1R as holdability.riskAtrMultiple
+        stopBufferAtr: 0.5,
+        minStopAtr: 1,
+        swingStrength: 5,
+        entryZoneAtr: 0.5,
+        targetsR: [1, 2, 3],
+        trailMode: 'chandelier',
+        trailAtrMultiple: 3,
+        trailEmaBufferAtr: 0.5,
+        breakEvenR: 1,
+    },
+    sizing: {
+        riskPct: 1,
+        leverage: 10,
+        maxNotional: 10000,
+        manualEquity: null,
+    },
+    paperTrading: {
+        initialEquity: 10000,
+    },
+    guardrails: {
+        maxDailyLoss: null, // Depends on account size; set per deployment
+        maxConsecutiveLosses: 3,
+        maxTradesPerDay: 10,
+        maxNotional: null, // sizing.maxNotional already caps planned positions
+        liquidationBufferPct: 3,
+        blackoutMinutes: 60,
+    },
+    notification: {
+        scoreThreshold: 8,
+    },
+};
+
+export type StrategyConfigOverrides = {
+    [K in Exclude<keyof StrategyConfig, 'openingRules'>]?: StrategyConfig[K] extends unknown[]
+        ? StrategyConfig[K]
+        : StrategyConfig[K] extends object ? Partial<StrategyConfig[K]> : StrategyConfig[K];
+} & {
+    openingRules?: ScoringRuleOverride[]; // Patched by id, e.g. { "id": "vwap_band", "enabled": false }
+    // Deprecated: the VWAP session cap became timeframes.maxBaseBars (it now caps the whole 1m window)
+    vwap?: { maxSessionBars?: number };
+    // Deprecated: absolute hold threshold, out of the fixed 9 points holdability had before position economics
+    recommendation?: { holdRiskThreshold?: number };
+};
+
+const LEGACY_HOLDABILITY_MAX = 9;
+
+// FNV-1a over the JSON, used to version configs that don't name one
+const hashString = (value: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+};
+
+// Merge overrides section by section onto the defaults.
+// Overrides without an explicit version get 'custom-<hash>' so records stay traceable.
+export function mergeStrategyConfig(
+    overrides: StrategyConfigOverrides = {},
+    base: StrategyConfig = DEFAULT_STRATEGY_CONFIG
+): StrategyConfig {
+    const { maxSessionBars, ...vwapOverrides } = overrides.vwap ?? {};
+    if (maxSessionBars !== undefined) {
+        console.warn('vwap.maxSessionBars is deprecated, use timeframes.maxBaseBars');
+    }
+    const { holdRiskThreshold, ...recommendationOverrides } = overrides.recommendation ?? {};
+    if (holdRiskThreshold !== undefined) {
+        console.warn('recommendation.holdRiskThreshold is deprecated, use recommendation.holdRiskRatio');
+    }
+    const merged: StrategyConfig = {
+        version: base.version,
+        indicators: { ...base.indicators, ...overrides.indicators },
+        studies: overrides.studies ?? base.studies, // Arrays replace rather than merge
+        display: { ...base.display, ...overrides.display },
+        trend: { ...base.trend, ...overrides.trend },
+        timeframes: {
+            ...base.timeframes,
+            ...(maxSessionBars !== undefined ? { maxBaseBars: maxSessionBars } : {}),
+            ...overrides.timeframes,
+        },
+        vwap: { ...base.vwap, ...vwapOverrides },
+        opening: { ...base.opening, ...overrides.opening },
+        openingRules: mergeScoringRules(base.openingRules, overrides.openingRules),
+        regime: { ...base.regime, ...overrides.regime },
+        holdability: { ...base.holdability, ...overrides.holdability },
+        recommendation: {
+            ...base.recommendation,
+            ...(holdRiskThreshold !== undefined ? { holdRiskRatio: holdRiskThreshold / LEGACY_HOLDABILITY_MAX } : {}),
+            ...recommendationOverrides,
+        },
+        confirmation: { ...base.confirmation, ...overrides.confirmation },
+        tradePlan: { ...base.tradePlan, ...overrides.tradePlan },
+        sizing: { ...base.sizing, ...overrides.sizing },
+        paperTrading: { ...base.paperTrading, ...overrides.paperTrading },
+        guardrails: { ...base.guardrails, ...overrides.guardrails },
+        notification: { ...base.notification, ...overrides.notification },
+    };
+    const { version, ...sections } = overrides;
+    if (version) {
+        merged.version = version;
+    } else if (Object.keys(sections).length > 0) {
+        const { version: _ignored, ...values } = merged;
+        merged.version = `custom-${hashString(JSON.stringify(values))}`;
+    }
+    return merged;
+}
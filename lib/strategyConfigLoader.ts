@@ -0,0 +1,26 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { mergeStrategyConfig, type StrategyConfig, type StrategyConfigOverrides } from './strategyConfig';
+
+let cached: StrategyConfig | null = null;
+
+// Server-only: STRATEGY_CONFIG_FILE (path to a JSON file) is applied first,
+// then STRATEGY_CONFIG (inline JSON) on top. Both are partial overrides of the defaults.
+export function loadStrategyConfig(): StrategyConfig {
+    if (cached) return cached;
+
+    let config = mergeStrategyConfig();
+    const file = process.env.STRATEGY_CONFIG_FILE;
+    if (file) {
+        const overrides = JSON.parse(readFileSync(path.resolve(file), 'utf8')) as StrategyConfigOverrides;
+        config = mergeStrategyConfig(overrides, config);
+    }
+    const inline = process.env.STRATEGY_CONFIG;
+    if (inline) {
+        config = mergeStrategyConfig(JSON.parse(inline) as StrategyConfigOverrides, config);
+    }
+
+    console.log(`Loaded strategy config version ${config.version}`);
+    cached = config;
+    return config;
+}
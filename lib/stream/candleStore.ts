@@ -0,0 +1,97 @@
+import type { CandleData } from '../types';
+import { intervalToMs } from '../interval';
+
+interface CandleBuffer {
+    interval: string;
+    candles: CandleData[]; // Sorted oldest -> newest, unique timestamps
+    updatedAt: number; // Wall clock ms of the last stream update
+}
+
+export interface CandleStore {
+    upsertCandle(contract: string, interval: string, candle: CandleData, receivedAt?: number): void;
+    seed(contract: string, interval: string, candles: CandleData[]): void;
+    applyTicker(contract: string, lastPrice: number, receivedAt?: number): void;
+    // Returns the last `limit` candles, or null when the buffer is cold/stale
+    getCandles(contract: string, interval: string, limit: number, now?: number): CandleData[] | null;
+    clear(): void;
+}
+
+// Rolling in-memory candle buffers keyed by contract + interval.
+// A buffer is "warm" when it holds enough candles, its newest candle is the
+// current bucket and the stream has pushed an update within `staleAfterMs`.
+export function createCandleStore(maxCandles = 500, staleAfterMs = 30 * 1000): CandleStore {
+    const buffers = new Map<string, CandleBuffer>();
+    const keyOf = (contract: string, interval: string) => `${contract}:${interval}`;
+
+    const getBuffer = (contract: string, interval: string): CandleBuffer => {
+        const key = keyOf(contract, interval);
+        let buffer = buffers.get(key);
+        if (!buffer) {
+            buffer = { interval, candles: [], updatedAt: 0 };
+            buffers.set(key, buffer);
+        }
+        return buffer;
+    };
+
+    const insert = (buffer: CandleBuffer, candle: CandleData) => {
+        const { candles } = buffer;
+        const last = candles[candles.length - 1];
+        if (!last || candle.timestamp > last.timestamp) {
+            candles.push(candle);
+        } else {
+            const index = candles.findIndex(c => c.timestamp >= candle.timestamp);
+            if (candles[index].timestamp === candle.timestamp) {
+                candles[index] = candle; // Update of a forming/closed bar
+            } else {
+                candles.splice(index, 0, candle); // Late bar
+            }
+        }
+        if (candles.length > maxCandles) candles.splice(0, candles.length - maxCandles);
+    };
+
+    return {
+        upsertCandle(contract, interval, candle, receivedAt = Date.now()) {
+            const buffer = getBuffer(contract, interval);
+            insert(buffer, candle);
+            buffer.updatedAt = receivedAt;
+        },
+
+        seed(contract, interval, candles) {
+            // REST backfill: never overwrite bars the stream already delivered
+            const buffer = getBuffer(contract, interval);
+            const known = new Set(buffer.candles.map(c => c.timestamp));
+            candles.filter(c => !known.has(c.timestamp)).forEach(c => insert(buffer, c));
+        },
+
+        applyTicker(contract, lastPrice, receivedAt = Date.now()) {
+            // Keep the forming bar of every interval in step with the last trade price. A ticker
+            // received after the bucket ended belongs to a bar the stream hasn't opened yet: it must
+            // not touch the closed bar, nor refresh updatedAt (which would hide a stalled feed).
+            Array.from(buffers.entries()).forEach(([key, buffer]) => {
+                if (!key.startsWith(`${contract}:`) || buffer.candles.length === 0) return;
+                const forming = buffer.candles[buffer.candles.length - 1];
+                if (receivedAt < forming.timestamp || receivedAt >= forming.timestamp + intervalToMs(buffer.interval)) return;
+                buffer.candles[buffer.candles.length - 1] = {
+                    ...forming,
+                    close: lastPrice,
+                    high: Math.max(forming.high, lastPrice),
+                    low: Math.min(forming.low, lastPrice),
+                };
+                buffer.updatedAt = receivedAt;
+            });
+        },
+
+        getCandles(contract, interval, limit, now = Date.now()) {
+            const buffer = buffers.get(keyOf(contract, interval));
+            if (!buffer || buffer.candles.length < limit) return null;
+            if (now - buffer.updatedAt > staleAfterMs) return null;
+            const newest = buffer.candles[buffer.candles.length - 1];
+            if (newest.timestamp + intervalToMs(interval) <= now) return null; // Current bucket not received yet
+            return buffer.candles.slice(-limit).map(c => ({ ...c }));
+        },
+
+        clear() {
+            buffers.clear();
+        },
+    };
+}
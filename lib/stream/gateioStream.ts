@@ -0,0 +1,142 @@
+import WebSocket from 'ws';
+import type { CandleStore } from './candleStore';
+import type { ExchangeAdapter } from '../exchange';
+
+export const GATE_FUTURES_WS_URL = 'wss://fx-ws.gateio.ws/v4/ws/usdt';
+
+export interface CandleStreamOptions {
+    store: CandleStore;
+    contracts: string[];
+    intervals: string[]; // e.g. ['1m', '15m', '1d']
+    url?: string; // Override to point at a local replay server
+    backfill?: ExchangeAdapter | null; // REST seed so buffers are warm right after connect
+    backfillLimit?: number;
+    pingIntervalMs?: number;
+    reconnectDelayMs?: number;
+    onMessage?: (raw: string) => void; // Raw frame hook, e.g. for recording fixtures
+}
+
+export interface CandleStream {
+    start(): void;
+    stop(): void;
+    isConnected(): boolean;
+}
+
+// Subscribes to Gate.io futures.candlesticks + futures.tickers and feeds the candle store
+export function createGateioCandleStream(options: CandleStreamOptions): CandleStream {
+    const {
+        store,
+        contracts,
+        intervals,
+        url = GATE_FUTURES_WS_URL,
+        backfill = null,
+        backfillLimit = 200,
+        pingIntervalMs = 15 * 1000,
+        reconnectDelayMs = 3 * 1000,
+        onMessage,
+    } = options;
+
+    let socket: WebSocket | null = null;
+    let pingTimer: ReturnType<typeof setInterval> | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = true;
+
+    const send = (channel: string, event?: string, payload?: string[]) => {
+        socket?.send(JSON.stringify({ time: Math.floor(Date.now() / 1000), channel, event, payload }));
+    };
+
+    const handleMessage = (raw: string) => {
+        onMessage?.(raw);
+        let message: any;
+        try {
+            message = JSON.parse(raw);
+        } catch {
+            console.warn('Ignoring non-JSON WS frame:', raw.slice(0, 100));
+            return;
+        }
+        if (message.error) {
+            console.error(`Gate WS error on ${message.channel}:`, message.error);
+            return;
+        }
+        if (message.event !== 'update' || !Array.isArray(message.result)) return;
+
+        if (message.channel === 'futures.candlesticks') {
+            for (const k of message.result) {
+                // n = '<interval>_<contract>', e.g. '1m_ETH_USDT'
+                const separator = String(k.n).indexOf('_');
+                if (separator < 0) continue;
+                const interval = k.n.slice(0, separator);
+                const contract = k.n.slice(separator + 1);
+                store.upsertCandle(contract, interval, {
+                    timestamp: Number(k.t) * 1000,
+                    open: parseFloat(k.o),
+                    high: parseFloat(k.h),
+                    low: parseFloat(k.l),
+                    close: parseFloat(k.c),
+                    volume: Number(k.v),
+                });
+            }
+        } else if (message.channel === 'futures.tickers') {
+            for (const t of message.result) {
+                const last = parseFloat(t.last);
+                if (t.contract && !isNaN(last)) store.applyTicker(t.contract, last);
+            }
+        }
+    };
+
+    const runBackfill = () => {
+        if (!backfill) return;
+        for (const contract of contracts) {
+            for (const interval of intervals) {
+                backfill.getKlines(contract, interval, backfillLimit)
+                    .then(candles => store.seed(contract, interval, candles))
+                    .catch(err => console.error(`Backfill failed for ${contract} ${interval}:`, err.message || err));
+            }
+        }
+    };
+
+    const connect = () => {
+        socket = new WebSocket(url);
+
+        socket.on('open', () => {
+            console.log(`Candle stream connected: ${url}`);
+            for (const contract of contracts) {
+                for (const interval of intervals) send('futures.candlesticks', 'subscribe', [interval, contract]);
+            }
+            send('futures.tickers', 'subscribe', contracts);
+            pingTimer = setInterval(() => send('futures.ping'), pingIntervalMs);
+            runBackfill();
+        });
+
+        socket.on('message', data => handleMessage(data.toString()));
+
+        socket.on('error', err => console.error('Candle stream error:', err.message));
+
+        socket.on('close', () => {
+            if (pingTimer) clearInterval(pingTimer);
+            pingTimer = null;
+            socket = null;
+            if (!stopped) {
+                console.warn(`Candle stream closed, reconnecting in ${reconnectDelayMs}ms`);
+                reconnectTimer = setTimeout(connect, reconnectDelayMs);
+            }
+        });
+    };
+
+    return {
+        start() {
+            if (!stopped) return;
+            stopped = false;
+            connect();
+        },
+        stop() {
+            stopped = true;
+            if (reconnectTimer) clearTimeout(reconnectTimer);
+            reconnectTimer = null;
+            socket?.close();
+        },
+        isConnected() {
+            return socket?.readyState === WebSocket.OPEN;
+        },
+    };
+}
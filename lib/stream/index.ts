@@ -0,0 +1,47 @@
+import { createCandleStore, type CandleStore } from './candleStore';
+import { createGateioCandleStream, type CandleStream } from './gateioStream';
+import { getExchangeAdapter } from '../exchange';
+import { SUPPORTED_CONTRACTS } from '../contracts';
+import { loadStrategyConfig } from '../strategyConfigLoader';
+import { maxSignalWindowBars } from '../signalPipeline';
+
+export { createCandleStore, type CandleStore } from './candleStore';
+export { createGateioCandleStream, GATE_FUTURES_WS_URL, type CandleStream, type CandleStreamOptions } from './gateioStream';
+export { startReplayServer, loadRecordedFrames, type ReplayServer } from './replayServer';
+
+const GATE_MAX_KLINES = 2000; // Candlesticks per REST request
+
+let store: CandleStore | null = null;
+let stream: CandleStream | null = null;
+
+// Deep enough for the largest /api/signal request: the whole 1m window, plus the
+// forming bar dropped in closed-bar mode. Smaller buffers would never serve it.
+const bufferBars = (): number => maxSignalWindowBars(loadStrategyConfig()) + 1;
+
+export function getCandleStore(): CandleStore {
+    if (!store) store = createCandleStore(bufferBars());
+    return store;
+}
+
+const csv = (value: string | undefined, fallback: string[]) =>
+    value ? value.split(',').map(v => v.trim()).filter(Boolean) : fallback;
+
+// Every configured contract plus its reference contract
+const defaultContracts = (): string[] =>
+    Array.from(new Set(SUPPORTED_CONTRACTS.flatMap(c => [c.contract, c.reference])));
+
+// Start the process-wide stream once, only when GATE_WS_ENABLED=true.
+// Serverless deployments leave it off and keep using REST.
+export function ensureCandleStream(): CandleStream | null {
+    if (stream || process.env.GATE_WS_ENABLED !== 'true') return stream;
+    stream = createGateioCandleStream({
+        store: getCandleStore(),
+        url: process.env.GATE_WS_URL || undefined,
+        contracts: csv(process.env.GATE_WS_CONTRACTS, defaultContracts()),
+        intervals: csv(process.env.GATE_WS_INTERVALS, ['1m', '15m', '1d']),
+        backfill: getExchangeAdapter(),
+        backfillLimit: Math.min(bufferBars(), GATE_MAX_KLINES), // The stream tops up the rest
+    });
+    stream.start();
+    return stream;
+}
@@ -0,0 +1,82 @@
+import { promises as fs } from 'fs';
+import { WebSocketServer } from 'ws';
+import type { AddressInfo } from 'net';
+
+export interface ReplayServerOptions {
+    frames: unknown[]; // Recorded server frames (parsed JSON), replayed in order
+    port?: number; // 0 = pick a free port
+    intervalMs?: number; // Delay between frames
+    loop?: boolean;
+}
+
+export interface ReplayServer {
+    url: string;
+    close(): Promise<void>;
+}
+
+// Read frames recorded one JSON object per line (see CandleStreamOptions.onMessage)
+export async function loadRecordedFrames(file: string): Promise<unknown[]> {
+    const content = await fs.readFile(file, 'utf8');
+    return content.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+}
+
+// Local stand-in for the Gate futures WS: acks subscriptions and replays recorded
+// frames to each client once it has subscribed. Pings are answered with pongs.
+export function startReplayServer(options: ReplayServerOptions): Promise<ReplayServer> {
+    const { frames, port = 0, intervalMs = 10, loop = false } = options;
+
+    return new Promise((resolve, reject) => {
+        const server = new WebSocketServer({ port });
+
+        server.on('connection', client => {
+            let timer: ReturnType<typeof setInterval> | null = null;
+            let cursor = 0;
+
+            const replay = () => {
+                if (timer) return;
+                timer = setInterval(() => {
+                    if (cursor >= frames.length) {
+                        if (!loop) {
+                            clearInterval(timer!);
+                            return;
+                        }
+                        cursor = 0;
+                    }
+                    client.send(JSON.stringify(frames[cursor++]));
+                }, intervalMs);
+            };
+
+            client.on('message', data => {
+                let request: any;
+                try {
+                    request = JSON.parse(data.toString());
+                } catch {
+                    return;
+                }
+                const time = Math.floor(Date.now() / 1000);
+                if (request.channel === 'futures.ping') {
+                    client.send(JSON.stringify({ time, channel: 'futures.pong', event: '', result: null }));
+                } else if (request.event === 'subscribe') {
+                    client.send(JSON.stringify({ time, channel: request.channel, event: 'subscribe', result: { status: 'success' } }));
+                    replay();
+                }
+            });
+
+            client.on('close', () => {
+                if (timer) clearInterval(timer);
+            });
+        });
+
+        server.on('error', reject);
+        server.on('listening', () => {
+            const { port: boundPort } = server.address() as AddressInfo;
+            resolve({
+                url: `ws://127.0.0.1:${boundPort}`,
+                close: () => new Promise<void>(done => {
+                    server.clients.forEach(c => c.terminate());
+                    server.close(() => done());
+                }),
+            });
+        });
+    });
+}
@@ -0,0 +1,130 @@
+import type { CandleData } from './types';
+import { splitClosedCandles, intervalToMs } from './interval';
+import { resampleCandles } from './resample';
+import { applyIndicators, getIndicator, type IndicatorParams, type IndicatorSelection } from './indicatorRegistry';
+
+// One 1m series, many timeframes: each interval is resampled locally and run through
+// the same indicator pipeline, so callers can ask for e.g. "Stoch_K on 1h" by reference.
+
+export interface TimeframeRef {
+    timeframe: string; // '1m', '5m', '1h', ...
+    field: string; // Indicator output field, e.g. 'EMA5', 'Stoch_K'
+}
+
+export interface TimeframeSet {
+    intervals(): string[];
+    candles(timeframe: string): CandleData[];
+    latest(timeframe: string): CandleData | null;
+    value(ref: TimeframeRef): number | null;
+    // Evaluate a registry indicator on a timeframe without storing it on the candles
+    compute(timeframe: string, selection: IndicatorSelection, field?: string): number | null;
+}
+
+export interface TimeframeSetOptions {
+    coreParams?: IndicatorParams;
+    studies?: Record<string, IndicatorSelection[]>; // Extra registry indicators per timeframe
+    closedOnly?: boolean; // Drop the forming bucket of every resampled timeframe
+    now?: number;
+    prebuilt?: Record<string, CandleData[]>; // Already resampled and enriched series, used as-is
+}
+
+// `base` is the (already enriched) series at `baseInterval`; it is stored as-is
+export function buildTimeframeSet(
+    base: CandleData[],
+    baseInterval: string,
+    intervals: string[],
+    options: TimeframeSetOptions = {}
+): TimeframeSet {
+    const { coreParams = {}, studies = {}, closedOnly = false, now = Date.now(), prebuilt = {} } = options;
+    const series = new Map<string, CandleData[]>([[baseInterval, base]]);
+
+    intervals.filter(tf => tf !== baseInterval).forEach(tf => {
+        if (prebuilt[tf]) {
+            series.set(tf, prebuilt[tf]);
+            return;
+        }
+        let candles = resampleCandles(base, tf, baseInterval);
+        if (closedOnly) candles = splitClosedCandles(candles, tf, now).closed;
+        series.set(tf, applyIndicators(candles, coreParams, studies[tf] ?? []));
+    });
+
+    const candlesOf = (timeframe: string): CandleData[] => {
+        const candles = series.get(timeframe);
+        if (!candles) throw new Error(`Timeframe not built: ${timeframe}`);
+        return candles;
+    };
+
+    const latestOf = (timeframe: string): CandleData | null => {
+        const candles = candlesOf(timeframe);
+        return candles[candles.length - 1] ?? null;
+    };
+
+    return {
+        intervals: () => Array.from(series.keys()).sort((a, b) => intervalToMs(a) - intervalToMs(b)),
+        candles: candlesOf,
+        latest: latestOf,
+        value({ timeframe, field }) {
+            const value = latestOf(timeframe)?.[field];
+            return typeof value === 'number' ? value : null;
+        },
+        compute(timeframe, selection, field) {
+            const definition = getIndicator(selection.name);
+            if (!definition) throw new Error(`Unknown indicator: ${selection.name}`);
+            const candles = candlesOf(timeframe);
+            if (candles.length === 0) return null;
+            const output = definition.compute(candles, { ...definition.defaultParams, ...selection.params });
+            return output[field ?? definition.outputs[0]][candles.length - 1] ?? null;
+        },
+    };
+}
+
+// --- Higher-timeframe trend filters ---
+
+export type TrendDirection = 'up' | 'down' | 'flat';
+
+export interface TrendFilter {
+    timeframe: string;
+    indicator: IndicatorSelection; // Price above the indicator = up, below = down
+    field?: string; // Output to compare against (default: the indicator's first output)
+}
+
+export interface TrendFilterResult {
+    timeframe: string;
+    label: string; // e.g. '15m EMA(15)'
+    value: number | null;
+    direction: TrendDirection;
+}
+
+export function trendFilterLabel(filter: TrendFilter): string {
+    const params = filter.indicator.params ? Object.values(filter.indicator.params) : [];
+    const name = filter.field ?? filter.indicator.name;
+    return `${filter.timeframe} ${name}${params.length > 0 ? `(${params.join(',')})` : ''}`;
+}
+
+export function evaluateTrendFilters(set: TimeframeSet, filters: TrendFilter[], price: number): TrendFilterResult[] {
+    return filters.map(filter => {
+        const value = set.compute(filter.timeframe, filter.indicator, filter.field);
+        const direction: TrendDirection = value === null ? 'flat' : price > value ? 'up' : price < value ? 'down' : 'flat';
+        return { timeframe: filter.timeframe, label: trendFilterLabel(filter), value, direction };
+    });
+}
+
+// Trend only counts when every filter agrees
+export function combineTrend(results: TrendFilterResult[]): TrendDirection {
+    if (results.length === 0) return 'flat';
+    if (results.every(r => r.direction === 'up')) return 'up';
+    if (results.every(r => r.direction === 'down')) return 'down';
+    return 'flat';
+}
+
+// 1m bars needed so every filter's indicator has warmed up on its timeframe
+export function trendFilterLookback(filters: TrendFilter[], baseInterval = '1m'): number {
+    const baseMs = intervalToMs(baseInterval);
+    return filters.reduce((max, filter) => {
+        const definition = getIndicator(filter.indicator.name);
+        const params = { ...definition?.defaultParams, ...filter.indicator.params };
+        const period = Math.max(1, ...Object.values(params).filter(v => Number.isInteger(v)));
+        // A few spare buckets: the partial leading bucket is dropped, the last may still be forming
+        return Math.max(max, (period + 5) * (intervalToMs(filter.timeframe) / baseMs));
+    }, 0);
+}
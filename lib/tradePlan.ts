@@ -0,0 +1,103 @@
+import type { CandleData } from './types';
+import { indicatorValue } from './indicatorRegistry';
+import { findLastSwing } from './vwap';
+import type { PositionSizing } from './sizing';
+import type { MessageRef } from './i18n';
+import type { TrailingMode } from './trailingStop';
+
+// Concrete trade plan for an opening suggestion (entry zone, invalidation stop,
+// R-multiple targets). The trailing stop of a held position is managed by
+// lib/trailingStop.ts. All distances are in ATR of the evaluated series (1m ATR14).
+
+export type StopMode = 'atr' | 'band' | 'swing';
+type Side = 'long' | 'short';
+
+export interface TradePlanConfig {
+    stopMode: StopMode; // atr: entry ∓ ATR multiple; band: beyond the BB band; swing: beyond the last pivot
+    stopAtrMultiple: number; // Stop distance for 'atr', and the fallback when no band/swing level is usable
+    stopBufferAtr: number; // Extra room beyond the band/swing level
+    minStopAtr: number; // Structural stops closer than this are widened to it
+    swingStrength: number; // Pivot bars on each side for 'swing'
+    entryZoneAtr: number; // Entry zone depth: a pullback of up to this many ATRs from the signal price
+    targetsR: number[]; // Take-profit targets as R multiples (equal-size partial exits)
+    trailMode: TrailingMode; // Rule that ratchets the trailing stop of a held position
+    trailAtrMultiple: number; // chandelier: best price since entry ∓ ATR multiple
+    trailEmaBufferAtr: number; // ema10: EMA10 ∓ this many ATRs
+    breakEvenR: number; // break_even: stop to entry once the best price is this many R in profit
+}
+
+export interface TradeTarget {
+    r: number;
+    price: number;
+}
+
+export interface TradePlan {
+    side: Side;
+    entry: { price: number; low: number; high: number };
+    stop: number;
+    stop_mode: StopMode; // Mode actually used ('atr' when the structural level was unusable)
+    risk: number; // Entry to stop, quote currency per unit (= 1R)
+    risk_pct: number;
+    targets: TradeTarget[];
+    reward_risk: number; // Blended over the targets, assuming equal-size exits
+    sizing?: PositionSizing | null; // Contracts for the configured risk, when account equity is known
+}
+
+export interface TrailingStop {
+    side: Side;
+    level: number;
+    distance_atr: number; // Current price to the trailing level, in ATR
+    basis: MessageRef; // How the level was derived (message key, see lib/i18n)
+    breached?: boolean; // Evaluated close at or beyond the level
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Band or swing level beyond which the trade idea is invalid (before buffer)
+function structuralStop(data: CandleData[], side: Side, config: TradePlanConfig): number | null {
+    const latest = data[data.length - 1];
+    if (config.stopMode === 'band') {
+        return indicatorValue(latest, side === 'long' ? 'BB_Lower' : 'BB_Upper');
+    }
+    if (config.stopMode === 'swing') {
+        const swingTime = findLastSwing(data, config.swingStrength, side === 'long' ? 'low' : 'high');
+        const swing = swingTime !== null ? data.find(c => c.timestamp === swingTime) : undefined;
+        return swing ? (side === 'long' ? swing.low : swing.high) : null;
+    }
+    return null;
+}
+
+export function buildTradePlan(data: CandleData[], side: Side, config: TradePlanConfig): TradePlan | null {
+    const latest = data[data.length - 1];
+    const atr = latest ? indicatorValue(latest, 'ATR14') : null;
+    if (!latest || !atr) return null;
+    const price = latest.close;
+    const sign = side === 'long' ? 1 : -1;
+
+    let stopMode = config.stopMode;
+    let stop = price - sign * config.stopAtrMultiple * atr;
+    const level = structuralStop(data, side, config);
+    if (stopMode !== 'atr') {
+        if (level !== null && sign * (price - level) > 0) {
+            const buffered = level - sign * config.stopBufferAtr * atr;
+            // Never tighter than the minimum distance
+            stop = sign * (price - buffered) >= config.minStopAtr * atr ? buffered : price - sign * config.minStopAtr * atr;
+        } else {
+            stopMode = 'atr'; // Level missing or already on the wrong side of price
+        }
+    }
+
+    const risk = Math.abs(price - stop);
+    const zoneEdge = price - sign * config.entryZoneAtr * atr;
+    const targets = config.targetsR.map(r => ({ r, price: round(price + sign * r * risk) }));
+    return {
+        side,
+        entry: { price: round(price), low: round(Math.min(price, zoneEdge)), high: round(Math.max(price, zoneEdge)) },
+        stop: round(stop),
+        stop_mode: stopMode,
+        risk: round(risk),
+        risk_pct: round((risk / price) * 100),
+        targets,
+        reward_risk: targets.length > 0 ? round(targets.reduce((sum, t) => sum + t.r, 0) / targets.length) : 0,
+    };
+}
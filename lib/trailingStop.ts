@@ -0,0 +1,121 @@
+import type { CandleData, PositionInfoFromAPI } from './types';
+import { indicatorValue } from './indicatorRegistry';
+import type { PositionSource } from './paperTrading';
+import type { TradePlanConfig, TrailingStop } from './tradePlan';
+
+// Trailing stop for the live position. The level starts at the initial stop (1R from
+// entry) and ratchets with the best price since entry, by one of three rules:
+//   chandelier: best price ∓ ATR multiple
+//   ema10:      EMA10 ∓ ATR buffer
+//   break_even: entry, once the best price is breakEvenR × 1R in profit
+// It only ever tightens; a close beyond it flags a breach, which the recommendation
+// turns into a close. State is kept per contract and position source (lib/trailingStopStore.ts).
+
+export type TrailingMode = 'chandelier' | 'ema10' | 'break_even';
+
+type Side = 'long' | 'short';
+
+export interface TrailingStopState {
+    contract: string;
+    source: PositionSource;
+    side: Side;
+    entry_price: number;
+    entry_time: number | null; // Position open time, when the exchange reports it
+    mode: TrailingMode;
+    risk: number; // 1R in price, fixed when tracking starts
+    best_price: number; // Highest high (long) / lowest low (short) since entry
+    level: number;
+    basis: TrailingMode | 'initial'; // Rule that set the current level
+    breached: boolean; // Last evaluated close was at or beyond the level
+    updated_at: number; // Last evaluated bar (ms)
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Same position as the tracked one (a changed average entry starts a new track)
+const samePosition = (state: TrailingStopState, position: PositionInfoFromAPI): boolean =>
+    state.side === position.side
+    && state.entry_price === position.entryPrice
+    && state.entry_time === (position.openTimeMs ?? null);
+
+// Level proposed by the mode for the current bar, before ratcheting
+function modeLevel(state: TrailingStopState, latest: CandleData, atr: number, config: TradePlanConfig): number | null {
+    const sign = state.side === 'long' ? 1 : -1;
+    if (state.mode === 'chandelier') return state.best_price - sign * config.trailAtrMultiple * atr;
+    if (state.mode === 'ema10') {
+        const ema = indicatorValue(latest, 'EMA10');
+        return ema !== null ? ema - sign * config.trailEmaBufferAtr * atr : null;
+    }
+    const excursion = sign * (state.best_price - state.entry_price);
+    return state.risk > 0 && excursion >= config.breakEvenR * state.risk ? state.entry_price : null;
+}
+
+// Advances (or starts) the track for `position` on the evaluated candles; null without ATR.
+// `initialStop` is the plan stop the position was opened with, if known (else stopAtrMultiple × ATR).
+export function updateTrailingStop(
+    state: TrailingStopState | null,
+    position: PositionInfoFromAPI,
+    candles: CandleData[],
+    config: TradePlanConfig,
+    initialStop: number | null,
+    ids: { contract: string; source: PositionSource }
+): TrailingStopState | null {
+    const latest = candles[candles.length - 1];
+    const atr = latest ? indicatorValue(latest, 'ATR14') : null;
+    if (!latest || !atr) return null;
+    const long = position.side === 'long';
+    const sign = long ? 1 : -1;
+
+    let next: TrailingStopState;
+    if (state && samePosition(state, position) && state.mode === config.trailMode) {
+        next = { ...state };
+    } else {
+        const risk = initialStop !== null && sign * (position.entryPrice - initialStop) > 0
+            ? Math.abs(position.entryPrice - initialStop)
+            : config.stopAtrMultiple * atr;
+        next = {
+            ...ids,
+            side: position.side,
+            entry_price: position.entryPrice,
+            entry_time: position.openTimeMs ?? null,
+            mode: config.trailMode,
+            risk: round(risk),
+            best_price: position.entryPrice,
+            level: round(position.entryPrice - sign * risk),
+            basis: 'initial',
+            breached: false,
+            updated_at: latest.timestamp,
+        };
+    }
+
+    // Best price over the bars since entry (only the latest bar when the open time is unknown)
+    const since = next.entry_time ?? latest.timestamp;
+    const bars = candles.filter(c => c.timestamp >= since);
+    const extreme = long ? Math.max(...bars.map(c => c.high)) : Math.min(...bars.map(c => c.low));
+    if (bars.length > 0) next.best_price = long ? Math.max(next.best_price, extreme) : Math.min(next.best_price, extreme);
+
+    const proposed = modeLevel(next, latest, atr, config);
+    if (proposed !== null && sign * (proposed - next.level) > 0) {
+        next.level = round(proposed);
+        next.basis = next.mode;
+    }
+    next.breached = sign * (latest.close - next.level) <= 0;
+    next.updated_at = latest.timestamp;
+    return next;
+}
+
+// Shape attached to the recommendation (TradePlanSet.trailing)
+export function trailingStopView(state: TrailingStopState, latest: CandleData, config: TradePlanConfig): TrailingStop {
+    const atr = indicatorValue(latest, 'ATR14');
+    const params = state.basis === 'chandelier' ? { multiple: config.trailAtrMultiple }
+        : state.basis === 'ema10' ? { multiple: config.trailEmaBufferAtr }
+        : state.basis === 'break_even' ? { r: config.breakEvenR }
+        : {};
+    return {
+        side: state.side,
+        level: state.level,
+        distance_atr: atr ? round(Math.abs(latest.close - state.level) / atr) : 0,
+        basis: { key: `trailing.basis.${state.basis}${state.basis === 'chandelier' || state.basis === 'ema10' ? `.${state.side}` : ''}`, params },
+        breached: state.breached,
+    };
+}
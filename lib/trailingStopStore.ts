@@ -0,0 +1,19 @@
+import { getStorage } from './storage';
+import { trailingStopKey } from './contracts';
+import type { PositionSource } from './paperTrading';
+import type { TrailingStopState } from './trailingStop';
+
+// Persistence for the trailing stop of the held position (server-side only, see lib/storage)
+
+export async function loadTrailingStop(contract: string, source: PositionSource): Promise<TrailingStopState | null> {
+    return getStorage().get<TrailingStopState>(trailingStopKey(contract, source));
+}
+
+export async function saveTrailingStop(state: TrailingStopState): Promise<void> {
+    await getStorage().set(trailingStopKey(state.contract, state.source), state);
+}
+
+// Once flat, so the next position starts a new track
+export async function clearTrailingStop(contract: string, source: PositionSource): Promise<void> {
+    await getStorage().del(trailingStopKey(contract, source));
+}
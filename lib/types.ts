@@ -1,3 +1,13 @@
+import type { VwapAnchorMode } from './vwap'
+import type { TrendFilterResult } from './timeframes'
+import type { MarketRegime, RegimeInputs } from './regime'
+import type { SignalState } from './confirmation'
+import type { Recommendation } from './recommendation'
+import type { MessageParams } from './i18n'
+import type { PaperAccount, PositionSource } from './paperTrading'
+import type { GuardrailState } from './guardrails'
+import type { TrailingStopState } from './trailingStop'
+
 export interface CandleData {
     timestamp: number
     open: number
@@ -5,7 +15,7 @@ export interface CandleData {
     low: number
     close: number
     volume: number
-    // New Indicators
+    // New Indicators (field names keep the default periods; values follow the strategy config)
     EMA5?: number | null
     EMA10?: number | null
     BB_Upper?: number | null
@@ -18,11 +28,33 @@ export interface CandleData {
     VWAP?: number | null
     ATR14?: number | null
     // For Holdability Score
-    EMA15?: number | null // From 15m data
-    BTC_close?: number | null // Keep this for sync check
-    ETH_close?: number | null // Added in API route for sync check
+    Ref_close?: number | null // Reference contract close (e.g. BTC), added in API route for sync check
+    synthetic?: boolean // Gap-fill bar inserted by candle validation
+    // Outputs of registry indicators (RSI, MACD, ADX, ...) - read via indicatorValue()
+    [field: string]: number | string | boolean | null | undefined
+  }
+
+  // How candle validation treats missing bars
+  export type GapPolicy = 'fill' | 'mark' | 'truncate'
+
+  // Per-series result of candle validation
+  export interface DataQualityReport {
+    interval: string;
+    policy: GapPolicy;
+    received: number;
+    invalid_rows: number; // NaN / inconsistent OHLC rows dropped
+    duplicates: number;
+    out_of_order: number;
+    gaps: number;
+    missing_bars: number;
+    filled_bars: number;
+    dropped_bars: number; // Bars discarded by the 'truncate' policy
+    degraded: boolean;
   }
   
+  // 'closed' scores only fully closed candles, 'live' includes the forming candle
+  export type BarMode = 'closed' | 'live'
+
   export interface SignalResult {
     score: number
     reasons: string[]
@@ -34,6 +66,9 @@ export interface CandleData {
     condition: string;
     met: boolean;
     score: number;
+    weight?: number; // Points available for the condition (score when met)
+    key?: string; // Message key for the label (lib/i18n); `condition` is the default-locale text
+    params?: MessageParams;
   }
 
   // Structure for Position Info from API response
@@ -41,20 +76,48 @@ export interface CandleData {
       side: 'long' | 'short';
       entryPrice: number;
       liquidationPrice: number | null;
+      openTimeMs?: number | null; // When the position was first opened, if the exchange reports it
+      // Position economics (absent in fixtures and older history records)
+      size?: number | null; // Contracts, always positive (direction is `side`)
+      leverage?: number | null; // 0 = cross margin
+      margin?: number | null; // Position margin, quote currency
+      value?: number | null; // Notional at mark price, quote currency
+      markPrice?: number | null;
+      unrealisedPnl?: number | null;
+      fundingPnl?: number | null; // Funding accrued since open; negative = paid
   }
 
   // Updated Props for the frontend component
   export interface SignalProps {
     // Core Info
+    contract?: string; // e.g. 'ETH_USDT'
+    reference_contract?: string; // Contract used for sync checks, e.g. 'BTC_USDT'
+    config_version?: string; // Strategy config version the signal was computed with
+    notification_threshold?: number; // Opening score that triggers a browser notification
     time?: number | null;
     price?: number | null;
 
+    // Which bar the signal was computed on
+    bar_state?: {
+        mode: BarMode;
+        closed: boolean; // true if the evaluated bar had closed when scored
+        live_bar: { timestamp: number; open: number; high: number; low: number; close: number; volume: number } | null; // Forming bar (closed mode only)
+    } | null;
+
+    // Candle validation summary, keyed by series (e.g. '1m', '15m', 'ref_1m', 'btc_1d')
+    data_quality?: {
+        degraded: boolean;
+        series: Record<string, DataQualityReport>;
+    } | null;
+
     // Market Context
     market_context?: {
         fng_value: number | null;
         fng_classification: string | null;
         btc_daily_trend: 'up' | 'down' | 'flat' | null;
         btc_daily_ema50: number | null;
+        regime?: MarketRegime | null; // trend_up / trend_down / range / shock on the latest 1m bar
+        regime_inputs?: RegimeInputs | null;
     } | null;
 
     // Opening Signal Info (Nested Object)
@@ -67,33 +130,41 @@ export interface CandleData {
         short_reasons?: string[];
         short_signalTypes?: string[];
         short_details?: ScoreDetail[]; // Add details field
-        ema15m_trend?: 'up' | 'down' | 'flat';
+        ema15m_trend?: 'up' | 'down' | 'flat'; // Combined higher-timeframe trend (name kept for stored history)
+        low_confidence?: boolean; // Computed on degraded candle data
+        long_max_score?: number; // Derived from the active scoring rules
+        short_max_score?: number;
+        confirmation?: SignalState | null; // N-of-M bar confirmation with hysteresis, from recent history
     } | null;
 
     // Holdability Score Info (Conditional)
     holdability_score?: number | null;
     holdability_details?: ScoreDetail[] | null;
+    holdability_max_score?: number | null; // Sum of the weights of the conditions that could be evaluated
 
     // Position Info (Conditional)
     position?: PositionInfoFromAPI | null;
+    position_source?: PositionSource; // 'paper' = `position` is the virtual paper-trading position
+    paper_account?: PaperAccount | null; // Virtual account after this bar's recommendation (paper mode)
+    guardrails?: GuardrailState | null; // Risk guardrail counters; `tripped` forced the recommendation to WAIT / CLOSE
+    trailing_stop?: TrailingStopState | null; // Managed trailing stop of the held position
 
     // Key Indicators for Display
-    indicators_1m?: {
-        [key: string]: number | null | string; // Allow flexible display
-        ema5: number | null;
-        ema10: number | null;
-        bb_upper: number | null;
-        bb_middle: number | null;
-        bb_lower: number | null;
-        stoch_k: number | null;
-        stoch_d: number | null;
-        vwap: number | null;
-        atr14: number | null;
-        volume: number | null;
-        vma20: number | null;
-    } | null;
-    indicators_15m?: {
-        ema15: number | null;
+    // Latest values keyed by indicator output field (e.g. EMA5, RSI, MACD), chosen by strategy config
+    indicators_1m?: Record<string, number | null> | null;
+    // Higher-timeframe trend filters (resampled from 1m); their combined direction is opening_signal.ema15m_trend
+    trend_filters?: TrendFilterResult[] | null;
+    // Session-anchored VWAP on the 1m series
+    vwap?: {
+        anchor: VwapAnchorMode;
+        anchor_time: number;
+        truncated: boolean; // Fetched history starts after the anchor, so VWAP covers less than the session
+        value: number | null;
+        upper1: number | null;
+        lower1: number | null;
+        upper2: number | null;
+        lower2: number | null;
+        z: number | null; // Band position: (close - VWAP) / σ
     } | null;
 
     // Loading and Error States
@@ -103,15 +174,12 @@ export interface CandleData {
     // Historical Data for Chart (Removed)
     // historical_data_1m?: CandleData[] | null;
 
-    // Recommendation object (calculated by API)
-    recommendation?: {
-        action: string;
-        reasons: string[];
-    } | null;
+    // Recommendation object (calculated by API); records stored before structured
+    // actions hold free-text action/reasons (see isStructuredRecommendation)
+    recommendation?: Recommendation | null;
 
     // Remove old direct props if now nested or obsolete
-    // take_profit?: number; (Removed, handled by external bot/manual)
-    // stop_loss?: number; (Removed, handled by external bot/manual)
+    // take_profit / stop_loss: now recommendation.trade_plan (see lib/tradePlan.ts)
     // long_score?: number; (Now in opening_signal)
     // short_score?: number; (Now in opening_signal)
   }
@@ -0,0 +1,96 @@
+import type { CandleData } from './types';
+import { intervalToMs } from './interval';
+
+// Anchored VWAP: cumulative from a chosen session start instead of the first fetched bar.
+// Bands use the volume-weighted standard deviation of the typical price since the anchor.
+
+export type VwapAnchorMode = 'utc_day' | 'swing' | 'position_entry';
+
+export interface VwapAnchorOptions {
+    mode: VwapAnchorMode;
+    sessionStartHourUtc: number; // Session boundary for 'utc_day' (0 = midnight UTC)
+    swingStrength: number; // Bars on each side that a pivot high/low must dominate for 'swing'
+    entryTimeMs?: number | null; // Position open time for 'position_entry'
+}
+
+export interface VwapSeries {
+    AVWAP: (number | null)[];
+    AVWAP_Upper1: (number | null)[];
+    AVWAP_Lower1: (number | null)[];
+    AVWAP_Upper2: (number | null)[];
+    AVWAP_Lower2: (number | null)[];
+    AVWAP_Z: (number | null)[]; // (close - VWAP) / sigma, i.e. position within the bands
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Start of the session containing `now`
+export function sessionStart(now: number, sessionStartHourUtc = 0): number {
+    const offset = sessionStartHourUtc * 60 * 60 * 1000;
+    return Math.floor((now - offset) / DAY_MS) * DAY_MS + offset;
+}
+
+// Timestamp of the most recent confirmed pivot (high, low or either), or null if none in range
+export function findLastSwing(data: CandleData[], strength: number, kind: 'any' | 'high' | 'low' = 'any'): number | null {
+    for (let i = data.length - 1 - strength; i >= strength; i--) {
+        let isHigh = kind !== 'low';
+        let isLow = kind !== 'high';
+        for (let j = i - strength; j <= i + strength && (isHigh || isLow); j++) {
+            if (j === i) continue;
+            // Equal highs/lows on the right still confirm the pivot (first bar of a flat top wins)
+            if (j < i ? data[j].high >= data[i].high : data[j].high > data[i].high) isHigh = false;
+            if (j < i ? data[j].low <= data[i].low : data[j].low < data[i].low) isLow = false;
+        }
+        if (isHigh || isLow) return data[i].timestamp;
+    }
+    return null;
+}
+
+// Anchor time known before any candles are fetched (swing anchors need the data first)
+export function preFetchAnchor(options: VwapAnchorOptions, now: number): number | null {
+    if (options.mode === 'position_entry' && options.entryTimeMs) return options.entryTimeMs;
+    if (options.mode === 'swing') return null;
+    return sessionStart(now, options.sessionStartHourUtc); // utc_day, or position_entry without a position
+}
+
+export function resolveVwapAnchor(data: CandleData[], options: VwapAnchorOptions, now: number): number {
+    const anchor = preFetchAnchor(options, now);
+    if (anchor !== null) return anchor;
+    return findLastSwing(data, options.swingStrength) ?? sessionStart(now, options.sessionStartHourUtc);
+}
+
+// Bars needed to cover the session up to `now` (inclusive of the forming bar)
+export function barsSinceAnchor(anchorTime: number, interval: string, now: number): number {
+    return Math.max(0, Math.floor((now - anchorTime) / intervalToMs(interval))) + 1;
+}
+
+export function calculateAnchoredVwap(data: CandleData[], anchorTime: number, band1 = 1, band2 = 2): VwapSeries {
+    const series: VwapSeries = {
+        AVWAP: [], AVWAP_Upper1: [], AVWAP_Lower1: [], AVWAP_Upper2: [], AVWAP_Lower2: [], AVWAP_Z: [],
+    };
+    let cumulativeVolume = 0;
+    let cumulativePV = 0;
+    let cumulativePV2 = 0;
+
+    data.forEach(candle => {
+        if (candle.timestamp < anchorTime) {
+            (Object.keys(series) as (keyof VwapSeries)[]).forEach(key => series[key].push(null));
+            return;
+        }
+        const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+        cumulativeVolume += candle.volume;
+        cumulativePV += typicalPrice * candle.volume;
+        cumulativePV2 += typicalPrice * typicalPrice * candle.volume;
+
+        const vwap = cumulativeVolume > 0 ? cumulativePV / cumulativeVolume : null;
+        // Clamp tiny negative variances from floating point error
+        const sigma = vwap !== null ? Math.sqrt(Math.max(cumulativePV2 / cumulativeVolume - vwap * vwap, 0)) : null;
+        series.AVWAP.push(vwap);
+        series.AVWAP_Upper1.push(vwap !== null ? vwap + band1 * sigma! : null);
+        series.AVWAP_Lower1.push(vwap !== null ? vwap - band1 * sigma! : null);
+        series.AVWAP_Upper2.push(vwap !== null ? vwap + band2 * sigma! : null);
+        series.AVWAP_Lower2.push(vwap !== null ? vwap - band2 * sigma! : null);
+        series.AVWAP_Z.push(vwap !== null && sigma ? (candle.close - vwap) / sigma : null);
+    });
+    return series;
+}
@@ -0,0 +1,147 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { resolveContract } from '@/lib/contracts';
+import { signalRecordsBetween } from '@/lib/signalHistoryStore';
+import { getExchangeAdapter } from '@/lib/exchange';
+import { loadStrategyConfig } from '@/lib/strategyConfigLoader';
+import { accountTrips } from '@/lib/guardrails';
+import { loadGuardrailState } from '@/lib/guardrailStore';
+import { isStructuredRecommendation } from '@/lib/recommendation';
+import { buildOrderIntent, gateRequests } from '@/lib/execution/orders';
+import { createGateOrderClient, plain } from '@/lib/execution/gateClient';
+import { authorizedRequest } from '@/lib/execution/auth';
+import { hasConfiguredStorage } from '@/lib/storage';
+import { errorMessage, executeIntent, resolveExecutionSettings, type AuditEntry } from '@/lib/execution/executor';
+import {
+    appendAudit,
+    armExecution,
+    armedUntil,
+    claimIdempotencyKey,
+    disarmExecution,
+    idempotentResult,
+    listAudit,
+    saveIdempotentResult,
+} from '@/lib/execution/store';
+
+// Guarded order execution for the dashboard's confirm button.
+// GET  ?contract=             -> settings, arming state and the recent audit log
+// POST { contract, op: 'arm' | 'disarm' }
+// POST { contract, op: 'place', signal_time, action } executes the stored recommendation of that bar
+// POST { contract, op: 'cancel', order_id? }          cancels an order, or all stop/take-profit triggers
+// Every POST needs the EXECUTION_TOKEN secret in the x-execution-token header (401 otherwise, not audited)
+// and a configured storage backend (503 on the fallback in-memory store, see hasConfiguredStorage).
+// Orders need EXECUTION_ENABLED=true and an active arming; EXECUTION_DRY_RUN=false is required to send them.
+// Openings are also refused while a risk guardrail is tripped (closes still go through).
+
+const MAX_SIGNAL_AGE_MS = 3 * 60 * 1000; // Only recommendations from the last few bars can be executed
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const body = req.method === 'POST' ? (req.body ?? {}) : {};
+  const contractConfig = resolveContract(req.method === 'POST' ? body.contract : req.query.contract);
+  if (!contractConfig) {
+    return res.status(400).json({ error: `Unsupported contract: ${body.contract ?? req.query.contract}` });
+  }
+  const { contract } = contractConfig;
+  const settings = resolveExecutionSettings();
+
+  const audit = (entry: Omit<AuditEntry, 'time' | 'contract' | 'dry_run'>) =>
+    appendAudit({ time: Date.now(), contract, dry_run: settings.dryRun, ...entry })
+      .catch(err => console.error("Error writing execution audit log:", err));
+  const reject = async (status: number, op: AuditEntry['op'], error: string, idempotency_key: string | null = null) => {
+    await audit({ op, status: 'rejected', idempotency_key, request: plain(body), error });
+    return res.status(status).json({ error });
+  };
+
+  try {
+    if (req.method === 'GET') {
+      const [until, entries] = await Promise.all([armedUntil(contract), listAudit(contract, 50)]);
+      return res.status(200).json({ enabled: settings.enabled, dry_run: settings.dryRun, armed_until: until, audit: entries });
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'GET, POST');
+      return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+    if (!authorizedRequest(req.headers)) return res.status(401).json({ error: 'Missing or invalid execution token' });
+    if (!hasConfiguredStorage()) {
+      return res.status(503).json({ error: 'Order execution needs a configured storage backend (STORAGE_BACKEND)' });
+    }
+
+    const op = body.op as AuditEntry['op'];
+    if (op === 'disarm') {
+      await disarmExecution(contract);
+      await audit({ op, status: 'ok', idempotency_key: null });
+      return res.status(200).json({ armed_until: null });
+    }
+    if (op !== 'arm' && op !== 'place' && op !== 'cancel') {
+      return res.status(400).json({ error: `Unknown op: ${body.op}` });
+    }
+    if (!settings.enabled) return reject(403, op, 'Order execution is disabled (EXECUTION_ENABLED)');
+
+    if (op === 'arm') {
+      const until = await armExecution(contract, settings.armMinutes);
+      await audit({ op, status: 'ok', idempotency_key: null, response: { armed_until: until } });
+      return res.status(200).json({ armed_until: until });
+    }
+    if (!(await armedUntil(contract))) return reject(403, op, 'Execution is not armed');
+
+    if (op === 'cancel') {
+      const request = body.order_id ? { order_id: String(body.order_id) } : { contract, triggers: 'all' };
+      if (settings.dryRun) {
+        await audit({ op, status: 'dry_run', idempotency_key: null, request });
+        return res.status(200).json({ dry_run: true, request });
+      }
+      try {
+        const client = createGateOrderClient();
+        const response = body.order_id ? await client.cancelOrder(String(body.order_id)) : await client.cancelTriggerOrders(contract);
+        await audit({ op, status: 'ok', idempotency_key: null, request, response });
+        return res.status(200).json({ dry_run: false, request, response });
+      } catch (err: any) {
+        await audit({ op, status: 'error', idempotency_key: null, request, error: errorMessage(err) });
+        return res.status(502).json({ error: errorMessage(err) });
+      }
+    }
+
+    // --- Place: re-read the stored recommendation rather than trusting the client ---
+    const signalTime = Number(body.signal_time);
+    if (!signalTime || Date.now() - signalTime > MAX_SIGNAL_AGE_MS) {
+      return reject(409, op, 'Signal is missing or too old to execute');
+    }
+    const records = await signalRecordsBetween(contract, signalTime, signalTime);
+    const record = records.filter(r => r?.position_source !== 'paper').pop(); // Last write of the bar wins
+    const recommendation = record?.recommendation;
+    if (!isStructuredRecommendation(recommendation) || recommendation.action !== body.action) {
+      return reject(409, op, `No stored ${body.action} recommendation for this bar`);
+    }
+    const intent = buildOrderIntent(contract, recommendation, signalTime);
+    if (!intent) return reject(422, op, `${recommendation.action} has no executable order (unsized plan?)`);
+    // The stored recommendation was already guarded; this catches a kill switch or limit hit since that bar
+    if (intent.op === 'open') {
+      const tripped = accountTrips(await loadGuardrailState(contract, 'exchange'), loadStrategyConfig().guardrails, Date.now());
+      if (tripped.length > 0) return reject(423, op, `Guardrail tripped: ${tripped.map(t => t.code).join(', ')}`);
+    }
+
+    // Dry runs use their own keys, so rehearsing a signal doesn't block executing it
+    if (!(await claimIdempotencyKey(intent.idempotency_key, settings.dryRun))) {
+      const previous = await idempotentResult(intent.idempotency_key, settings.dryRun);
+      await audit({ op, status: 'duplicate', idempotency_key: intent.idempotency_key, request: plain(body) });
+      return res.status(409).json({ error: 'Already executed for this signal', duplicate: true, result: previous });
+    }
+
+    // The key stays claimed even if this request fails midway, so a retry can't double the order
+    const contractInfo = await getExchangeAdapter().getContractInfo(contract).catch(() => null);
+    const requests = gateRequests(intent, contractInfo?.orderPriceRound ?? null);
+    const result = await executeIntent(
+      intent,
+      requests,
+      settings.dryRun ? null : createGateOrderClient(),
+      settings.dryRun,
+      entry => audit(entry)
+    );
+    await saveIdempotentResult(result);
+    console.log(`Execution ${intent.idempotency_key} (${intent.action} ${contract}): ${result.status}`);
+    return res.status(200).json(result);
+
+  } catch (error: any) {
+    console.error("Order execution error:", error);
+    res.status(500).json({ error: 'Order execution failed', details: error.message });
+  }
+}
@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { resolveContract } from '@/lib/contracts';
+import { loadStrategyConfig } from '@/lib/strategyConfigLoader';
+import { accountTrips } from '@/lib/guardrails';
+import type { PositionSource } from '@/lib/paperTrading';
+import { loadGuardrailState, resetGuardrailState, setKillSwitch } from '@/lib/guardrailStore';
+import { authorizedRequest } from '@/lib/execution/auth';
+import { hasConfiguredStorage } from '@/lib/storage';
+
+// Risk guardrail state and kill switch, per contract and position source.
+// GET  ?contract=&position=paper|exchange -> state plus the guardrails tripped right now
+// POST { contract, position, op: 'kill' | 'release' | 'reset' }, with the EXECUTION_TOKEN secret as for /api/execute
+// Counters are updated by /api/signal; 'reset' clears the day's counters and any blackout.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const input = req.method === 'POST' ? (req.body ?? {}) : req.query;
+  const contractConfig = resolveContract(input.contract);
+  if (!contractConfig) {
+    return res.status(400).json({ error: `Unsupported contract: ${input.contract}` });
+  }
+  const { contract } = contractConfig;
+  const source: PositionSource = input.position === 'paper' ? 'paper' : 'exchange';
+  const config = loadStrategyConfig();
+
+  try {
+    let state;
+    if (req.method === 'GET') {
+      state = await loadGuardrailState(contract, source);
+    } else if (req.method === 'POST') {
+      if (!authorizedRequest(req.headers)) return res.status(401).json({ error: 'Missing or invalid execution token' });
+      if (!hasConfiguredStorage()) {
+        return res.status(503).json({ error: 'Guardrail changes need a configured storage backend (STORAGE_BACKEND)' });
+      }
+      const { op } = input;
+      if (op === 'kill' || op === 'release') state = await setKillSwitch(contract, source, op === 'kill');
+      else if (op === 'reset') state = await resetGuardrailState(contract, source);
+      else return res.status(400).json({ error: `Unknown op: ${op}` });
+      console.log(`Guardrails ${op} for ${contract} (${source})`);
+    } else {
+      res.setHeader('Allow', 'GET, POST');
+      return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+    res.status(200).json({ state, tripped: accountTrips(state, config.guardrails, Date.now()) });
+
+  } catch (error: any) {
+    console.error("Error reading guardrail state:", error);
+    res.status(500).json({ error: 'Failed to load guardrail state', details: error.message });
+  }
+}
@@ -1,41 +1,29 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { kv } from '@vercel/kv';
-import type { SignalProps } from '@/lib/types'; // Use SignalProps for data structure
+import { resolveContract } from '@/lib/contracts';
+import { latestSignalRecords } from '@/lib/signalHistoryStore';
+import { loadStrategyConfig } from '@/lib/strategyConfigLoader';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const sortedSetKey = 'signal_history';
+  const contractConfig = resolveContract(req.query.contract);
+  if (!contractConfig) {
+    return res.status(400).json({ error: `Unsupported contract: ${req.query.contract}` });
+  }
+  const { contract } = contractConfig;
+  // Records carry the config_version they were computed with; the header names the active one
+  res.setHeader('X-Strategy-Config-Version', loadStrategyConfig().version);
   const count = 50; // Number of recent items to fetch (can adjust)
 
   try {
-    console.log(`Fetching latest ${count} items from sorted set: ${sortedSetKey}`);
-
-    // Fetch latest 'count' members (which are JSON strings) using zrange with rev:true
-    // Scores (timestamps) are not needed here, just the members
-    const historyStrings = await kv.zrange(sortedSetKey, 0, count - 1, { rev: true });
-
-    console.log(`Retrieved ${historyStrings.length} items from sorted set.`);
-
-    if (historyStrings.length === 0) {
-        return res.status(200).json([]);
-    }
+    console.log(`Fetching latest ${count} history records for ${contract}`);
 
-    // @vercel/kv zrange already returns parsed objects (or null if parsing failed on their end)
-    // Filter out any nulls or non-objects directly
-    const historyData: SignalProps[] = historyStrings
-        .filter((item): item is SignalProps => {
-            if (item === null || typeof item !== 'object') {
-                console.warn("Filtered out invalid item from KV zrange result:", item);
-                return false;
-            }
-            // Optional: Add more checks if needed to ensure it matches SignalProps structure
-            return true;
-        });
+    // Most recent first; entries that aren't objects are dropped by the store
+    const historyData = await latestSignalRecords(contract, count);
 
-    console.log(`Retrieved ${historyData.length} valid history items from KV.`);
+    console.log(`Retrieved ${historyData.length} valid history items.`);
     res.status(200).json(historyData);
 
   } catch (error: any) {
-    console.error("Error fetching history from Vercel KV:", error);
+    console.error("Error fetching signal history:", error);
     res.status(500).json({ error: 'Failed to fetch signal history', details: error.message });
   }
 }
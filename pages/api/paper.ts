@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { resolveContract } from '@/lib/contracts';
+import { loadStrategyConfig } from '@/lib/strategyConfigLoader';
+import { listPaperTrades, loadPaperAccount, resetPaperAccount } from '@/lib/paperTradingStore';
+import { authorizedRequest } from '@/lib/execution/auth';
+import { hasConfiguredStorage } from '@/lib/storage';
+
+// Paper-trading account and trade log. GET reads them; DELETE resets the account
+// (with the EXECUTION_TOKEN secret and a configured storage backend, as for /api/guardrails).
+// Positions are opened and closed by /api/signal?position=paper.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const contractConfig = resolveContract(req.query.contract);
+  if (!contractConfig) {
+    return res.status(400).json({ error: `Unsupported contract: ${req.query.contract}` });
+  }
+  const { contract } = contractConfig;
+  const config = loadStrategyConfig();
+
+  try {
+    if (req.method === 'DELETE') {
+      if (!authorizedRequest(req.headers)) return res.status(401).json({ error: 'Missing or invalid execution token' });
+      if (!hasConfiguredStorage()) {
+        return res.status(503).json({ error: 'Resetting the paper account needs a configured storage backend (STORAGE_BACKEND)' });
+      }
+      const account = await resetPaperAccount(contract, config.paperTrading);
+      console.log(`Reset paper account for ${contract} to ${account.balance}`);
+      return res.status(200).json({ account, trades: [] });
+    }
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET, DELETE');
+      return res.status(405).json({ error: `Method ${req.method} not allowed` });
+    }
+
+    const [account, trades] = await Promise.all([
+      loadPaperAccount(contract, config.paperTrading),
+      listPaperTrades(contract, 50),
+    ]);
+    res.status(200).json({ account, trades });
+
+  } catch (error: any) {
+    console.error("Error reading paper-trading state:", error);
+    res.status(500).json({ error: 'Failed to load paper-trading account', details: error.message });
+  }
+}
@@ -1,12 +1,24 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { FuturesApi, ApiClient } from 'gate-api';
 import axios from 'axios';
-import { kv } from '@vercel/kv'; // Import Vercel KV client
-import { getLatestKlines } from '@/lib/gateio';
-import { calculateIndicators } from '@/lib/indicators';
-import { calculateHoldabilityScore } from '@/lib/holdabilityScore';
-import { scoreSignals as scoreOpeningSignals } from '@/lib/score';
-import { CandleData, SignalProps } from '@/lib/types';
+import { getValidatedKlines } from '@/lib/gateio';
+import { summarizeDataQuality } from '@/lib/candleValidation';
+import { loadStrategyConfig } from '@/lib/strategyConfigLoader';
+import { getExchangeAdapter } from '@/lib/exchange';
+import { resolveContract, baseAsset } from '@/lib/contracts';
+import { appendSignalRecord, signalRecordsBetween } from '@/lib/signalHistoryStore';
+import { isCandleClosed, splitClosedCandles } from '@/lib/interval';
+import { pickIndicatorValues } from '@/lib/indicatorRegistry';
+import { confirmationThresholds, evaluateSignalSnapshot, extraFetchBars, signalWindowBars } from '@/lib/signalPipeline';
+import { evaluateSignalState, type ScoredHistoryRecord } from '@/lib/confirmation';
+import { buildTradePlan } from '@/lib/tradePlan';
+import { trailingStopView, updateTrailingStop } from '@/lib/trailingStop';
+import { resolveEquity, sizePosition } from '@/lib/sizing';
+import { applyPaperRecommendation, paperPositionInfo, type PaperAccount, type PositionSource } from '@/lib/paperTrading';
+import { claimPaperBar, loadPaperAccount, savePaperAccount } from '@/lib/paperTradingStore';
+import { applyGuardrails, evaluateGuardrails, recordCloses, utcDayStart, type GuardrailClose } from '@/lib/guardrails';
+import { loadGuardrailState, saveGuardrailState } from '@/lib/guardrailStore';
+import { clearTrailingStop, loadTrailingStop, saveTrailingStop } from '@/lib/trailingStopStore';
+import { BarMode, CandleData, PositionInfoFromAPI, SignalProps } from '@/lib/types';
 // Import recommendation logic and necessary types
 import {
     generateProfessionalRecommendation,
@@ -16,38 +28,6 @@ import {
     type Recommendation
 } from '@/lib/recommendation';
 
-// Initialize Gate.io API Client
-const client = new ApiClient();
-client.setApiKeySecret(process.env.GATE_READ_API_KEY!, process.env.GATE_READ_API_SECRET!);
-const futuresApi = new FuturesApi(client);
-const settle = 'usdt';
-const contract = 'ETH_USDT';
-
-// Helper function to calculate EMA
-const calculateEma = (arr: number[], period: number): (number | null)[] => {
-    if (period <= 0 || arr.length < period) return Array(arr.length).fill(null);
-    const k = 2 / (period + 1);
-    const result: (number | null)[] = [];
-    let currentEma: number | null = null;
-    for (let i = 0; i < arr.length; i++) {
-        if (i < period - 1) {
-            result.push(null);
-        } else if (i === period - 1) {
-            const initialSlice = arr.slice(0, period);
-            currentEma = initialSlice.reduce((a, b) => a + b, 0) / period;
-            result.push(currentEma);
-        } else {
-            if (currentEma !== null) {
-                currentEma = arr[i] * k + currentEma * (1 - k);
-                result.push(currentEma);
-            } else {
-                result.push(null);
-            }
-        }
-    }
-    return result;
-};
-
 // Helper function to fetch FNG Index
 async function getFngIndex() {
     const url = 'https://api.alternative.me/fng/?limit=1';
@@ -77,34 +57,111 @@ async function getFngIndex() {
 
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const contractConfig = resolveContract(req.query.contract);
+    if (!contractConfig) {
+        return res.status(400).json({ error: `Unsupported contract: ${req.query.contract}` });
+    }
+    const { contract, reference } = contractConfig;
+
+    // Position source: ?position=paper|exchange, falling back to SIGNAL_POSITION_SOURCE (default 'exchange')
+    const positionParam = (Array.isArray(req.query.position) ? req.query.position[0] : req.query.position) ?? process.env.SIGNAL_POSITION_SOURCE;
+    const positionSource: PositionSource = positionParam === 'paper' ? 'paper' : 'exchange';
+    // Bar mode: ?bars=closed|live, falling back to SIGNAL_BAR_MODE (default 'live').
+    // Paper mode always uses closed bars so a fill never follows a decision the forming bar later reverses.
+    const barModeParam = (Array.isArray(req.query.bars) ? req.query.bars[0] : req.query.bars) ?? process.env.SIGNAL_BAR_MODE;
+    const barMode: BarMode = barModeParam === 'closed' || positionSource === 'paper' ? 'closed' : 'live';
+    const extraBar = extraFetchBars(barMode); // Fetch one more so the forming bar can be dropped
+
     try {
+        const config = loadStrategyConfig();
+        res.setHeader('X-Strategy-Config-Version', config.version);
+        const { btcDailyEmaPeriod } = config.trend;
+
+        // --- Size the 1m fetch to cover the VWAP session and higher-timeframe trend filters ---
+        // Position-anchored VWAP needs the open time first; other anchors don't wait on it
+        // In paper mode the virtual account's position replaces the exchange position
+        const paperAccountPromise = positionSource === 'paper' ? loadPaperAccount(contract, config.paperTrading) : null;
+        const positionPromise = paperAccountPromise
+            ? paperAccountPromise.then(account => paperPositionInfo(account, null)).catch(err => err)
+            : getExchangeAdapter().getPosition(contract).catch(err => err);
+        const earlyPosition = config.vwap.anchor === 'position_entry'
+            ? ((await positionPromise) as PositionInfoFromAPI | Error | null)
+            : null;
+        const limit1m = signalWindowBars(
+            config,
+            Date.now(),
+            earlyPosition && !(earlyPosition instanceof Error) ? earlyPosition.openTimeMs : null,
+            barMode
+        );
+
         // --- Fetch Data Concurrently ---
         const [
             positionResult,
-            ethKlines1m,
-            btcKlines1m,
-            ethKlines15m,
+            series1m,
+            refSeries1m,
             fngData,
-            btcKlines1d
+            btcSeries1d,
+            account,
+            contractInfo,
+            storedGuardrails,
+            exchangeCloses,
+            storedTrailing
         ] = await Promise.all([
-            futuresApi.getPosition(settle, contract).catch(err => err),
-            getLatestKlines(contract, '1m', 100),
-            getLatestKlines('BTC_USDT', '1m', 2),
-            getLatestKlines(contract, '15m', 20),
+            positionPromise,
+            getValidatedKlines(contract, '1m', limit1m + extraBar),
+            getValidatedKlines(reference, '1m', 2 + extraBar),
             getFngIndex(),
-            getLatestKlines('BTC_USDT', '1d', 60)
+            getValidatedKlines('BTC_USDT', '1d', Math.max(60, btcDailyEmaPeriod + 10) + extraBar),
+            // Sizing inputs are optional: without them the plan is returned unsized
+            getExchangeAdapter().getAccount().catch(err => {
+                console.warn("Futures account unavailable, using manual equity if set:", err.message || err);
+                return null;
+            }),
+            getExchangeAdapter().getContractInfo(contract).catch(err => {
+                console.warn("Contract info unavailable, skipping position sizing:", err.message || err);
+                return null;
+            }),
+            // A storage failure fails the request rather than skipping the guardrails
+            loadGuardrailState(contract, positionSource),
+            // Today's closed positions feed the guardrail counters (paper closes are recorded below)
+            positionSource === 'exchange'
+                ? getExchangeAdapter().listClosedPositions(contract, utcDayStart(Date.now())).catch(err => {
+                    console.warn("Closed positions unavailable, guardrail counters not updated:", err.message || err);
+                    return [] as GuardrailClose[];
+                })
+                : Promise.resolve([] as GuardrailClose[]),
+            // Also required: a fresh track would loosen a stop that has already ratcheted
+            loadTrailingStop(contract, positionSource)
         ]);
+        const rawKlines1m = series1m.candles;
+        const rawRefKlines1m = refSeries1m.candles;
+        const rawBtcKlines1d = btcSeries1d.candles;
+        const dataQuality = summarizeDataQuality({
+            '1m': series1m.quality,
+            'ref_1m': refSeries1m.quality,
+            'btc_1d': btcSeries1d.quality,
+        });
+        if (dataQuality.degraded) {
+            console.warn("Degraded candle data:", JSON.stringify(dataQuality.series));
+        }
+
+        // --- Select Bars to Evaluate ---
+        const now = Date.now();
+        const selectBars = (candles: CandleData[], interval: string) =>
+            barMode === 'closed' ? splitClosedCandles(candles, interval, now).closed : candles;
+        const klines1m = selectBars(rawKlines1m, '1m');
+        const refKlines1m = selectBars(rawRefKlines1m, '1m');
+        const btcKlines1d = selectBars(rawBtcKlines1d, '1d');
+        const liveBar1m = barMode === 'closed' ? splitClosedCandles(rawKlines1m, '1m', now).live : null;
 
         // --- Process Position Info ---
-        let positionInfo = null;
-        if (!(positionResult instanceof Error) && positionResult.body && positionResult.body.size !== 0) {
-            const pos = positionResult.body;
-            console.log("Raw Position Data from Gate.io:", JSON.stringify(pos, null, 2));
-            positionInfo = {
-                side: pos.size! > 0 ? 'long' : 'short',
-                entryPrice: parseFloat(pos.entryPrice || '0'),
-                liquidationPrice: parseFloat(pos.liqPrice || '0') || null
-            };
+        let positionInfo: PositionInfoFromAPI | null = null;
+        let paperAccount: PaperAccount | null = null;
+        if (paperAccountPromise) {
+            paperAccount = await paperAccountPromise; // A storage failure fails the request rather than trading blind
+            positionInfo = paperPositionInfo(paperAccount, klines1m[klines1m.length - 1]?.close ?? null);
+        } else if (!(positionResult instanceof Error) && positionResult) {
+            positionInfo = positionResult;
             console.log("Parsed Position Info:", JSON.stringify(positionInfo, null, 2));
         } else if (positionResult instanceof Error && 'status' in positionResult && positionResult.status !== 404) {
             console.error("Gate.io Get Position Error (Non-404):", positionResult.message);
@@ -112,58 +169,64 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
              console.log("No active position found or API error fetching position:", positionResult.message);
         }
 
-        // --- Calculate Indicators ---
-        const enrichedEth1m: CandleData[] = calculateIndicators(ethKlines1m);
-        const closes15m = ethKlines15m.map(d => d.close);
-        const ema15Values = calculateEma(closes15m, 15);
-        const enrichedEth15m = ethKlines15m.map((candle, index) => ({
-            ...candle, EMA15: ema15Values[index] ?? null
-        }));
-
-        // --- Calculate BTC Daily Trend ---
-        let btcDailyTrend: 'up' | 'down' | 'flat' | null = null;
-        let btcEma50: number | null = null;
-        console.log(`Processing BTC Daily Trend. Found ${btcKlines1d?.length ?? 0} daily candles.`);
-        if (btcKlines1d && btcKlines1d.length >= 50) {
-            const closes1d = btcKlines1d.map(d => d.close);
-            const ema50Values1d = calculateEma(closes1d, 50);
-            const latestBtcClose1d = btcKlines1d[btcKlines1d.length - 1]?.close;
-            btcEma50 = ema50Values1d[ema50Values1d.length - 1] ?? null;
-            console.log(`BTC Daily - Latest Close: ${latestBtcClose1d}, EMA50: ${btcEma50}`);
-            if (latestBtcClose1d && btcEma50) {
-                btcDailyTrend = latestBtcClose1d > btcEma50 ? 'up' : 'down';
-            } else {
-                 btcDailyTrend = 'flat';
-                 console.log("BTC Daily Trend set to flat due to missing close or EMA50.");
-            }
-        } else {
-             console.log("Not enough BTC daily candles to calculate EMA50 trend.");
-        }
+        // --- Indicators, Trend, Regime and Scores (shared with the backtester) ---
+        const assets = { base: baseAsset(contract), reference: baseAsset(reference) };
+        const {
+            enriched1m,
+            latest: latest1m,
+            vwapAnchor,
+            trendResults,
+            htfTrend,
+            btcDailyTrend,
+            btcEma: btcEma50,
+            regime: currentRegime,
+            longSignal,
+            shortSignal,
+            holdability: holdabilityResult,
+        } = evaluateSignalSnapshot({
+            candles1m: klines1m,
+            refCandles1m: refKlines1m,
+            btcCandles1d: btcKlines1d,
+            position: positionInfo,
+            assets,
+            config,
+            barMode,
+            now,
+        });
+        const vwapValues = pickIndicatorValues(latest1m, ['AVWAP', 'AVWAP_Upper1', 'AVWAP_Lower1', 'AVWAP_Upper2', 'AVWAP_Lower2', 'AVWAP_Z']);
 
-        // --- Ensure Data Sufficiency ---
-        if (enrichedEth1m.length < 2 || btcKlines1m.length < 2 || enrichedEth15m.length < 2) {
-            throw new Error('Insufficient kline data available for processing');
+        // --- Confirm Opening Signals Across Bars (from recent history of this contract) ---
+        const { confirmation: confirmationConfig } = config;
+        const lookbackMs = (Math.max(confirmationConfig.windowBars, confirmationConfig.cooldownBars) + 1) * 60 * 1000;
+        let recentHistory: ScoredHistoryRecord[] = [];
+        try {
+            const records = await signalRecordsBetween(contract, latest1m.timestamp - lookbackMs, latest1m.timestamp - 1);
+            recentHistory = records
+                .filter(r => r?.time && r.opening_signal)
+                .map(r => ({
+                    time: r.time!,
+                    long_score: r.opening_signal!.long_score,
+                    short_score: r.opening_signal!.short_score,
+                    signal_state: r.opening_signal!.confirmation ?? null,
+                }));
+        } catch (storageError) {
+            console.error("Error reading recent signal history:", storageError); // Confirm from the current bar only
         }
-
-        // --- Calculate Scores ---
-        const holdabilityResult = calculateHoldabilityScore(
-            enrichedEth1m, positionInfo, btcKlines1m, enrichedEth15m
+        const signalState = evaluateSignalState(
+            { time: latest1m.timestamp, long_score: longSignal.score, short_score: shortSignal.score },
+            recentHistory,
+            confirmationThresholds(config, btcDailyTrend), // Same per-side thresholds as the recommendation
+            confirmationConfig
         );
 
-        const latestEth1m = enrichedEth1m[enrichedEth1m.length - 1];
-        const latest15mWithEma = enrichedEth15m[enrichedEth15m.length - 1];
-        ;(latestEth1m as any).EMA15_Trend = latest15mWithEma.EMA15 ? (latestEth1m.close > latest15mWithEma.EMA15 ? 'up' : 'down') : 'flat';
-
-        const longSignal = scoreOpeningSignals(enrichedEth1m, 'long');
-        const shortSignal = scoreOpeningSignals(enrichedEth1m, 'short');
-
         // --- Generate Professional Recommendation ---
         const actualPositionStatus: ActualPositionStatus = positionInfo ? positionInfo.side : '空仓';
         const marketContextForRec: MarketContextSummary = { // Construct market context for recommendation function
              fng_value: fngData.value,
              fng_classification: fngData.classification,
              btc_daily_trend: btcDailyTrend,
-             btc_daily_ema50: btcEma50
+             btc_daily_ema50: btcEma50,
+             regime: currentRegime.regime
         };
         const openingSignalForRec: OpeningSignalSummary = { // Construct opening signal summary for recommendation function
             long_score: longSignal.score,
@@ -174,26 +237,113 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             short_reasons: shortSignal.reasons,
             short_signalTypes: shortSignal.types,
             short_details: shortSignal.details,
-            ema15m_trend: (latestEth1m as any).EMA15_Trend
+            ema15m_trend: htfTrend,
+            low_confidence: dataQuality.degraded,
+            confirmation: signalState
+        };
+        // --- Trade Plans, Sized From Account Equity (the virtual balance in paper mode) ---
+        const equity = paperAccount
+            ? { equity: paperAccount.balance, source: 'paper' as const, currency: 'USDT' }
+            : resolveEquity(account, config.sizing);
+        // --- Trailing Stop of the Held Position (persisted; only tightens) ---
+        const trailingState = positionInfo
+            ? updateTrailingStop(
+                storedTrailing,
+                positionInfo,
+                enriched1m,
+                config.tradePlan,
+                paperAccount?.position?.stop ?? null, // The exchange position's plan stop isn't known
+                { contract, source: positionSource }
+            )
+            : null;
+        if (trailingState?.breached) {
+            console.warn(`Trailing stop ${trailingState.level} breached on ${contract} (${positionSource}) at ${latest1m.close}`);
+        }
+        const planFor = (side: 'long' | 'short') => {
+            const plan = buildTradePlan(enriched1m, side, config.tradePlan);
+            if (plan && equity && contractInfo) plan.sizing = sizePosition(plan, contractInfo, equity, config.sizing);
+            return plan;
         };
-        const recommendationResult = generateProfessionalRecommendation(
+
+        const baseRecommendation = generateProfessionalRecommendation(
             actualPositionStatus,
             openingSignalForRec,
             positionInfo ? holdabilityResult.score : null,
             positionInfo ? holdabilityResult.details : null,
-            marketContextForRec
+            marketContextForRec,
+            config.recommendation,
+            {
+                long: planFor('long'),
+                short: planFor('short'),
+                trailing: trailingState ? trailingStopView(trailingState, latest1m, config.tradePlan) : null,
+            }
         );
 
+        // --- Risk Guardrails: a tripped guardrail forces WAIT / CLOSE ---
+        let guardrailState = evaluateGuardrails(
+            recordCloses(storedGuardrails, exchangeCloses, now),
+            config.guardrails,
+            baseRecommendation,
+            positionInfo,
+            latest1m.close,
+            now
+        );
+        if (guardrailState.tripped.length > 0) {
+            console.warn(`Guardrails tripped on ${contract} (${positionSource}):`, guardrailState.tripped.map(t => t.code).join(', '));
+        }
+        const recommendationResult = applyGuardrails(baseRecommendation, guardrailState.tripped);
+
+        // --- Apply the Recommendation to the Paper Account (once per bar) ---
+        if (paperAccount) {
+            let applied = applyPaperRecommendation(paperAccount, recommendationResult, latest1m.timestamp, latest1m.close, contractInfo);
+            if (applied.changed) {
+                // Concurrent polls of the same bar: only the claimant writes, on top of the freshest account
+                if (await claimPaperBar(contract, latest1m.timestamp)) {
+                    const fresh = await loadPaperAccount(contract, config.paperTrading);
+                    applied = applyPaperRecommendation(fresh, recommendationResult, latest1m.timestamp, latest1m.close, contractInfo);
+                    if (applied.changed) await savePaperAccount(applied.account, applied.trade);
+                    if (applied.trade) console.log(`Paper ${applied.trade.side} closed on ${contract}: PnL ${applied.trade.pnl}`);
+                } else {
+                    applied = { account: await loadPaperAccount(contract, config.paperTrading), trade: null, changed: false };
+                }
+            }
+            if (applied.trade) guardrailState = recordCloses(guardrailState, [{ time: applied.trade.exit_time, pnl: applied.trade.pnl }], now);
+            paperAccount = applied.account;
+        }
+        await Promise.all([
+            saveGuardrailState(guardrailState),
+            trailingState ? saveTrailingStop(trailingState) : storedTrailing ? clearTrailingStop(contract, positionSource) : null,
+        ]);
+
         // --- Prepare Response Data Object ---
         // Use SignalProps type for structure consistency
         const responseData: Omit<SignalProps, 'isLoading' | 'error'> = { // Omit only isLoading/error
-            time: latestEth1m.timestamp,
-            price: latestEth1m.close,
+            contract,
+            reference_contract: reference,
+            config_version: config.version,
+            notification_threshold: config.notification.scoreThreshold,
+            time: latest1m.timestamp,
+            price: latest1m.close,
+            bar_state: {
+                mode: barMode,
+                closed: isCandleClosed(latest1m, '1m', now),
+                live_bar: liveBar1m && {
+                    timestamp: liveBar1m.timestamp,
+                    open: liveBar1m.open,
+                    high: liveBar1m.high,
+                    low: liveBar1m.low,
+                    close: liveBar1m.close,
+                    volume: liveBar1m.volume,
+                },
+            },
+            data_quality: dataQuality,
             market_context: {
                 fng_value: fngData.value,
                 fng_classification: fngData.classification,
                 btc_daily_trend: btcDailyTrend,
-                btc_daily_ema50: btcEma50
+                btc_daily_ema50: btcEma50,
+                regime: currentRegime.regime,
+                regime_inputs: currentRegime.inputs
             },
             opening_signal: {
                  long_score: longSignal.score,
@@ -204,77 +354,59 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                  short_reasons: shortSignal.reasons,
                  short_signalTypes: shortSignal.types,
                  short_details: shortSignal.details,
-                 ema15m_trend: (latestEth1m as any).EMA15_Trend
+                 ema15m_trend: htfTrend,
+                 low_confidence: dataQuality.degraded,
+                 long_max_score: longSignal.maxScore,
+                 short_max_score: shortSignal.maxScore,
+                 confirmation: signalState
             },
             holdability_score: positionInfo ? holdabilityResult.score : null,
             holdability_details: positionInfo ? holdabilityResult.details : [],
+            holdability_max_score: positionInfo ? holdabilityResult.maxScore : null,
             position: positionInfo,
-            indicators_1m: {
-                ema5: latestEth1m.EMA5 ?? null,
-                ema10: latestEth1m.EMA10 ?? null,
-                bb_upper: latestEth1m.BB_Upper ?? null,
-                bb_middle: latestEth1m.BB_Middle ?? null,
-                bb_lower: latestEth1m.BB_Lower ?? null,
-                stoch_k: latestEth1m.Stoch_K ?? null,
-                stoch_d: latestEth1m.Stoch_D ?? null,
-                vwap: latestEth1m.VWAP ?? null,
-                atr14: latestEth1m.ATR14 ?? null,
-                volume: latestEth1m.volume,
-                vma20: latestEth1m.VMA20 ?? null,
-            },
-            indicators_15m: {
-                ema15: latest15mWithEma.EMA15 ?? null,
+            position_source: positionSource,
+            paper_account: paperAccount,
+            guardrails: guardrailState,
+            trailing_stop: trailingState,
+            indicators_1m: pickIndicatorValues(latest1m, config.display.indicators1m),
+            trend_filters: trendResults,
+            vwap: {
+                anchor: config.vwap.anchor,
+                anchor_time: vwapAnchor,
+                truncated: enriched1m[0].timestamp > vwapAnchor,
+                value: vwapValues.AVWAP,
+                upper1: vwapValues.AVWAP_Upper1,
+                lower1: vwapValues.AVWAP_Lower1,
+                upper2: vwapValues.AVWAP_Upper2,
+                lower2: vwapValues.AVWAP_Lower2,
+                z: vwapValues.AVWAP_Z,
             },
             // Add the calculated recommendation
             recommendation: {
                 action: recommendationResult.action,
-                reasons: recommendationResult.reasons
+                side: recommendationResult.side,
+                level: recommendationResult.level,
+                reasons: recommendationResult.reasons,
+                trade_plan: recommendationResult.trade_plan ?? null,
+                trailing_stop: recommendationResult.trailing_stop ?? null
             }
         };
 
-            // --- Save data to Vercel KV using Sorted Set ---
+            // --- Save to the signal history (per-contract log scored by bar time) ---
             if (responseData.time) {
                 const signalTimestampMs = responseData.time;
-                const sortedSetKey = 'signal_history'; // Key for the sorted set
-                const maxHistoryItems = 1000; // Keep latest 1000 records (adjust as needed)
-
-                // Use timestamp as score, stringified data as member
-                const score = signalTimestampMs;
-                const member = JSON.stringify(responseData);
-
                 // Read TTL from environment variable, default to 30 days
                 const ttlDays = parseInt(process.env.KV_HISTORY_TTL_DAYS || '30', 10);
-                let prune = false;
-                let pruneTimestampMs = 0;
-                let ttlLog = 'None (Permanent)';
-
-                if (!isNaN(ttlDays) && ttlDays > 0) {
-                    prune = true;
-                    pruneTimestampMs = Date.now() - (ttlDays * 24 * 60 * 60 * 1000);
-                    ttlLog = `${ttlDays} days`;
-                }
-
-
-                // Use a pipeline for atomic add and prune by score (timestamp)
-                const pipe = kv.pipeline();
-                pipe.zadd(sortedSetKey, { score, member });
-                // Ensure pruneTimestampMs is a valid number before pruning
-                if (prune && !isNaN(pruneTimestampMs)) {
-                    // Remove entries with score (timestamp) older than the calculated TTL
-                    pipe.zremrangebyscore(sortedSetKey, Number.NEGATIVE_INFINITY, pruneTimestampMs);
-                } else if (prune) {
-                     console.warn(`Pruning skipped because pruneTimestampMs was invalid: ${pruneTimestampMs}`);
-                }
+                const ttlLog = !isNaN(ttlDays) && ttlDays > 0 ? `${ttlDays} days` : 'None (Permanent)';
 
-                pipe.exec()
-                    .then((results) => {
-                        const removedCount = prune ? (results[1] ?? 0) : 0; // Get remove count only if prune was executed
-                        console.log(`Added signal (Time: ${signalTimestampMs}) to sorted set ${sortedSetKey}. Pruned ${removedCount} entries (TTL: ${ttlLog}).`);
+                appendSignalRecord(contract, responseData, ttlDays)
+                    .then(removedCount => {
+                        console.log(`Added signal (Time: ${signalTimestampMs}) to ${contract} history. Pruned ${removedCount} entries (TTL: ${ttlLog}).`);
                     })
-                    .catch(kvError => console.error("Error saving/pruning sorted set in Vercel KV:", kvError));
+                    .catch(storageError => console.error("Error saving/pruning signal history:", storageError));
 
             } else {
-                console.warn("Skipping KV save due to missing signal timestamp.");
+                console.warn("Skipping history save due to missing signal timestamp.");
             }
 
             // --- Send Response ---
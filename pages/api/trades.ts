@@ -1,12 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { FuturesApi, ApiClient, FuturesTrade } from 'gate-api'; // Import FuturesTrade type
-
-// Initialize Gate.io API Client (Ensure environment variables are set)
-const client = new ApiClient();
-client.setApiKeySecret(process.env.GATE_READ_API_KEY!, process.env.GATE_READ_API_SECRET!);
-const futuresApi = new FuturesApi(client);
-const settle = 'usdt'; // Settle currency
-const contract = 'ETH_USDT'; // Contract identifier
+import { getExchangeAdapter, type ExchangeTrade } from '@/lib/exchange';
+import { resolveContract } from '@/lib/contracts';
 
 // Define structure for aggregated trade
 interface AggregatedTrade {
@@ -22,38 +16,36 @@ interface AggregatedTrade {
 
 
 // Function to aggregate trades that happen close together (e.g., within 1 second)
-function aggregateTrades(trades: FuturesTrade[]): AggregatedTrade[] {
+function aggregateTrades(trades: ExchangeTrade[]): AggregatedTrade[] {
     if (!trades || trades.length === 0) {
         return [];
     }
 
     // Sort by time first to ensure proper grouping
-    const sortedTrades = trades.sort((a, b) => (a.createTimeMs ?? a.createTime ?? 0) - (b.createTimeMs ?? b.createTime ?? 0));
+    const sortedTrades = trades.sort((a, b) => a.createTimeMs - b.createTimeMs);
 
     const aggregated: AggregatedTrade[] = [];
-    let currentGroup: FuturesTrade[] = [];
+    let currentGroup: ExchangeTrade[] = [];
     const aggregationWindowMs = 1000; // Aggregate trades within 1 second of each other
 
     for (const trade of sortedTrades) {
-        const tradeTimeMs = trade.createTimeMs ?? (trade.createTime ? trade.createTime * 1000 : null);
-        if (!tradeTimeMs || trade.price === undefined || trade.size === undefined) continue; // Skip invalid trades
+        const tradeTimeMs = trade.createTimeMs;
+        if (!tradeTimeMs || !trade.price || !trade.size) continue; // Skip invalid trades
 
         if (currentGroup.length === 0) {
             currentGroup.push(trade);
         } else {
-            const firstTradeInGroupTimeMs = currentGroup[0].createTimeMs ?? (currentGroup[0].createTime ? currentGroup[0].createTime * 1000 : null);
+            const firstTradeInGroupTimeMs = currentGroup[0].createTimeMs;
             // Check if current trade is within the window of the *first* trade in the group
             if (firstTradeInGroupTimeMs && (tradeTimeMs - firstTradeInGroupTimeMs <= aggregationWindowMs)) {
                 currentGroup.push(trade);
             } else {
                 // Finalize the previous group
-                const totalSize = currentGroup.reduce((sum, t) => sum + (t.size ?? 0), 0);
-                const totalValue = currentGroup.reduce((sum, t) => sum + Math.abs(t.size ?? 0) * parseFloat(t.price ?? '0'), 0);
-                const totalAbsSize = currentGroup.reduce((sum, t) => sum + Math.abs(t.size ?? 0), 0);
+                const totalSize = currentGroup.reduce((sum, t) => sum + t.size, 0);
+                const totalValue = currentGroup.reduce((sum, t) => sum + Math.abs(t.size) * t.price, 0);
+                const totalAbsSize = currentGroup.reduce((sum, t) => sum + Math.abs(t.size), 0);
                 const avgPrice = totalAbsSize > 0 ? totalValue / totalAbsSize : 0;
-                // Correctly calculate integer MS timestamp from seconds (trade.createTime)
-                const firstTradeTimeSeconds = currentGroup[0].createTime; // Use createTime (seconds)
-                const firstTradeTimeMs = firstTradeTimeSeconds ? Math.floor(firstTradeTimeSeconds * 1000) : null; // Precise MS
+                const firstTradeTimeMs = currentGroup[0].createTimeMs || null; // Precise MS (normalized by the adapter)
                 const minuteTimestampMs = firstTradeTimeMs ? Math.floor(firstTradeTimeMs / 60000) * 60000 : null; // Minute MS
                 // Role logic already removed
 
@@ -61,12 +53,12 @@ function aggregateTrades(trades: FuturesTrade[]): AggregatedTrade[] {
                     aggregated.push({
                         createTimeMs: firstTradeTimeMs, // Assign precise MS timestamp
                         minuteTimestampMs: minuteTimestampMs, // Assign minute MS timestamp
-                        contract: currentGroup[0].contract!,
+                        contract: currentGroup[0].contract,
                         // orderId: currentGroup[0].orderId, // Remove orderId
                         size: totalSize,
                         avgPrice: avgPrice,
                         // role: role, // Remove role
-                        tradeIds: currentGroup.map(t => t.id!).filter(id => id !== undefined),
+                        tradeIds: currentGroup.map(t => t.id),
                     });
                 }
                 // Start a new group with the current trade
@@ -77,13 +69,11 @@ function aggregateTrades(trades: FuturesTrade[]): AggregatedTrade[] {
 
      // Finalize the last group
      if (currentGroup.length > 0) {
-        const totalSize = currentGroup.reduce((sum, t) => sum + (t.size ?? 0), 0);
-        const totalValue = currentGroup.reduce((sum, t) => sum + Math.abs(t.size ?? 0) * parseFloat(t.price ?? '0'), 0);
-        const totalAbsSize = currentGroup.reduce((sum, t) => sum + Math.abs(t.size ?? 0), 0);
+        const totalSize = currentGroup.reduce((sum, t) => sum + t.size, 0);
+        const totalValue = currentGroup.reduce((sum, t) => sum + Math.abs(t.size) * t.price, 0);
+        const totalAbsSize = currentGroup.reduce((sum, t) => sum + Math.abs(t.size), 0);
         const avgPrice = totalAbsSize > 0 ? totalValue / totalAbsSize : 0;
-        // Correctly calculate integer MS timestamp from seconds (trade.createTime)
-        const firstTradeTimeSeconds = currentGroup[0].createTime; // Use createTime (seconds)
-        const firstTradeTimeMs = firstTradeTimeSeconds ? Math.floor(firstTradeTimeSeconds * 1000) : null; // Precise MS
+        const firstTradeTimeMs = currentGroup[0].createTimeMs || null; // Precise MS (normalized by the adapter)
         const minuteTimestampMs = firstTradeTimeMs ? Math.floor(firstTradeTimeMs / 60000) * 60000 : null; // Minute MS
         // Role logic already removed
 
@@ -91,12 +81,12 @@ function aggregateTrades(trades: FuturesTrade[]): AggregatedTrade[] {
              aggregated.push({
                  createTimeMs: firstTradeTimeMs, // Assign precise MS timestamp
                  minuteTimestampMs: minuteTimestampMs, // Assign minute MS timestamp
-                 contract: currentGroup[0].contract!,
+                 contract: currentGroup[0].contract,
                  // orderId: currentGroup[0].orderId, // Remove orderId
                  size: totalSize,
                  avgPrice: avgPrice,
                  // role: role, // Remove role
-                 tradeIds: currentGroup.map(t => t.id!).filter(id => id !== undefined),
+                 tradeIds: currentGroup.map(t => t.id),
              });
          }
     }
@@ -107,24 +97,27 @@ function aggregateTrades(trades: FuturesTrade[]): AggregatedTrade[] {
 
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const contractConfig = resolveContract(req.query.contract);
+  if (!contractConfig) {
+    return res.status(400).json({ error: `Unsupported contract: ${req.query.contract}` });
+  }
+  const { contract } = contractConfig;
+
   try {
     console.log("Fetching futures trades for:", contract);
-    const options = {
-        contract: contract,
-        limit: 1000, // Fetch more trades to increase chance of finding matches & for aggregation
-    };
-    const result = await futuresApi.listFuturesTrades(settle, contract, options);
-    console.log(`Successfully fetched ${result.body.length} raw trades.`);
+    // Fetch more trades to increase chance of finding matches & for aggregation
+    const trades = await getExchangeAdapter().listTrades(contract, 1000);
+    console.log(`Successfully fetched ${trades.length} raw trades.`);
 
     // Aggregate the trades
-    const aggregatedTrades = aggregateTrades(result.body);
+    const aggregatedTrades = aggregateTrades(trades);
     console.log(`Aggregated into ${aggregatedTrades.length} trade groups.`);
 
     // Return the aggregated list of trades
     res.status(200).json(aggregatedTrades);
 
   } catch (error: any) {
-    console.error("Error fetching/aggregating futures trades from Gate.io:", error);
+    console.error("Error fetching/aggregating futures trades:", error);
     let errorMsg = 'Failed to fetch trades';
     let statusCode = 500;
 
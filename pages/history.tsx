@@ -1,13 +1,21 @@
 import Head from 'next/head';
 import useSWR from 'swr';
 import Link from 'next/link';
+import { useRouter } from 'next/router';
 import type { SignalProps, ScoreDetail, PositionInfoFromAPI } from '@/lib/types'; // Import types
 import {
+    ACTION_TRADE_SIDE,
     generateProfessionalRecommendation,
+    isStructuredRecommendation,
     ActualPositionStatus,
     OpeningSignalSummary, // Import necessary types for recommendation
     MarketContextSummary
 } from '@/lib/recommendation'; // Import recommendation logic
+import { DEFAULT_CONTRACT, baseAsset } from '@/lib/contracts';
+import { actionLabel, formatReasons } from '@/lib/recommendationText';
+import { formatDateTime, translate, type Locale } from '@/lib/i18n';
+import { useI18n } from '@/lib/i18n/react';
+import LocaleSwitch from '@/components/LocaleSwitch';
 
 // Define structure for Aggregated Trade data (matching backend)
 interface AggregatedTrade {
@@ -34,14 +42,9 @@ const fetcher = (url: string): Promise<any> => fetch(url).then(res => {
 });
 
 // Helper to format timestamp (always expects milliseconds)
-const formatTime = (timestampMs: number | null | undefined): string => {
-    // console.log("formatTime received:", timestampMs); // Keep commented out
-    if (!timestampMs || isNaN(timestampMs)) {
-        // console.log("formatTime returning N/A due to invalid input"); // Keep commented out
-        return 'N/A';
-    }
+const formatTime = (locale: Locale, timestampMs: number | null | undefined): string => {
     try {
-        return new Date(timestampMs).toLocaleString('zh-CN', { dateStyle: 'short', timeStyle: 'medium', hour12: false });
+        return formatDateTime(locale, timestampMs, { dateStyle: 'short', timeStyle: 'medium', hour12: false });
     } catch (e) {
         console.error("Error formatting time:", e, "Input:", timestampMs);
         return 'Error';
@@ -49,9 +52,11 @@ const formatTime = (timestampMs: number | null | undefined): string => {
 };
 
 // Helper to render score details concisely
-const renderDetails = (details: ScoreDetail[] | null | undefined): string => {
+const renderDetails = (locale: Locale, details: ScoreDetail[] | null | undefined): string => {
     if (!details) return '-';
-    return details.filter(d => d.met).map(d => d.condition.split('(')[0].trim()).join(', ') || '-';
+    return details.filter(d => d.met)
+        .map(d => (d.key ? translate(locale, d.key, d.params, d.condition) : d.condition).split('(')[0].trim())
+        .join(', ') || '-';
 };
 
 // --- Matching Logic (Based on Minute Timestamps & Configurable Window - Ignores Direction) ---
@@ -83,13 +88,17 @@ const findMatchingTrade = (
 
 
 export default function HistoryPage() {
+  const router = useRouter();
+  const { locale, t } = useI18n();
+  const contract = typeof router.query.contract === 'string' ? router.query.contract : DEFAULT_CONTRACT;
+
   // Fetch Signal History
-  const { data: historyData, error: historyError, isLoading: isLoadingHistory } = useSWR<SignalProps[]>('/api/history', fetcher, {
+  const { data: historyData, error: historyError, isLoading: isLoadingHistory } = useSWR<SignalProps[]>(`/api/history?contract=${contract}`, fetcher, {
       refreshInterval: 60000 // Refresh history every minute
   });
 
   // Fetch Aggregated Trade History
-   const { data: tradeData, error: tradeError, isLoading: isLoadingTrades } = useSWR<AggregatedTrade[]>('/api/trades', fetcher, {
+   const { data: tradeData, error: tradeError, isLoading: isLoadingTrades } = useSWR<AggregatedTrade[]>(`/api/trades?contract=${contract}`, fetcher, {
       refreshInterval: 5 * 60000 // Refresh trades less often
   });
 
@@ -109,24 +118,28 @@ export default function HistoryPage() {
   return (
     <div className="min-h-screen py-8 px-4">
       <Head>
-        <title>信号与交易历史 - ETH Scalping 策略助手</title>
+        <title>{`${t('history.title')} - ${t('app.title', { asset: baseAsset(contract) })}`}</title>
       </Head>
       <main className="max-w-7xl mx-auto space-y-8"> {/* Wider container */}
         <div className="flex justify-between items-center">
-            <h1 className="text-2xl font-bold text-gray-100">📊 信号与交易历史</h1>
-            <Link href="/" className="text-blue-400 hover:text-blue-300">
-                &larr; 返回主页
-            </Link>
+            <h1 className="text-2xl font-bold text-gray-100">📊 {contract} {t('history.title')}</h1>
+            <div className="flex items-center gap-3">
+                <LocaleSwitch />
+                <Link href={{ pathname: '/', query: { contract } }} className="text-blue-400 hover:text-blue-300">
+                    &larr; {t('history.back')}
+                </Link>
+            </div>
         </div>
 
-        {isLoading && <div className="p-4 text-center text-gray-400">加载历史记录中...</div>}
-        {error && <div className="p-4 text-center text-red-500">加载历史记录时出错: {error.message}</div>}
+        {isLoading && <div className="p-4 text-center text-gray-400">{t('history.loading')}</div>}
+        {error && <div className="p-4 text-center text-red-500">{t('history.loadError', { message: error.message })}</div>}
 
         {/* Signal History Table */}
         <div>
-            <h2 className="text-xl font-semibold text-gray-200 mb-4">信号历史记录 (含匹配交易)</h2>
+            <h2 className="text-xl font-semibold text-gray-200 mb-4">{t('history.signals')}</h2>
+            <p className="text-xs text-gray-500 -mt-3 mb-3">{t('history.liveBarNote')}</p>
             {!isLoading && !error && (!historyData || historyData.length === 0) && (
-                <div className="p-4 text-center text-gray-500 bg-gray-800 rounded-lg">暂无信号历史记录。</div>
+                <div className="p-4 text-center text-gray-500 bg-gray-800 rounded-lg">{t('history.empty')}</div>
             )}
             {historyData && historyData.length > 0 && (
               <div className="overflow-x-auto shadow rounded-lg">
@@ -134,28 +147,30 @@ export default function HistoryPage() {
                   <thead className="bg-gray-700/50">
                     <tr>
                       {/* Signal Data Columns */}
-                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">信号时间</th>
-                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">信号价格</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">{t('history.col.time')}</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">{t('history.col.price')}</th>
                       <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">FNG</th>
-                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">BTC Trend</th>
-                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">15m Trend</th>
-                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">多头分</th>
-                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">空头分</th>
-                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">持仓</th>
-                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">扛单分</th>
-                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">建议操作</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">{t('history.col.btcTrend')}</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">{t('history.col.htfTrend')}</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">{t('history.col.regime')}</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">{t('history.col.longScore')}</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">{t('history.col.shortScore')}</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">{t('history.col.position')}</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">{t('history.col.holdability')}</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">{t('history.col.action')}</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">{t('history.col.config')}</th>
                       {/* Matched Trade Columns */}
-                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider border-l border-gray-600">匹配成交时间</th>
-                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">成交均价</th>
-                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">滑点</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider border-l border-gray-600">{t('history.col.tradeTime')}</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">{t('history.col.avgPrice')}</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-gray-300 uppercase tracking-wider">{t('history.col.slippage')}</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-700">
                     {historyData.map((signal, index) => {
                         // Determine the position status at the time of the signal for recommendation recalc
                         const positionStatus: ActualPositionStatus = signal.position ? signal.position.side : '空仓';
-                        // Recalculate recommendation based on historical data
-                        const recommendation = generateProfessionalRecommendation(
+                        // Use the stored recommendation; recalculate for records saved before structured actions
+                        const recommendation = isStructuredRecommendation(signal.recommendation) ? signal.recommendation : generateProfessionalRecommendation(
                             positionStatus,
                             signal.opening_signal ?? null,
                             signal.holdability_score ?? null,
@@ -163,16 +178,11 @@ export default function HistoryPage() {
                             signal.market_context ?? null
                         );
 
-                        // Determine the side to look for based on the recommendation action (still needed for slippage calc)
-                        let sideToMatch: 'long' | 'short' | '空仓' = '空仓';
-                        if (recommendation.action.includes('开多') || recommendation.action.includes('平空')) {
-                            sideToMatch = 'long';
-                        } else if (recommendation.action.includes('开空') || recommendation.action.includes('平多')) {
-                            sideToMatch = 'short';
-                        }
+                        // Direction of the trade the action implies (still needed for slippage calc)
+                        const sideToMatch = ACTION_TRADE_SIDE[recommendation.action];
 
                         // Find matching trade using minute timestamps and configured window (ignoring side for matching)
-                        const matchedTrade = findMatchingTrade(signal, sideToMatch, tradeData, tradeMatchWindowMinutes); // Pass sideToMatch even if unused in function, for potential future use or clarity
+                        const matchedTrade = findMatchingTrade(signal, tradeData, tradeMatchWindowMinutes);
                         // Calculate slippage based on the matched side and avgPrice
                         const slip = matchedTrade && signal.price ? (matchedTrade.avgPrice - signal.price) * (sideToMatch === 'long' ? 1 : -1) : null;
 
@@ -180,26 +190,31 @@ export default function HistoryPage() {
                         return (
                           <tr key={signal.time || index} className="hover:bg-gray-700/40">
                             {/* Signal Data */}
-                            <td className="px-3 py-2 whitespace-nowrap text-gray-400">{formatTime(signal.time)}</td>
+                            <td className="px-3 py-2 whitespace-nowrap text-gray-400">
+                                {formatTime(locale, signal.time)}
+                                {signal.bar_state && !signal.bar_state.closed && <span className="ml-1 text-yellow-400" title={t('history.liveBarHint')}>*</span>}
+                            </td>
                             <td className="px-3 py-2 whitespace-nowrap text-gray-200">${signal.price?.toFixed(2) ?? 'N/A'}</td>
                             <td className="px-3 py-2 whitespace-nowrap text-gray-300">{signal.market_context?.fng_value ?? 'N/A'} ({signal.market_context?.fng_classification?.[0] ?? 'N/A'})</td>
-                            <td className={`px-3 py-2 whitespace-nowrap font-medium ${signal.market_context?.btc_daily_trend === 'up' ? 'text-green-400' : signal.market_context?.btc_daily_trend === 'down' ? 'text-red-400' : 'text-gray-300'}`}>{signal.market_context?.btc_daily_trend ?? 'N/A'}</td>
-                            <td className={`px-3 py-2 whitespace-nowrap font-medium ${signal.opening_signal?.ema15m_trend === 'up' ? 'text-green-400' : signal.opening_signal?.ema15m_trend === 'down' ? 'text-red-400' : 'text-gray-300'}`}>{signal.opening_signal?.ema15m_trend ?? 'N/A'}</td>
+                            <td className={`px-3 py-2 whitespace-nowrap font-medium ${signal.market_context?.btc_daily_trend === 'up' ? 'text-green-400' : signal.market_context?.btc_daily_trend === 'down' ? 'text-red-400' : 'text-gray-300'}`}>{signal.market_context?.btc_daily_trend ? t(`trend.${signal.market_context.btc_daily_trend}`) : 'N/A'}</td>
+                            <td className={`px-3 py-2 whitespace-nowrap font-medium ${signal.opening_signal?.ema15m_trend === 'up' ? 'text-green-400' : signal.opening_signal?.ema15m_trend === 'down' ? 'text-red-400' : 'text-gray-300'}`}>{signal.opening_signal?.ema15m_trend ? t(`trend.${signal.opening_signal.ema15m_trend}`) : 'N/A'}</td>
+                            <td className="px-3 py-2 whitespace-nowrap text-gray-300">{signal.market_context?.regime ? t(`regime.${signal.market_context.regime}`) : 'N/A'}</td>
                             <td className="px-3 py-2 text-gray-300">
                                 <span className={`font-bold ${signal.opening_signal?.long_score >= 6 ? 'text-green-400' : signal.opening_signal?.long_score >= 4 ? 'text-yellow-400' : 'text-red-400'}`}>{signal.opening_signal?.long_score ?? 'N/A'}</span>
                             </td>
                              <td className="px-3 py-2 text-gray-300">
                                 <span className={`font-bold ${signal.opening_signal?.short_score >= 6 ? 'text-red-400' : signal.opening_signal?.short_score >= 4 ? 'text-yellow-400' : 'text-green-400'}`}>{signal.opening_signal?.short_score ?? 'N/A'}</span>
                             </td>
-                             <td className={`px-3 py-2 whitespace-nowrap font-medium ${signal.position?.side === 'long' ? 'text-green-400' : signal.position?.side === 'short' ? 'text-red-400' : 'text-gray-300'}`}>{signal.position?.side ?? '空仓'}</td>
+                             <td className={`px-3 py-2 whitespace-nowrap font-medium ${signal.position?.side === 'long' ? 'text-green-400' : signal.position?.side === 'short' ? 'text-red-400' : 'text-gray-300'}`}>{t(signal.position?.side ? `side.${signal.position.side}` : 'position.flat')}</td>
                              <td className="px-3 py-2 text-gray-300">
                                 {signal.position ? (
                                     <span className={`font-bold ${signal.holdability_score === null ? 'text-gray-400' : signal.holdability_score >= 6 ? 'text-green-400' : signal.holdability_score >= 4 ? 'text-yellow-400' : 'text-red-400'}`}>{signal.holdability_score ?? 'N/A'}</span>
                                 ) : '-'}
                             </td>
-                            <td className="px-3 py-2 text-blue-300 font-semibold" title={recommendation.reasons?.join(', ')}>{recommendation.action}</td>
+                            <td className="px-3 py-2 text-blue-300 font-semibold" title={formatReasons(locale, recommendation).join(', ')}>{actionLabel(locale, recommendation.action)}</td>
+                            <td className="px-3 py-2 whitespace-nowrap text-gray-500">{signal.config_version ?? '-'}</td>
                             {/* Matched Trade Data */}
-                            <td className={`px-3 py-2 whitespace-nowrap border-l border-gray-600 ${matchedTrade ? 'text-gray-300' : 'text-gray-600'}`}>{matchedTrade ? formatTime(matchedTrade.createTimeMs) : '-'}</td>
+                            <td className={`px-3 py-2 whitespace-nowrap border-l border-gray-600 ${matchedTrade ? 'text-gray-300' : 'text-gray-600'}`}>{matchedTrade ? formatTime(locale, matchedTrade.createTimeMs) : '-'}</td>
                             <td className={`px-3 py-2 whitespace-nowrap ${matchedTrade ? 'text-gray-200' : 'text-gray-600'}`}>{matchedTrade ? `$${matchedTrade.avgPrice.toFixed(2)}` : '-'}</td>
                             <td className={`px-3 py-2 whitespace-nowrap ${slip === null ? 'text-gray-600' : slip > 0 ? 'text-red-400' : 'text-green-400'}`}>{slip?.toFixed(2) ?? '-'}</td>
                           </tr>
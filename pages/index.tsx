@@ -1,11 +1,18 @@
 import Head from 'next/head';
 import useSWR from 'swr';
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useRef } from 'react';
 import Link from 'next/link'; // Import Link
+import { useRouter } from 'next/router';
 import SignalCard from '@/components/SignalCard';
 import SignalDecision from '@/components/SignalDecision';
+import LocaleSwitch from '@/components/LocaleSwitch';
+import PaperTradingPanel from '@/components/PaperTradingPanel';
+import GuardrailBanner from '@/components/GuardrailBanner';
 // IndicatorChart import removed
-import type { SignalProps } from '@/lib/types';
+import type { ScoreDetail, SignalProps } from '@/lib/types';
+import { SUPPORTED_CONTRACTS, DEFAULT_CONTRACT, baseAsset } from '@/lib/contracts';
+import { DEFAULT_STRATEGY_CONFIG } from '@/lib/strategyConfig';
+import { useI18n } from '@/lib/i18n/react';
 
 const fetcher = (url: string): Promise<SignalProps> => fetch(url).then(res => {
     if (!res.ok) {
@@ -21,14 +28,31 @@ const fetcher = (url: string): Promise<SignalProps> => fetch(url).then(res => {
 
 export default function Home() {
   // --- Hooks must be called at the top level ---
-  const [prevScores, setPrevScores] = useState({ long: 0, short: 0 });
+  const router = useRouter();
+  const { t } = useI18n();
+  const contract = typeof router.query.contract === 'string' ? router.query.contract : DEFAULT_CONTRACT;
+  const closedBarsOnly = router.query.bars === 'closed';
+  const paperTrading = router.query.position === 'paper';
+  // Last notified signal (contract:side:since) so each confirmed signal notifies once, not on every crossing
+  const notifiedSignalRef = useRef<string | null>(null);
   const audioRef = useRef<HTMLAudioElement>(null); // Ref for audio element
-  const notificationThreshold = 8; // Trigger notification if score >= 8
 
   // Use the SignalProps type with useSWR for better type safety
-  const { data, isLoading, error } = useSWR<SignalProps>('/api/signal', fetcher, {
+  const { data, isLoading, error, mutate } = useSWR<SignalProps>(`/api/signal?contract=${contract}${closedBarsOnly ? '&bars=closed' : ''}${paperTrading ? '&position=paper' : ''}`, fetcher, {
     refreshInterval: 60000 // Refresh every 60 seconds
   });
+  // Trigger notification if score >= threshold (from the server's strategy config)
+  const notificationThreshold = data?.notification_threshold ?? DEFAULT_STRATEGY_CONFIG.notification.scoreThreshold;
+
+  const updateQuery = (query: Record<string, string | undefined>) => {
+    const nextQuery = { ...router.query, ...query };
+    Object.keys(nextQuery).forEach(key => nextQuery[key] === undefined && delete nextQuery[key]);
+    router.replace({ pathname: router.pathname, query: nextQuery }, undefined, { shallow: true });
+  };
+  // Met conditions in the current locale (keyed details; stored text for custom rules)
+  const metConditions = (details?: ScoreDetail[]) =>
+    details?.filter(d => d.met).map(d => (d.key ? t(d.key, d.params, d.condition) : d.condition)).join(', ');
+  const handleContractChange = (nextContract: string) => updateQuery({ contract: nextContract });
 
   // --- Notification Effect Logic ---
   useEffect(() => {
@@ -37,22 +61,25 @@ export default function Home() {
         Notification.requestPermission();
     }
 
-    if (data?.opening_signal) {
-      const currentLong = data.opening_signal.long_score;
-      const currentShort = data.opening_signal.short_score;
+    if (data?.opening_signal && data.contract === contract) {
+      const { confirmation } = data.opening_signal;
+      const side = confirmation?.active;
+      const score = side === 'long' ? data.opening_signal.long_score : data.opening_signal.short_score;
+      const signalKey = side ? `${contract}:${side}:${confirmation.since}` : null;
 
       let notificationTitle = '';
       let notificationBody = '';
 
-      // Check for Long signal crossing threshold
-      if (currentLong >= notificationThreshold && prevScores.long < notificationThreshold) {
-        notificationTitle = `🚀 高分做多信号! (${currentLong}/10)`;
-        notificationBody = data.opening_signal.long_reasons?.join(', ') || '查看详情';
-      }
-      // Check for Short signal crossing threshold
-      else if (currentShort >= notificationThreshold && prevScores.short < notificationThreshold) {
-        notificationTitle = `📉 高分做空信号! (${currentShort}/10)`;
-        notificationBody = data.opening_signal.short_reasons?.join(', ') || '查看详情';
+      // Notify once when a confirmed signal scoring at least the threshold becomes active
+      if (side && signalKey !== notifiedSignalRef.current && score >= notificationThreshold) {
+        notifiedSignalRef.current = signalKey;
+        if (side === 'long') {
+          notificationTitle = `🚀 ${t('notify.long', { asset: baseAsset(contract), score, max: data.opening_signal.long_max_score ?? '-' })}`;
+          notificationBody = metConditions(data.opening_signal.long_details) || t('notify.details');
+        } else {
+          notificationTitle = `📉 ${t('notify.short', { asset: baseAsset(contract), score, max: data.opening_signal.short_max_score ?? '-' })}`;
+          notificationBody = metConditions(data.opening_signal.short_details) || t('notify.details');
+        }
       }
 
       // If notification should be sent
@@ -74,20 +101,15 @@ export default function Home() {
             console.log("Browser does not support desktop notification");
         }
       }
-
-      // Update previous scores if they changed
-      if(currentLong !== prevScores.long || currentShort !== prevScores.short) {
-        setPrevScores({ long: currentLong, short: currentShort });
-      }
     }
-  }, [data, prevScores.long, prevScores.short]); // Depend on data and previous scores
+  }, [data, contract, notificationThreshold, t]);
 
   // --- Conditional returns for loading/error states ---
-  if (error) return <div className="p-4 text-center text-red-500">加载信号时出错: {error.message}</div>;
+  if (error) return <div className="p-4 text-center text-red-500">{t('index.loadError', { message: error.message })}</div>;
   // Show loading state but hooks are already called
-  if (!data && isLoading) return <div className="p-4 text-center text-gray-500">加载中...</div>;
+  if (!data && isLoading) return <div className="p-4 text-center text-gray-500">{t('common.loading')}</div>;
   // Handle case where data might be fetched but is empty/invalid
-  if (!data) return <div className="p-4 text-center text-gray-500">无法获取信号数据。</div>;
+  if (!data) return <div className="p-4 text-center text-gray-500">{t('index.noData')}</div>;
 
   // Log the data received from useSWR to check market_context
   // console.log("Home component received data:", data);
@@ -97,19 +119,59 @@ export default function Home() {
     // Remove 'dark' class and background classes, handled by body style now
     <div className="min-h-screen py-8 px-4">
       <Head>
-        <title>ETH Scalping 策略助手</title>
+        <title>{t('app.title', { asset: baseAsset(contract) })}</title>
       </Head>
       {/* Adjust max-width to accommodate wider card */}
       <main className="max-w-3xl mx-auto">
         {/* Set default text color for dark theme */}
         <div className="flex justify-center items-center mb-4 relative">
-             <h1 className="text-2xl font-bold text-center text-gray-100">🚀 ETH Scalping 策略助手</h1>
-             {/* Add link to history page */}
-             <Link href="/history" className="absolute right-0 text-sm text-blue-400 hover:text-blue-300">
-                 查看历史 &rarr;
-             </Link>
+             {/* Contract selector & bar mode toggle */}
+             <div className="absolute left-0 flex items-center gap-2 text-sm text-gray-300">
+                 <select
+                     value={contract}
+                     onChange={e => handleContractChange(e.target.value)}
+                     className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200"
+                 >
+                     {SUPPORTED_CONTRACTS.map(c => (
+                         <option key={c.contract} value={c.contract}>{c.contract}</option>
+                     ))}
+                 </select>
+                 <label className="flex items-center gap-1 cursor-pointer" title={t('index.barsClosedOnlyHint')}>
+                     <input
+                         type="checkbox"
+                         checked={closedBarsOnly || paperTrading}
+                         disabled={paperTrading} // Paper mode always evaluates closed bars
+                         onChange={e => updateQuery({ bars: e.target.checked ? 'closed' : undefined })}
+                     />
+                     {t('index.barsClosedOnly')}
+                 </label>
+                 <label className="flex items-center gap-1 cursor-pointer" title={t('paper.toggleHint')}>
+                     <input
+                         type="checkbox"
+                         checked={paperTrading}
+                         onChange={e => updateQuery({ position: e.target.checked ? 'paper' : undefined })}
+                     />
+                     {t('paper.toggle')}
+                 </label>
+             </div>
+             <h1 className="text-2xl font-bold text-center text-gray-100">🚀 {t('app.title', { asset: baseAsset(contract) })}</h1>
+             {/* Locale switch & link to history page */}
+             <div className="absolute right-0 flex items-center gap-3">
+                 <LocaleSwitch />
+                 <Link href={{ pathname: '/history', query: { contract } }} className="text-sm text-blue-400 hover:text-blue-300">
+                     {t('index.viewHistory')} &rarr;
+                 </Link>
+             </div>
         </div>
 
+        {/* Risk guardrails: banner while tripped, kill switch */}
+        <GuardrailBanner
+            contract={contract}
+            source={paperTrading ? 'paper' : 'exchange'}
+            state={data.guardrails ?? null}
+            onChange={() => mutate()}
+        />
+
         {/* Pass data to SignalDecision based on its updated Props */}
         <SignalDecision
             opening_signal={data.opening_signal ?? null}
@@ -117,18 +179,25 @@ export default function Home() {
             holdability_details={data.holdability_details ?? null}
             position={data.position ?? null}
             market_context={data.market_context ?? null}
+            recommendation={data.recommendation ?? null}
+            execution={paperTrading ? null : { contract, signalTime: data.time ?? null }}
         />
 
         {/* Pass the entire data object or specific parts according to SignalProps */}
         <SignalCard
           time={data.time}
           price={data.price}
+          bar_state={data.bar_state}
+          data_quality={data.data_quality}
           opening_signal={data.opening_signal}
           holdability_score={data.holdability_score}
           holdability_details={data.holdability_details}
+          holdability_max_score={data.holdability_max_score}
           position={data.position}
+          trailing_stop={data.trailing_stop}
           indicators_1m={data.indicators_1m}
-          indicators_15m={data.indicators_15m}
+          trend_filters={data.trend_filters}
+          vwap={data.vwap}
           market_context={data.market_context} // Pass market_context here
           // Pass loading and error states from useSWR
           isLoading={isLoading}
@@ -139,12 +208,17 @@ export default function Home() {
           // recommendationReasons={data.recommendationReasons}
         />
 
+        {/* Paper trading: virtual position, running PnL and trade log */}
+        {paperTrading && (
+          <PaperTradingPanel contract={contract} price={data.price ?? null} account={data.paper_account ?? null} />
+        )}
+
         {/* Remove the Indicator Chart */}
         {/* <div className="mt-6">
           <IndicatorChart data={data.historical_data_1m} />
         </div> */}
 
-        <p className="text-center text-xs text-gray-400 mt-6">每 60 秒自动刷新 | Powered by Gate.io API</p>
+        <p className="text-center text-xs text-gray-400 mt-6">{t('index.footer', { version: data.config_version ?? 'N/A' })}</p>
 
         {/* Hidden Audio Element for Notifications */}
         {/* Ensure you have a sound file at /public/notification.mp3 */}
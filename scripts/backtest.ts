@@ -0,0 +1,96 @@
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { createFixtureAdapter } from '../lib/exchange/fixture';
+import { resolveContract } from '../lib/contracts';
+import { resolveGapPolicy } from '../lib/candleValidation';
+import { mergeStrategyConfig, type StrategyConfigOverrides } from '../lib/strategyConfig';
+import { loadStrategyConfig } from '../lib/strategyConfigLoader';
+import { loadBacktestData, runBacktest, type BacktestResult } from '../lib/backtest';
+import { parseArgs, parseNumber, parseTime } from './cliArgs';
+
+// Offline backtest: npm run backtest -- --contract ETH_USDT --from 2024-05-01 --out backtest.json
+// Candles are read from the fixture layout (see lib/exchange/fixture.ts); no network access.
+
+const USAGE = `Usage: npm run backtest -- [options]
+  --fixtures <dir>      Candle files (default EXCHANGE_FIXTURE_DIR or ./fixtures)
+  --contract <name>     Contract to trade (default ETH_USDT); reference from NEXT_PUBLIC_CONTRACTS
+  --from <date|ms>      First bar to evaluate (earlier bars warm up indicators)
+  --to <date|ms>        Last bar to evaluate
+  --equity <n>          Starting equity in quote currency (default 10000)
+  --fee <rate>          Fee per fill as a fraction of notional (default: contract taker fee, else 0.0005)
+  --slippage-bps <n>    Adverse slippage per fill in basis points (default 2)
+  --window <bars>       1m bars per evaluation (default: same window as /api/signal)
+  --config <file>       Strategy config overrides (JSON), applied on top of STRATEGY_CONFIG(_FILE)
+  --no-stops            Exit on recommendations only, ignoring plan and trailing stops
+  --out <file>          Write trades, equity curve and metrics as JSON`;
+
+function printSummary(result: BacktestResult) {
+    const { metrics: m } = result;
+    const time = (ms: number | null) => (ms ? new Date(ms).toISOString() : '--');
+    const rows: [string, string | number | null][] = [
+        ['Contract', `${result.contract} (ref ${result.reference}), config ${result.config_version}`],
+        ['Period', `${time(result.from)} -> ${time(result.to)} (${result.bars} bars)`],
+        ['Trades', `${m.trades} (${m.wins} W / ${m.losses} L)`],
+        ['Win rate', `${(m.win_rate * 100).toFixed(1)}%`],
+        ['Net PnL', `${m.net_pnl} (${m.return_pct}%)`],
+        ['Expectancy', `${m.expectancy} per trade${m.expectancy_r !== null ? `, ${m.expectancy_r}R` : ''}`],
+        ['Profit factor', m.profit_factor],
+        ['Max drawdown', `${m.max_drawdown} (${m.max_drawdown_pct}%)`],
+        ['Sharpe', m.sharpe],
+        ['Fees', m.fees],
+        ['Exposure', `${m.exposure_pct}%`],
+    ];
+    rows.forEach(([label, value]) => console.log(`${label.padEnd(14)} ${value ?? '--'}`));
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2), ['no-stops']);
+    if (args.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    const contractConfig = resolveContract(typeof args.contract === 'string' ? args.contract : undefined);
+    if (!contractConfig) throw new Error(`Unsupported contract: ${args.contract}`);
+    const { contract, reference } = contractConfig;
+
+    let config = loadStrategyConfig();
+    if (typeof args.config === 'string') {
+        const overrides = JSON.parse(readFileSync(path.resolve(args.config), 'utf8')) as StrategyConfigOverrides;
+        config = mergeStrategyConfig(overrides, config);
+    }
+
+    const fixtures = typeof args.fixtures === 'string' ? args.fixtures : undefined;
+    const data = await loadBacktestData(
+        createFixtureAdapter(fixtures),
+        contract,
+        reference,
+        resolveGapPolicy(process.env.CANDLE_GAP_POLICY)
+    );
+    if (data.candles1m.length === 0) throw new Error(`No 1m candles for ${contract}`);
+
+    const result = runBacktest(data, {
+        contract,
+        reference,
+        config,
+        initialEquity: parseNumber(args.equity, 10000),
+        feeRate: parseNumber(args.fee, data.contractInfo?.takerFeeRate || 0.0005),
+        slippageBps: parseNumber(args['slippage-bps'], 2),
+        from: parseTime(args.from),
+        to: parseTime(args.to),
+        windowBars: parseNumber(args.window, null),
+        useStops: !args['no-stops'],
+    });
+
+    printSummary(result);
+    if (typeof args.out === 'string') {
+        writeFileSync(path.resolve(args.out), JSON.stringify(result, null, 2));
+        console.log(`Wrote ${result.trades.length} trades and ${result.equity_curve.length} equity points to ${args.out}`);
+    }
+}
+
+main().catch(err => {
+    console.error(err.message || err);
+    console.error(USAGE);
+    process.exit(1);
+});
@@ -0,0 +1,32 @@
+// Argument helpers shared by the offline scripts (backtest, sweep)
+
+export function parseArgs(argv: string[], flags: string[] = []): Record<string, string | boolean> {
+    const args: Record<string, string | boolean> = {};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) throw new Error(`Unexpected argument: ${arg}`);
+        const name = arg.slice(2);
+        if (name === 'help' || flags.includes(name)) {
+            args[name] = true;
+        } else if (i + 1 < argv.length) {
+            args[name] = argv[++i];
+        } else {
+            throw new Error(`Missing value for ${arg}`);
+        }
+    }
+    return args;
+}
+
+export const parseTime = (value: string | boolean | undefined): number | null => {
+    if (typeof value !== 'string') return null;
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    if (isNaN(time)) throw new Error(`Invalid time: ${value}`);
+    return time;
+};
+
+export const parseNumber = (value: string | boolean | undefined, fallback: number | null): number | null => {
+    if (typeof value !== 'string') return fallback;
+    const number = Number(value);
+    if (isNaN(number)) throw new Error(`Invalid number: ${value}`);
+    return number;
+};
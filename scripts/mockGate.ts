@@ -0,0 +1,97 @@
+import http from 'http';
+import { parseArgs, parseNumber } from './cliArgs';
+
+// Local stand-in for the Gate futures order endpoints, for exercising /api/execute
+// without touching the exchange:
+//   npm run mock-gate -- --port 8081
+//   GATE_API_BASE_PATH=http://localhost:8081/api/v4 EXECUTION_ENABLED=true EXECUTION_DRY_RUN=false EXECUTION_TOKEN=dev-token npm run dev
+// Every request is logged; orders fill immediately at --price unless --unfilled is set.
+
+const USAGE = `Usage: npm run mock-gate -- [options]
+  --port <n>      Port to listen on (default 8081)
+  --price <n>     Fill price reported for market orders (default 3000)
+  --unfilled      Report IOC orders as cancelled with nothing filled
+  --fail <path>   Answer requests whose path contains this text with a 400 error`;
+
+const BASE = '/api/v4/futures/usdt';
+
+const args = parseArgs(process.argv.slice(2), ['unfilled']);
+if (args.help) {
+    console.log(USAGE);
+    process.exit(0);
+}
+const port = parseNumber(args.port, 8081);
+const fillPrice = parseNumber(args.price, 3000);
+const failPath = typeof args.fail === 'string' ? args.fail : null;
+
+let nextId = 1;
+const triggers = new Map<number, any>();
+
+const send = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+function route(method: string, path: string, query: URLSearchParams, body: any): [number, unknown] {
+    const now = Date.now() / 1000;
+    if (method === 'POST' && path === `${BASE}/orders`) {
+        return [201, {
+            id: nextId++,
+            contract: body.contract,
+            size: body.size,
+            left: args.unfilled ? body.size : '0',
+            price: body.price,
+            fill_price: args.unfilled ? '0' : String(fillPrice),
+            tif: body.tif,
+            text: body.text,
+            is_close: !!body.close,
+            is_reduce_only: !!body.reduce_only || !!body.close,
+            status: 'finished',
+            finish_as: args.unfilled ? 'ioc' : 'filled',
+            create_time: now,
+            finish_time: now,
+            tkfr: '0.0005',
+        }];
+    }
+    const cancel = path.match(new RegExp(`^${BASE}/orders/(\\d+)$`));
+    if (method === 'DELETE' && cancel) {
+        return [200, { id: Number(cancel[1]), status: 'finished', finish_as: 'cancelled', finish_time: now }];
+    }
+    if (method === 'POST' && path === `${BASE}/price_orders`) {
+        const id = nextId++;
+        triggers.set(id, { ...body, id, status: 'open', create_time: now });
+        return [201, { id }];
+    }
+    if (method === 'DELETE' && path === `${BASE}/price_orders`) {
+        const contract = query.get('contract');
+        const cancelled = Array.from(triggers.values()).filter(t => !contract || t.initial?.contract === contract);
+        cancelled.forEach(t => triggers.delete(t.id));
+        return [200, cancelled.map(t => ({ ...t, status: 'finished', finish_as: 'cancelled' }))];
+    }
+    return [404, { label: 'NOT_FOUND', message: `${method} ${path} is not mocked` }];
+}
+
+const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+        const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+        let body: any = {};
+        try {
+            body = raw ? JSON.parse(raw) : {};
+        } catch {
+            return send(res, 400, { label: 'INVALID_PARAM_VALUE', message: 'Body is not JSON' });
+        }
+
+        let [status, response]: [number, unknown] = [401, { label: 'INVALID_KEY', message: 'Missing KEY/SIGN headers' }];
+        if (req.headers['key'] && req.headers['sign']) {
+            [status, response] = failPath && url.pathname.includes(failPath)
+                ? [400, { label: 'MOCK_FAILURE', message: `Configured to fail ${failPath}` }]
+                : route(req.method ?? 'GET', url.pathname, url.searchParams, body);
+        }
+        console.log(`${new Date().toISOString()} ${req.method} ${url.pathname}${url.search} ${raw} -> ${status} ${JSON.stringify(response)}`);
+        send(res, status, response);
+    });
+});
+
+server.listen(port, () => console.log(`Mock Gate futures API on http://localhost:${port}/api/v4`));
@@ -0,0 +1,149 @@
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { createFixtureAdapter } from '../lib/exchange/fixture';
+import { resolveContract } from '../lib/contracts';
+import { resolveGapPolicy } from '../lib/candleValidation';
+import { mergeStrategyConfig, type StrategyConfigOverrides } from '../lib/strategyConfig';
+import { loadStrategyConfig } from '../lib/strategyConfigLoader';
+import {
+    SWEEP_OBJECTIVES,
+    loadBacktestData,
+    runWalkForward,
+    type ParameterGrid,
+    type StabilityHeatmap,
+    type SweepObjective,
+    type WalkForwardResult,
+} from '../lib/backtest';
+import { parseArgs, parseNumber, parseTime } from './cliArgs';
+
+// Parameter sweep with walk-forward validation:
+// npm run sweep -- --grid grid.json --folds 4 --objective sharpe --out sweep.json
+// The grid file maps dotted config paths to the values to try, e.g.
+// { "indicators.bbPeriod": [16, 20, 24], "recommendation.openThreshold": [6, 7, 8] }
+
+const USAGE = `Usage: npm run sweep -- --grid <file> [options]
+  --grid <file>         Parameter grid (JSON): { "<section>.<key>": [values...] }
+  --objective <name>    Ranking objective: ${SWEEP_OBJECTIVES.join(', ')} (default sharpe)
+  --folds <n>           Walk-forward folds (default 4)
+  --in-sample <ratio>   Share of the period in each in-sample window (default 0.6)
+  --min-trades <n>      In-sample runs with fewer trades are not ranked (default 5)
+  --heatmap <x,y>       Grid parameters for the stability heatmap (default: first two that vary)
+  --top <n>             Ranked parameter sets to print (default 10)
+  --fixtures, --contract, --from, --to, --equity, --fee, --slippage-bps, --window, --config, --no-stops
+                        As for npm run backtest
+  --out <file>          Write folds, ranking, heatmap and warnings as JSON`;
+
+const formatParams = (params: Record<string, number>) =>
+    Object.keys(params).map(param => `${param}=${params[param]}`).join(' ');
+
+const time = (ms: number) => new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+
+function printHeatmap(heatmap: StabilityHeatmap) {
+    const cell = (value: number | null) => (value === null ? '--' : String(value)).padStart(9);
+    const rowLabel = (value: number | null) => (value === null ? '' : String(value)).padStart(10);
+    console.log(`\nStability heatmap (mean in-sample score), x = ${heatmap.x.param}${heatmap.y ? `, y = ${heatmap.y.param}` : ''}`);
+    console.log(`${''.padStart(10)} ${heatmap.x.values.map(v => String(v).padStart(9)).join('')}`);
+    heatmap.cells.forEach((row, i) => {
+        console.log(`${rowLabel(heatmap.y ? heatmap.y.values[i] : null)} ${row.map(cell).join('')}`);
+    });
+}
+
+function printSummary(result: WalkForwardResult, top: number) {
+    console.log(`${result.contract} (ref ${result.reference}), base config ${result.base_config_version}`);
+    console.log(`${result.combinations} parameter sets x ${result.folds.length} folds, objective ${result.objective}\n`);
+
+    result.folds.forEach(fold => {
+        const scores = `IS ${fold.in_sample_score ?? '--'} / OOS ${fold.out_of_sample_score ?? '--'}`;
+        const trades = fold.out_of_sample_metrics ? `, ${fold.out_of_sample_metrics.trades} OOS trades` : '';
+        console.log(`Fold ${fold.index + 1}: IS ${time(fold.in_sample.from)} -> ${time(fold.in_sample.to)}, OOS -> ${time(fold.out_of_sample.to)}`);
+        console.log(`  best ${fold.best ? formatParams(fold.best) : '(none ranked)'}: ${scores}${trades}`);
+    });
+
+    console.log('\nRanking (mean in-sample score across folds)');
+    result.ranking.slice(0, top).forEach((r, i) => {
+        const best = r.times_best > 0 ? `, best in ${r.times_best}` : '';
+        console.log(`${String(i + 1).padStart(3)}. ${String(r.mean_score ?? '--').padStart(9)}  ${formatParams(r.params)} (${r.mean_trades} trades${best})`);
+    });
+
+    const oos = result.out_of_sample;
+    console.log(`\nOut-of-sample: mean score ${oos.mean_score ?? '--'}, efficiency ${oos.efficiency ?? '--'}, ${oos.trades} trades, net PnL ${oos.net_pnl}`);
+    if (result.heatmap) printHeatmap(result.heatmap);
+
+    if (result.warnings.length > 0) {
+        console.log('\nOverfitting warnings:');
+        result.warnings.forEach(w => console.log(`  [${w.code}] ${w.message}`));
+    } else {
+        console.log('\nNo overfitting warnings.');
+    }
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2), ['no-stops']);
+    if (args.help) {
+        console.log(USAGE);
+        return;
+    }
+    if (typeof args.grid !== 'string') throw new Error('Missing --grid');
+    const grid = JSON.parse(readFileSync(path.resolve(args.grid), 'utf8')) as ParameterGrid;
+
+    const objective = (typeof args.objective === 'string' ? args.objective : 'sharpe') as SweepObjective;
+    if (!SWEEP_OBJECTIVES.includes(objective)) throw new Error(`Unknown objective: ${objective}`);
+    const heatmap = typeof args.heatmap === 'string' ? (args.heatmap.split(',') as [string, string]) : null;
+
+    const contractConfig = resolveContract(typeof args.contract === 'string' ? args.contract : undefined);
+    if (!contractConfig) throw new Error(`Unsupported contract: ${args.contract}`);
+    const { contract, reference } = contractConfig;
+
+    let config = loadStrategyConfig();
+    if (typeof args.config === 'string') {
+        const overrides = JSON.parse(readFileSync(path.resolve(args.config), 'utf8')) as StrategyConfigOverrides;
+        config = mergeStrategyConfig(overrides, config);
+    }
+
+    const fixtures = typeof args.fixtures === 'string' ? args.fixtures : undefined;
+    const data = await loadBacktestData(
+        createFixtureAdapter(fixtures),
+        contract,
+        reference,
+        resolveGapPolicy(process.env.CANDLE_GAP_POLICY)
+    );
+    if (data.candles1m.length === 0) throw new Error(`No 1m candles for ${contract}`);
+
+    const result = runWalkForward(
+        data,
+        {
+            contract,
+            reference,
+            config,
+            initialEquity: parseNumber(args.equity, 10000),
+            feeRate: parseNumber(args.fee, data.contractInfo?.takerFeeRate || 0.0005),
+            slippageBps: parseNumber(args['slippage-bps'], 2),
+            from: parseTime(args.from),
+            to: parseTime(args.to),
+            windowBars: parseNumber(args.window, null),
+            useStops: !args['no-stops'],
+        },
+        {
+            grid,
+            objective,
+            folds: parseNumber(args.folds, 4),
+            inSampleRatio: parseNumber(args['in-sample'], 0.6),
+            minTrades: parseNumber(args['min-trades'], 5),
+            heatmap,
+            onProgress: (done, total) => process.stderr.write(`\rBacktests ${done}/${total}`),
+        }
+    );
+    process.stderr.write('\n');
+
+    printSummary(result, parseNumber(args.top, 10));
+    if (typeof args.out === 'string') {
+        writeFileSync(path.resolve(args.out), JSON.stringify(result, null, 2));
+        console.log(`Wrote walk-forward results to ${args.out}`);
+    }
+}
+
+main().catch(err => {
+    console.error(err.message || err);
+    console.error(USAGE);
+    process.exit(1);
+});
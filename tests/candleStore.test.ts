@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCandleStore } from '../lib/stream/candleStore';
+
+const MINUTE = 60 * 1000;
+const T0 = Date.UTC(2024, 4, 1, 12, 0);
+const bar = (timestamp: number, close: number) => ({ timestamp, open: close, high: close, low: close, close, volume: 1 });
+
+test('ticker updates the forming bar within its bucket', () => {
+    const store = createCandleStore(10, 30 * 1000);
+    store.upsertCandle('ETH_USDT', '1m', bar(T0, 100), T0 + 1000);
+    store.applyTicker('ETH_USDT', 103, T0 + 20 * 1000);
+    const [candle] = store.getCandles('ETH_USDT', '1m', 1, T0 + 21 * 1000)!;
+    assert.equal(candle.close, 103);
+    assert.equal(candle.high, 103);
+    assert.equal(candle.low, 100);
+});
+
+test('ticker after the bucket boundary leaves the closed bar and staleness alone', () => {
+    const store = createCandleStore(10, 30 * 1000);
+    store.upsertCandle('ETH_USDT', '1m', bar(T0, 100), T0 + 1000);
+    store.upsertCandle('ETH_USDT', '15m', bar(T0, 100), T0 + 1000);
+    store.applyTicker('ETH_USDT', 90, T0 + MINUTE + 500);
+
+    // The 1m bar closed: unchanged, and no fresh update means it is reported cold
+    assert.equal(store.getCandles('ETH_USDT', '1m', 1, T0 + MINUTE + 600), null);
+    store.upsertCandle('ETH_USDT', '1m', bar(T0 + MINUTE, 95), T0 + MINUTE + 700);
+    const candles = store.getCandles('ETH_USDT', '1m', 2, T0 + MINUTE + 800)!;
+    assert.deepEqual(candles.map(c => c.close), [100, 95]);
+
+    // The 15m bar is still forming and takes the price
+    const [quarter] = store.getCandles('ETH_USDT', '15m', 1, T0 + MINUTE + 800)!;
+    assert.equal(quarter.low, 90);
+});
+
+test('getCandles needs enough fresh candles including the current bucket', () => {
+    const store = createCandleStore(3, 30 * 1000);
+    store.seed('ETH_USDT', '1m', [0, 1, 2, 3].map(i => bar(T0 + i * MINUTE, 100 + i)));
+    assert.equal(store.getCandles('ETH_USDT', '1m', 3, T0 + 3 * MINUTE), null); // Never pushed by the stream
+    store.upsertCandle('ETH_USDT', '1m', bar(T0 + 3 * MINUTE, 104), T0 + 3 * MINUTE + 100);
+    assert.deepEqual(store.getCandles('ETH_USDT', '1m', 3, T0 + 3 * MINUTE + 200)!.map(c => c.close), [101, 102, 104]);
+    assert.equal(store.getCandles('ETH_USDT', '1m', 4, T0 + 3 * MINUTE + 200), null); // Capped at maxCandles
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateSignalState, type ConfirmationConfig, type ScoredHistoryRecord, type SignalState } from '../lib/confirmation';
+
+const BAR_MS = 60 * 1000;
+const START = Date.UTC(2024, 4, 1, 12, 0);
+const ENTER = { long: 6, short: 6 };
+const config: ConfirmationConfig = { confirmBars: 2, windowBars: 3, exitThreshold: 4, cooldownBars: 5 };
+
+// Feeds [long, short] scores bar by bar, as /api/signal does with its history records
+function replay(scores: [number, number][], start = START): SignalState[] {
+    const history: ScoredHistoryRecord[] = [];
+    return scores.map(([long, short], i) => {
+        const bar = { time: start + i * BAR_MS, long_score: long, short_score: short };
+        const state = evaluateSignalState(bar, history, ENTER, config);
+        history.push({ ...bar, signal_state: state });
+        return state;
+    });
+}
+
+test('a side fires once N of the last M bars qualify', () => {
+    const states = replay([[7, 1], [2, 1], [8, 1]]);
+    assert.deepEqual(states.map(s => s.fired), [null, null, 'long']);
+    assert.deepEqual(states[2].hits, { long: 2, short: 0 });
+    assert.equal(states[2].since, START + 2 * BAR_MS);
+});
+
+test('a bar only qualifies when it also beats the other side', () => {
+    const states = replay([[7, 8], [7, 9], [7, 3]]);
+    assert.deepEqual(states.map(s => s.active), [null, 'short', null]); // Short drops below the exit threshold on bar 3
+    assert.equal(states[2].hits.long, 1); // Bars 1-2 scored 7 for long but less than short
+    assert.equal(replay([[7, 7], [7, 7]])[1].hits.long, 0); // A tie is not above the other side
+});
+
+test('an active signal holds down to the exit threshold, then ends', () => {
+    const states = replay([[7, 0], [7, 0], [5, 0], [4, 0], [3, 0]]);
+    assert.deepEqual(states.map(s => s.active), [null, 'long', 'long', 'long', null]);
+    assert.deepEqual(states.map(s => s.fired), [null, 'long', null, null, null]);
+    assert.equal(states[3].since, START + BAR_MS); // Kept from the bar it fired on
+});
+
+test('the other side confirming takes over an active signal', () => {
+    const states = replay([[7, 0], [7, 0], [5, 7], [5, 8]]);
+    assert.deepEqual(states.map(s => s.active), [null, 'long', 'long', 'short']);
+    assert.equal(states[3].fired, 'short');
+});
+
+test('the same side cannot fire again during the cooldown', () => {
+    const states = replay([[7, 0], [7, 0], [0, 0], [7, 0], [7, 0], [0, 0], [7, 0], [7, 0]]);
+    assert.deepEqual(states.map(s => s.fired), [null, 'long', null, null, null, null, 'long', null]);
+    assert.equal(states[3].active, null); // Enough hits again, but still cooling down
+    assert.equal(states[4].cooldown_until.long, START + 6 * BAR_MS);
+});
+
+test('missing bars count as misses and a stale state is dropped', () => {
+    const history: ScoredHistoryRecord[] = [];
+    const first = { time: START, long_score: 7, short_score: 0 };
+    history.push({ ...first, signal_state: evaluateSignalState(first, history, ENTER, config) });
+    const second = { time: START + BAR_MS, long_score: 7, short_score: 0 };
+    history.push({ ...second, signal_state: evaluateSignalState(second, history, ENTER, config) });
+    assert.equal(history[1].signal_state?.active, 'long');
+
+    // Four bars later the window holds no qualifying bars besides the current one
+    const later = evaluateSignalState({ time: START + 5 * BAR_MS, long_score: 7, short_score: 0 }, history, ENTER, config);
+    assert.equal(later.active, null);
+    assert.equal(later.hits.long, 1);
+    assert.equal(later.cooldown_until.long, START + 6 * BAR_MS); // The cooldown still carries over
+
+    // Several records for one bar: the last write wins
+    const rewritten = [...history, { time: START + BAR_MS, long_score: 0, short_score: 0, signal_state: null }];
+    assert.equal(evaluateSignalState({ time: START + 2 * BAR_MS, long_score: 7, short_score: 0 }, rewritten, ENTER, config).hits.long, 2);
+});
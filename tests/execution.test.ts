@@ -0,0 +1,178 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FuturesPriceTrigger } from 'gate-api';
+import type { Recommendation } from '../lib/recommendation';
+import type { PositionSizing } from '../lib/sizing';
+import type { OrderClient } from '../lib/execution/gateClient';
+import { buildOrderIntent, gateRequests, idempotencyKey, type GateRequest } from '../lib/execution/orders';
+import { executeIntent, type AuditEntry } from '../lib/execution/executor';
+import { validExecutionToken } from '../lib/execution/auth';
+
+const SIGNAL_TIME = Date.UTC(2024, 4, 1, 12, 0);
+
+const sizing: PositionSizing = {
+    equity: 10000,
+    equity_source: 'manual',
+    currency: 'USDT',
+    risk_pct: 1,
+    risk_amount: 100,
+    contracts: 4,
+    notional: 12000,
+    margin: 1200,
+    leverage: 10,
+    loss_at_stop: 200,
+    limited_by: 'risk',
+};
+
+const openLong: Recommendation = {
+    action: 'OPEN_LONG',
+    side: 'long',
+    level: 'High',
+    reasons: [],
+    trade_plan: {
+        side: 'long',
+        entry: { price: 3000, low: 2990, high: 3000 },
+        stop: 2950,
+        stop_mode: 'atr',
+        risk: 50,
+        risk_pct: 1.67,
+        targets: [{ r: 1, price: 3050 }, { r: 2, price: 3100 }],
+        reward_risk: 1.5,
+        sizing,
+    },
+};
+const closeLong: Recommendation = { action: 'CLOSE_LONG', side: 'long', level: 'High', reasons: [] };
+
+// Records every call; `fail` names the methods that throw, `unfilled` leaves IOC orders unfilled
+function stubClient(options: { fail?: (keyof OrderClient)[]; unfilled?: boolean } = {}) {
+    const calls: [string, unknown][] = [];
+    const call = (name: keyof OrderClient) => async (arg: any) => {
+        calls.push([name, arg]);
+        if (options.fail?.includes(name)) throw new Error(`${name} failed`);
+        if (name !== 'createOrder') return { id: calls.length };
+        const size = arg.close ? '-4' : arg.size; // Gate reports the closed size for size-0 closes
+        return { size, left: options.unfilled ? size : '0' };
+    };
+    const client: OrderClient = {
+        basePath: 'stub',
+        createOrder: call('createOrder'),
+        cancelOrder: call('cancelOrder'),
+        createTriggerOrder: call('createTriggerOrder'),
+        cancelTriggerOrders: call('cancelTriggerOrders'),
+    };
+    return { client, calls };
+}
+
+// The `index`-th request of one kind, narrowed to its body type
+function requestOf<K extends GateRequest['kind']>(requests: GateRequest[], kind: K, index = 0): Extract<GateRequest, { kind: K }> {
+    const matching = requests.filter((r): r is Extract<GateRequest, { kind: K }> => r.kind === kind);
+    assert.ok(matching[index], `No ${kind} request #${index}`);
+    return matching[index];
+}
+
+const run = async (recommendation: Recommendation, client: OrderClient | null, dryRun = false) => {
+    const intent = buildOrderIntent('ETH_USDT', recommendation, SIGNAL_TIME)!;
+    const audit: AuditEntry[] = [];
+    const result = await executeIntent(intent, gateRequests(intent, 0.01), client, dryRun, async entry => { audit.push(entry); });
+    return { result, audit };
+};
+
+test('buildOrderIntent sizes openings from the plan and closes the whole position', () => {
+    const open = buildOrderIntent('ETH_USDT', openLong, SIGNAL_TIME);
+    assert.deepEqual(open, {
+        contract: 'ETH_USDT',
+        action: 'OPEN_LONG',
+        side: 'long',
+        signal_time: SIGNAL_TIME,
+        idempotency_key: idempotencyKey('ETH_USDT', 'OPEN_LONG', SIGNAL_TIME),
+        op: 'open',
+        size: 4,
+        stop: 2950,
+        take_profit: 3050,
+    });
+    assert.equal(buildOrderIntent('ETH_USDT', closeLong, SIGNAL_TIME)?.size, 0);
+    assert.equal(buildOrderIntent('ETH_USDT', { ...openLong, trade_plan: { ...openLong.trade_plan!, sizing: null } }, SIGNAL_TIME), null);
+    assert.equal(buildOrderIntent('ETH_USDT', { ...closeLong, action: 'HOLD_LONG' }, SIGNAL_TIME), null);
+
+    const key = open!.idempotency_key;
+    assert.match(key, /^t-[0-9a-f]{8}-[0-9a-z]+$/);
+    assert.ok(Buffer.byteLength(key) <= 28); // Gate's limit for the order text
+    assert.notEqual(key, idempotencyKey('ETH_USDT', 'OPEN_LONG', SIGNAL_TIME + 60000));
+});
+
+test('gateRequests protects openings and cancels the triggers after a close', () => {
+    const open = gateRequests(buildOrderIntent('ETH_USDT', openLong, SIGNAL_TIME)!, 0.01);
+    assert.deepEqual(open.map(r => r.role), ['entry', 'stop_loss', 'take_profit']);
+    assert.equal(requestOf(open, 'order').body.size, '4');
+    const stopLoss = requestOf(open, 'trigger');
+    assert.equal(stopLoss.role, 'stop_loss');
+    assert.equal(stopLoss.body.trigger.price, '2950.00');
+    assert.equal(stopLoss.body.trigger.rule, FuturesPriceTrigger.Rule.NUMBER_2); // Long stop: price <= trigger
+
+    const short = gateRequests(buildOrderIntent('ETH_USDT', { ...openLong, action: 'OPEN_SHORT', side: 'short' }, SIGNAL_TIME)!);
+    assert.equal(requestOf(short, 'order').body.size, '-4');
+    assert.equal(requestOf(short, 'trigger').body.trigger.rule, FuturesPriceTrigger.Rule.NUMBER_1);
+
+    const close = gateRequests(buildOrderIntent('ETH_USDT', closeLong, SIGNAL_TIME)!);
+    assert.deepEqual(close.map(r => r.kind), ['order', 'cancel_triggers']);
+    assert.equal(requestOf(close, 'order').body.close, true);
+    assert.deepEqual(requestOf(close, 'cancel_triggers').body, { contract: 'ETH_USDT' });
+});
+
+test('executeIntent places the triggers once the entry fills', async () => {
+    const { client, calls } = stubClient();
+    const { result, audit } = await run(openLong, client);
+    assert.equal(result.status, 'filled');
+    assert.deepEqual(calls.map(c => c[0]), ['createOrder', 'createTriggerOrder', 'createTriggerOrder']);
+    assert.deepEqual(audit.map(a => a.status), ['ok', 'ok', 'ok']);
+});
+
+test('executeIntent stops after an unfilled or failed entry', async () => {
+    const unfilled = stubClient({ unfilled: true });
+    assert.equal((await run(openLong, unfilled.client)).result.status, 'not_filled');
+    assert.equal(unfilled.calls.length, 1);
+
+    const failed = stubClient({ fail: ['createOrder'] });
+    const { result, audit } = await run(openLong, failed.client);
+    assert.equal(result.status, 'failed');
+    assert.equal(audit[0].error, 'createOrder failed');
+});
+
+test('executeIntent reports a filled entry whose trigger failed as unprotected', async () => {
+    const { client } = stubClient({ fail: ['createTriggerOrder'] });
+    assert.equal((await run(openLong, client)).result.status, 'unprotected');
+});
+
+test('executeIntent cancels the triggers after a close fills', async () => {
+    const { client, calls } = stubClient();
+    assert.equal((await run(closeLong, client)).result.status, 'filled');
+    assert.deepEqual(calls, [['createOrder', calls[0][1]], ['cancelTriggerOrders', 'ETH_USDT']]);
+
+    const unfilled = stubClient({ unfilled: true });
+    await run(closeLong, unfilled.client);
+    assert.deepEqual(unfilled.calls.map(c => c[0]), ['createOrder']); // Position still open: keep its triggers
+
+    const cancelFailed = stubClient({ fail: ['cancelTriggerOrders'] });
+    assert.equal((await run(closeLong, cancelFailed.client)).result.status, 'triggers_left');
+});
+
+test('executeIntent only records the requests in dry-run mode', async () => {
+    const { client, calls } = stubClient();
+    const { result, audit } = await run(openLong, client, true);
+    assert.equal(result.status, 'dry_run');
+    assert.equal(calls.length, 0);
+    assert.deepEqual(audit.map(a => [a.status, a.endpoint]), [
+        ['dry_run', 'POST /futures/usdt/orders'],
+        ['dry_run', 'POST /futures/usdt/price_orders'],
+        ['dry_run', 'POST /futures/usdt/price_orders'],
+    ]);
+});
+
+test('validExecutionToken requires the configured secret', () => {
+    assert.equal(validExecutionToken('secret', 'secret'), true);
+    assert.equal(validExecutionToken('secret-but-longer', 'secret'), false);
+    assert.equal(validExecutionToken('', 'secret'), false);
+    assert.equal(validExecutionToken(undefined, 'secret'), false);
+    assert.equal(validExecutionToken('anything', undefined), false); // Unset: refuse everything
+    assert.equal(validExecutionToken('anything', ''), false);
+});
@@ -0,0 +1,108 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { CandleData, PositionInfoFromAPI } from '../lib/types';
+import { createFixtureAdapter } from '../lib/exchange/fixture';
+import { mergeStrategyConfig } from '../lib/strategyConfig';
+import { evaluateSignalSnapshot, InsufficientDataError, signalWindowBars } from '../lib/signalPipeline';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const NOW = Date.UTC(2024, 4, 1, 12, 0, 30); // Mid-bar: the 12:00 bar is still live
+const config = mergeStrategyConfig();
+
+// Deterministic bars ending with the one open at `NOW`, oldest first
+function bars(count: number, intervalMs: number, base: number, drift: number): CandleData[] {
+    const last = Math.floor(NOW / intervalMs) * intervalMs;
+    return Array.from({ length: count }, (_, i) => {
+        const close = base + drift * i + base * 0.004 * Math.sin(i / 7);
+        const open = close - base * 0.001 * Math.cos(i / 5);
+        return {
+            timestamp: last - (count - 1 - i) * intervalMs,
+            open,
+            high: Math.max(open, close) + base * 0.0008,
+            low: Math.min(open, close) - base * 0.0008,
+            close,
+            volume: 100 + 40 * Math.abs(Math.sin(i / 3)),
+        };
+    });
+}
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixture-test-'));
+const write = (file: string, data: unknown) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), JSON.stringify(data));
+};
+const adapter = createFixtureAdapter(dir);
+
+before(() => {
+    write('klines/ETH_USDT_1m.json', bars(1500, MINUTE_MS, 3000, 0.05));
+    write('klines/BTC_USDT_1m.json', bars(1500, MINUTE_MS, 60000, 1));
+    write('klines/BTC_USDT_1d.json', bars(80, DAY_MS, 60000, 100));
+    write('klines/SOL_USDT_1m.json', bars(1, MINUTE_MS, 150, 0));
+});
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+// The same fetches /api/signal makes, served from the fixture directory
+async function snapshotFor(contract: string) {
+    const limit = signalWindowBars(config, NOW);
+    const [candles1m, refCandles1m, btcCandles1d, position] = await Promise.all([
+        adapter.getKlines(contract, '1m', limit),
+        adapter.getKlines('BTC_USDT', '1m', limit),
+        adapter.getKlines('BTC_USDT', '1d', 100),
+        adapter.getPosition(contract),
+    ]);
+    return evaluateSignalSnapshot({
+        candles1m,
+        refCandles1m,
+        btcCandles1d,
+        position,
+        assets: { base: contract.split('_')[0], reference: 'BTC' },
+        config,
+        barMode: 'live',
+        now: NOW,
+    });
+}
+
+test('the fixture adapter serves the latest bars and a flat position by default', async () => {
+    const candles = await adapter.getKlines('ETH_USDT', '1m', 10);
+    assert.equal(candles.length, 10);
+    assert.equal(candles[9].timestamp, NOW - 30 * 1000);
+    assert.equal(await adapter.getPosition('ETH_USDT'), null);
+    assert.equal(await adapter.getAccount(), null);
+    await assert.rejects(adapter.getKlines('ETH_USDT', '5m', 10), /Fixture not found/);
+});
+
+test('the signal pipeline runs end to end on fixture data', async () => {
+    const snapshot = await snapshotFor('ETH_USDT');
+    assert.equal(snapshot.latest.timestamp, NOW - 30 * 1000);
+    assert.equal(snapshot.enriched1m.length, signalWindowBars(config, NOW));
+    assert.equal(snapshot.vwapAnchor, Date.UTC(2024, 4, 1)); // Default utc_day session
+    assert.equal(typeof snapshot.latest.AVWAP, 'number');
+    assert.equal(snapshot.trendResults.length, config.trend.filters.length);
+    assert.equal(snapshot.btcDailyTrend, 'up'); // Daily closes rising all along
+    assert.ok(snapshot.btcEma !== null && snapshot.btcEma > 0);
+    for (const signal of [snapshot.longSignal, snapshot.shortSignal]) {
+        assert.ok(signal.score >= 0 && signal.score <= signal.maxScore);
+    }
+    assert.equal(snapshot.holdability.score, 0); // Flat: nothing to hold
+});
+
+test('a position fixture feeds the holdability score', async () => {
+    const position: PositionInfoFromAPI = { side: 'long', entryPrice: 3010, liquidationPrice: null, openTimeMs: NOW - 90 * MINUTE_MS };
+    write('positions/ETH_USDT.json', position);
+    try {
+        assert.deepEqual(await adapter.getPosition('ETH_USDT'), position);
+        const snapshot = await snapshotFor('ETH_USDT');
+        assert.ok(snapshot.holdability.maxScore > 0);
+        assert.ok(snapshot.holdability.details.length > 0);
+    } finally {
+        fs.rmSync(path.join(dir, 'positions'), { recursive: true, force: true });
+    }
+});
+
+test('too few fixture bars surface as InsufficientDataError', async () => {
+    await assert.rejects(snapshotFor('SOL_USDT'), InsufficientDataError);
+});
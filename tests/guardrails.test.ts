@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Recommendation } from '../lib/recommendation';
+import { accountTrips, applyGuardrails, newGuardrailState, recordCloses, type GuardrailConfig } from '../lib/guardrails';
+import { loadGuardrailState, resetGuardrailState, saveGuardrailState, setKillSwitch } from '../lib/guardrailStore';
+import { createMemoryStorage, setStorage } from '../lib/storage';
+import { guardrailStateKey } from '../lib/contracts';
+
+const NOON = Date.UTC(2024, 4, 1, 12, 0);
+const HOUR_MS = 60 * 60 * 1000;
+
+const config: GuardrailConfig = {
+    maxDailyLoss: 100,
+    maxConsecutiveLosses: 3,
+    maxTradesPerDay: 10,
+    maxNotional: null,
+    liquidationBufferPct: null,
+    blackoutMinutes: 30,
+};
+
+const openLong: Recommendation = { action: 'OPEN_LONG', side: 'long', level: 'High', reasons: [{ code: 'RISK_OK' }] };
+
+test('recordCloses counts each close once and only for the current UTC day', () => {
+    let state = newGuardrailState('ETH_USDT', 'exchange', NOON);
+    state = recordCloses(state, [
+        { time: NOON - 13 * HOUR_MS, pnl: -500 }, // Yesterday: moves the cursor, not the counters
+        { time: NOON - 2 * HOUR_MS, pnl: -30 },
+        { time: NOON - HOUR_MS, pnl: -20 },
+    ], NOON);
+    assert.deepEqual([state.realized_pnl, state.trades, state.consecutive_losses], [-50, 2, 2]);
+
+    state = recordCloses(state, [{ time: NOON - HOUR_MS, pnl: -20 }, { time: NOON, pnl: 15 }], NOON); // First one already counted
+    assert.deepEqual([state.realized_pnl, state.trades, state.consecutive_losses], [-35, 3, 0]);
+    assert.equal(state.last_close_time, NOON);
+
+    // Counters start over on the next UTC day
+    const tomorrow = recordCloses(state, [], NOON + 24 * HOUR_MS);
+    assert.deepEqual([tomorrow.realized_pnl, tomorrow.trades], [0, 0]);
+});
+
+test('accountTrips reports the limits reached', () => {
+    let state = newGuardrailState('ETH_USDT', 'exchange', NOON);
+    state = recordCloses(state, [1, 2, 3].map(i => ({ time: NOON - i * 60000, pnl: -40 })), NOON);
+    assert.deepEqual(accountTrips(state, config, NOON).map(t => t.code), ['DAILY_LOSS', 'CONSECUTIVE_LOSSES']);
+    assert.deepEqual(accountTrips({ ...newGuardrailState('ETH_USDT', 'exchange', NOON), kill_switch: true }, config, NOON).map(t => t.code), ['KILL_SWITCH']);
+});
+
+test('applyGuardrails turns openings into WAIT and holds into CLOSE', () => {
+    const tripped = [{ code: 'KILL_SWITCH' as const }];
+    assert.equal(applyGuardrails(openLong, []), openLong);
+
+    const wait = applyGuardrails(openLong, tripped);
+    assert.equal(wait.action, 'WAIT');
+    assert.equal(wait.side, null);
+    assert.equal(wait.reasons[0].code, 'GUARDRAIL_TRIPPED');
+
+    const close = applyGuardrails({ ...openLong, action: 'HOLD_LONG' }, tripped);
+    assert.deepEqual([close.action, close.side], ['CLOSE_LONG', 'long']);
+
+    const closing = applyGuardrails({ ...openLong, action: 'CLOSE_LONG', level: 'Low' }, tripped);
+    assert.equal(closing.level, 'High');
+    assert.deepEqual(closing.reasons.map(r => r.code), ['GUARDRAIL_TRIPPED', 'RISK_OK']); // Original reasons kept
+});
+
+test('a concurrent save of the counters does not undo the kill switch', async () => {
+    setStorage(createMemoryStorage());
+    const stale = await loadGuardrailState('ETH_USDT', 'exchange'); // E.g. /api/signal, mid-request
+    assert.equal((await setKillSwitch('ETH_USDT', 'exchange', true)).kill_switch, true);
+    await saveGuardrailState(recordCloses(stale, [{ time: NOON, pnl: -10 }], NOON));
+
+    const state = await loadGuardrailState('ETH_USDT', 'exchange');
+    assert.equal(state.kill_switch, true);
+    assert.equal(state.trades, 1);
+    assert.equal((await resetGuardrailState('ETH_USDT', 'exchange')).kill_switch, true); // Reset leaves it engaged
+
+    await setKillSwitch('ETH_USDT', 'exchange', false);
+    assert.equal((await loadGuardrailState('ETH_USDT', 'exchange')).kill_switch, false);
+    assert.equal((await loadGuardrailState('ETH_USDT', 'paper')).kill_switch, false); // Per position source
+});
+
+test('a kill switch saved inside the state by an older version still applies', async () => {
+    const storage = createMemoryStorage();
+    setStorage(storage);
+    await storage.set(guardrailStateKey('ETH_USDT', 'exchange'), { ...newGuardrailState('ETH_USDT', 'exchange', NOON), kill_switch: true });
+    assert.equal((await loadGuardrailState('ETH_USDT', 'exchange')).kill_switch, true);
+    await setKillSwitch('ETH_USDT', 'exchange', false);
+    assert.equal((await loadGuardrailState('ETH_USDT', 'exchange')).kill_switch, false);
+});
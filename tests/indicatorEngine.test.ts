@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CandleData } from '../lib/types';
+import { calculateIndicators } from '../lib/indicators';
+import { createIndicatorEngine, runIndicatorEngine } from '../lib/indicatorEngine';
+
+const FIELDS = ['EMA5', 'EMA10', 'BB_Upper', 'BB_Middle', 'BB_Lower', 'BB_Width', 'Stoch_K', 'Stoch_D', 'VMA20', 'VWAP', 'ATR14'];
+const ROUNDED = new Set(['BB_Upper', 'BB_Lower', 'BB_Width']); // Running sum of squares vs two-pass std dev
+
+// Deterministic random walk with flat stretches (Stoch carry-forward) and zero-volume bars,
+// drifting by `trend` per bar
+function series(length: number, seed = 1, trend = 0): CandleData[] {
+    let state = seed;
+    const random = () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296;
+    };
+    let close = 3000;
+    return Array.from({ length }, (_, i) => {
+        const flat = i % 97 < 12;
+        const open = close;
+        close = flat ? open : open + trend + (random() - 0.5) * 8;
+        const high = flat ? open : Math.max(open, close) + random() * 3;
+        const low = flat ? open : Math.min(open, close) - random() * 3;
+        return { timestamp: 1714521600000 + i * 60000, open, high, low, close, volume: i % 50 === 0 ? 0 : random() * 200 };
+    });
+}
+
+function assertSame(actual: CandleData[], expected: CandleData[]) {
+    assert.equal(actual.length, expected.length);
+    expected.forEach((bar, i) => {
+        FIELDS.forEach(field => {
+            const a = actual[i][field] as number | null;
+            const e = bar[field] as number | null;
+            if (ROUNDED.has(field) && a !== null && e !== null) {
+                assert.ok(Math.abs(a - e) <= 1e-9 * Math.max(1, Math.abs(e)), `${field} at bar ${i}: ${a} vs ${e}`);
+            } else {
+                assert.equal(a, e, `${field} at bar ${i}`);
+            }
+        });
+    });
+}
+
+test('engine matches the batch indicators', () => {
+    const data = series(500);
+    assertSame(runIndicatorEngine(data).candles, calculateIndicators(data));
+});
+
+test('engine stays within rounding of the batch indicators over a long trending run', () => {
+    const data = series(50000, 5, 0.5); // 3000 -> ~28000: far from where the windows started
+    assertSame(runIndicatorEngine(data).candles, calculateIndicators(data));
+});
+
+test('engine matches the batch indicators with custom params', () => {
+    const params = { emaFast: 3, emaSlow: 21, bbPeriod: 10, bbStdDevMultiplier: 2.5, stochPeriod: 14, stochKSmooth: 1, stochDSmooth: 5, vmaPeriod: 7, atrPeriod: 5 };
+    const data = series(300, 7);
+    assertSame(runIndicatorEngine(data, params).candles, calculateIndicators(data, params));
+});
+
+test('serialized state resumes where it stopped', () => {
+    const data = series(400, 3);
+    const full = runIndicatorEngine(data).candles;
+    const first = runIndicatorEngine(data.slice(0, 250));
+    const resumed = runIndicatorEngine(data.slice(250), JSON.parse(JSON.stringify(first.state)));
+    assert.deepEqual([...first.candles, ...resumed.candles], full);
+});
+
+test('preview does not commit the forming bar', () => {
+    const data = series(60, 5);
+    const engine = createIndicatorEngine();
+    data.slice(0, 59).forEach(c => engine.update(c));
+    const before = JSON.stringify(engine.getState());
+    const forming = engine.preview(data[59]);
+    assert.equal(JSON.stringify(engine.getState()), before);
+    assert.deepEqual(forming, engine.update(data[59]));
+    assert.throws(() => engine.update(data[10]), /increasing timestamps/);
+});
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryStorage, setStorage } from '../lib/storage';
+import { LEGACY_HISTORY_KEY, historyKey } from '../lib/contracts';
+import { appendSignalRecord, latestSignalRecords, signalRecordsBetween } from '../lib/signalHistoryStore';
+import type { SignalProps } from '../lib/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Minimal stored record: the fields the store keys and filters on
+const record = (time: number): Omit<SignalProps, 'isLoading' | 'error'> => ({ time, contract: 'ETH_USDT' });
+
+test('default contract history includes records from the legacy key', async () => {
+    const storage = createMemoryStorage();
+    setStorage(storage);
+    const now = Date.now();
+    await storage.append(LEGACY_HISTORY_KEY, now - 2000, { time: now - 2000 });
+    await storage.append(LEGACY_HISTORY_KEY, now - 40 * DAY_MS, { time: now - 40 * DAY_MS });
+    await appendSignalRecord('ETH_USDT', record(now - 1000), 0);
+
+    assert.deepEqual((await latestSignalRecords('ETH_USDT', 2)).map(r => r.time), [now - 1000, now - 2000]);
+    assert.deepEqual((await signalRecordsBetween('ETH_USDT', now - 5000, now)).map(r => r.time), [now - 2000, now - 1000]);
+    assert.equal((await latestSignalRecords('SOL_USDT', 10)).length, 0); // Legacy history was the default contract's only
+
+    // Pruning ages the legacy records out too
+    assert.equal(await appendSignalRecord('ETH_USDT', record(now), 30), 1);
+    assert.equal((await storage.latest(LEGACY_HISTORY_KEY, 10)).length, 1);
+    assert.equal((await storage.latest(historyKey('ETH_USDT'), 10)).length, 2);
+});
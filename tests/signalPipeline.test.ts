@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeStrategyConfig } from '../lib/strategyConfig';
+import { extraFetchBars, maxSignalWindowBars, signalWindowBars } from '../lib/signalPipeline';
+
+const NOW = Date.UTC(2024, 4, 1, 12, 0);
+const HOUR_MS = 60 * 60 * 1000;
+
+test('a window at the cap plus the closed-mode bar stays within maxBaseBars', () => {
+    const config = mergeStrategyConfig({ vwap: { anchor: 'position_entry' } });
+    const entry = NOW - 48 * HOUR_MS; // Session far longer than the cap
+    const cap = config.timeframes.maxBaseBars;
+    assert.equal(maxSignalWindowBars(config), cap);
+
+    assert.equal(signalWindowBars(config, NOW, entry, 'live') + extraFetchBars('live'), cap);
+    assert.equal(signalWindowBars(config, NOW, entry, 'closed') + extraFetchBars('closed'), cap);
+    assert.equal(signalWindowBars(config, NOW, NOW - HOUR_MS, 'closed'), signalWindowBars(config, NOW, NOW - HOUR_MS)); // Below the cap: unchanged
+});
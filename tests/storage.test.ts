@@ -0,0 +1,92 @@
+import { after, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createMemoryStorage, createSqliteStorage, getStorage, hasConfiguredStorage, setStorage, type StorageBackend } from '../lib/storage';
+
+// The same contract for every backend that runs without network access
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+const backends: [string, () => StorageBackend][] = [
+    ['memory', () => createMemoryStorage()],
+    ['sqlite', () => createSqliteStorage(path.join(tmpDir, `${Math.random().toString(36).slice(2)}.db`))],
+];
+
+for (const [name, create] of backends) {
+    describe(`${name} storage`, () => {
+        test('documents round-trip as JSON and can be deleted', async () => {
+            const storage = create();
+            assert.equal(await storage.get('missing'), null);
+            assert.equal(await storage.set('doc', { a: 1, b: [true, null] }), true);
+            assert.deepEqual(await storage.get('doc'), { a: 1, b: [true, null] });
+            await storage.set('doc', 2);
+            assert.equal(await storage.get('doc'), 2);
+            await storage.del('doc');
+            assert.equal(await storage.get('doc'), null);
+        });
+
+        test('onlyIfAbsent keeps the first value until it expires', async () => {
+            const storage = create();
+            const start = Date.now();
+            const now = mock.method(Date, 'now', () => start);
+            try {
+                assert.equal(await storage.set('claim', 'first', { onlyIfAbsent: true, ttlSeconds: 60 }), true);
+                assert.equal(await storage.set('claim', 'second', { onlyIfAbsent: true, ttlSeconds: 60 }), false);
+                assert.equal(await storage.get('claim'), 'first');
+
+                now.mock.mockImplementation(() => start + 60 * 1000);
+                assert.equal(await storage.get('claim'), null);
+                assert.equal(await storage.set('claim', 'third', { onlyIfAbsent: true }), true);
+                assert.equal(await storage.get('claim'), 'third');
+            } finally {
+                now.mock.restore();
+            }
+        });
+
+        test('logs are ordered by score', async () => {
+            const storage = create();
+            for (const score of [30, 10, 20, 40]) await storage.append('log', score, { score });
+            assert.deepEqual((await storage.range<{ score: number }>('log', 10, 30)).map(e => e.score), [10, 20, 30]);
+            assert.deepEqual((await storage.latest<{ score: number }>('log', 2)).map(e => e.score), [40, 30]);
+            assert.deepEqual(await storage.range('other', 0, 100), []);
+        });
+
+        test('logs can be pruned by score or count', async () => {
+            const storage = create();
+            for (const score of [1, 2, 3, 4, 5]) await storage.append('log', score, score);
+            assert.equal(await storage.removeUpTo('log', 2), 2);
+            assert.deepEqual(await storage.latest('log', 10), [5, 4, 3]);
+            await storage.trimToLatest('log', 2);
+            assert.deepEqual(await storage.latest('log', 10), [5, 4]);
+            await storage.del('log');
+            assert.deepEqual(await storage.latest('log', 10), []);
+        });
+    });
+}
+
+test('the in-memory fallback only counts as configured when chosen explicitly', () => {
+    const saved = { backend: process.env.STORAGE_BACKEND, kv: process.env.KV_REST_API_URL };
+    const warn = mock.method(console, 'warn', () => {});
+    try {
+        delete process.env.STORAGE_BACKEND;
+        delete process.env.KV_REST_API_URL;
+        setStorage(null);
+        assert.equal(getStorage().name, 'memory');
+        assert.equal(hasConfiguredStorage(), false);
+
+        process.env.STORAGE_BACKEND = 'memory';
+        setStorage(null);
+        assert.equal(hasConfiguredStorage(), true);
+
+        setStorage(createMemoryStorage()); // Set by hand, e.g. in scripts
+        assert.equal(hasConfiguredStorage(), true);
+    } finally {
+        warn.mock.restore();
+        setStorage(null);
+        if (saved.backend === undefined) delete process.env.STORAGE_BACKEND;
+        else process.env.STORAGE_BACKEND = saved.backend;
+        if (saved.kv !== undefined) process.env.KV_REST_API_URL = saved.kv;
+    }
+});
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CandleData, PositionInfoFromAPI } from '../lib/types';
+import { DEFAULT_STRATEGY_CONFIG } from '../lib/strategyConfig';
+import type { TradePlanConfig } from '../lib/tradePlan';
+import { updateTrailingStop, type TrailingStopState } from '../lib/trailingStop';
+
+const BAR_MS = 60 * 1000;
+const OPEN = Date.UTC(2024, 4, 1, 12, 0);
+const ids = { contract: 'ETH_USDT', source: 'exchange' as const };
+const chandelier: TradePlanConfig = { ...DEFAULT_STRATEGY_CONFIG.tradePlan, trailMode: 'chandelier', trailAtrMultiple: 3 };
+const long: PositionInfoFromAPI = { side: 'long', entryPrice: 100, liquidationPrice: null, openTimeMs: OPEN };
+const short: PositionInfoFromAPI = { ...long, side: 'short' };
+
+// Bars from the open; ATR14 = 2 and EMA10 fixed unless given
+const bar = (i: number, high: number, low: number, close: number, extra: Partial<CandleData> = {}): CandleData =>
+    ({ timestamp: OPEN + i * BAR_MS, open: close, high, low, close, volume: 1, ATR14: 2, EMA10: 99, ...extra });
+
+// Runs the bars one by one, carrying the state as /api/signal does
+function track(position: PositionInfoFromAPI, bars: CandleData[], config: TradePlanConfig, initialStop: number | null = 95) {
+    let state: TrailingStopState | null = null;
+    return bars.map((_, i) => (state = updateTrailingStop(state, position, bars.slice(0, i + 1), config, initialStop, ids))!);
+}
+
+test('a new track starts at the plan stop, or stopAtrMultiple ATRs without one', () => {
+    const [withPlan] = track(long, [bar(0, 100.5, 99.5, 100)], chandelier);
+    assert.deepEqual([withPlan.level, withPlan.risk, withPlan.basis, withPlan.breached], [95, 5, 'initial', false]);
+
+    const [fromAtr] = track(long, [bar(0, 100, 99.5, 100)], chandelier, null);
+    assert.deepEqual([fromAtr.level, fromAtr.risk], [94, 6]); // 3 × ATR 2
+
+    const [wrongSide] = track(long, [bar(0, 100, 99.5, 100)], chandelier, 105); // Above a long's entry: ignored
+    assert.equal(wrongSide.level, 94);
+
+    assert.equal(updateTrailingStop(null, long, [bar(0, 101, 99, 100, { ATR14: null })], chandelier, 95, ids), null);
+});
+
+test('the chandelier level follows the best price and never loosens', () => {
+    const states = track(long, [
+        bar(0, 100.5, 99.5, 100),
+        bar(1, 106, 101, 105), // Best 106: 106 - 6 = 100
+        bar(2, 108, 104, 107), // Best 108: 102
+        bar(3, 107, 103, 104), // Pullback: stays at 102
+    ], chandelier);
+    assert.deepEqual(states.map(s => s.level), [95, 100, 102, 102]);
+    assert.deepEqual(states.map(s => s.basis), ['initial', 'chandelier', 'chandelier', 'chandelier']);
+    assert.equal(states[3].best_price, 108);
+    assert.equal(states[3].breached, false);
+});
+
+test('a close at or beyond the level is a breach', () => {
+    const states = track(long, [bar(0, 100.5, 99.5, 100), bar(1, 108, 104, 107), bar(2, 103, 101, 102)], chandelier);
+    assert.equal(states[1].level, 102);
+    assert.equal(states[2].breached, true);
+
+    const shortStates = track(short, [bar(0, 100.5, 99.5, 100), bar(1, 99, 92, 93), bar(2, 99, 97, 98)], chandelier, 105);
+    assert.deepEqual(shortStates.map(s => s.level), [105, 98, 98]); // Lowest low 92 + 6
+    assert.equal(shortStates[2].breached, true);
+});
+
+test('break_even moves the stop to entry once the profit reaches breakEvenR', () => {
+    const config = { ...chandelier, trailMode: 'break_even' as const, breakEvenR: 1 };
+    const states = track(long, [bar(0, 100.5, 99.5, 100), bar(1, 104, 100, 103), bar(2, 105, 102, 104)], config);
+    assert.deepEqual(states.map(s => s.level), [95, 95, 100]); // 1R = 5, reached at 105
+    assert.equal(states[2].basis, 'break_even');
+});
+
+test('ema10 trails below the EMA by the ATR buffer', () => {
+    const config = { ...chandelier, trailMode: 'ema10' as const, trailEmaBufferAtr: 0.5 };
+    const states = track(long, [bar(0, 100.5, 99.5, 100, { EMA10: 90 }), bar(1, 104, 101, 103, { EMA10: 101 })], config);
+    assert.deepEqual(states.map(s => s.level), [95, 100]); // 90 - 1 is below the initial stop
+});
+
+test('a different position or mode starts a new track', () => {
+    const [first] = track(long, [bar(0, 110, 99.5, 108)], chandelier);
+    assert.equal(first.level, 104);
+    const bars = [bar(0, 110, 99.5, 108), bar(1, 108.5, 107, 108)];
+
+    const reentered = updateTrailingStop(first, { ...long, entryPrice: 107, openTimeMs: OPEN + BAR_MS }, bars, chandelier, 102, ids)!;
+    assert.deepEqual([reentered.entry_price, reentered.best_price, reentered.level, reentered.basis], [107, 108.5, 102.5, 'chandelier']);
+
+    const remoded = updateTrailingStop(first, long, bars, { ...chandelier, trailMode: 'break_even' }, 95, ids)!;
+    assert.equal(remoded.mode, 'break_even');
+    assert.equal(remoded.level, 100); // Best 110 since the open is 2R
+});